@@ -0,0 +1,332 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getAllUsers } from '@/lib/users';
+import { getAllVideos, getAllPlaylists } from '@/lib/firestore';
+import { getAllSharedPlaylists, revokeSharedPlaylist, SharedPlaylist } from '@/lib/sharing';
+import { getGlobalAnalytics } from '@/lib/analytics';
+import { getOpenFlags, groupFlagsByItem, ModerationItem } from '@/lib/moderation';
+import { runVideoHealthCheck, HealthCheckSummary } from '@/lib/videoHealth';
+import { formatTimeOffset, durationToSeconds } from '@/lib/youtube';
+import { Playlist, User, Video } from '@/types';
+import UserManagement from '@/components/admin/UserManagement';
+import ModerationQueue from '@/components/admin/ModerationQueue';
+
+type AdminTab = 'moderation' | 'users' | 'videos' | 'playlists' | 'shares';
+
+type GlobalStats = Awaited<ReturnType<typeof getGlobalAnalytics>>;
+
+const AdminPage: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const [activeTab, setActiveTab] = useState<AdminTab>('moderation');
+  const [isLoading, setIsLoading] = useState(true);
+  const [users, setUsers] = useState<User[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [shares, setShares] = useState<SharedPlaylist[]>([]);
+  const [moderationItems, setModerationItems] = useState<ModerationItem[]>([]);
+  const [healthProgress, setHealthProgress] = useState<{ checked: number; total: number } | null>(null);
+  const [healthSummary, setHealthSummary] = useState<HealthCheckSummary | null>(null);
+  const [globalStats, setGlobalStats] = useState<GlobalStats>(null);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadAdminData();
+    }
+  }, [isAdmin]);
+
+  const loadAdminData = async () => {
+    setIsLoading(true);
+    try {
+      const [allUsers, allVideos, allPlaylists, allShares, stats, openFlags] = await Promise.all([
+        getAllUsers(),
+        getAllVideos({ includeHidden: true }),
+        getAllPlaylists(),
+        getAllSharedPlaylists(),
+        getGlobalAnalytics(),
+        getOpenFlags(),
+      ]);
+
+      setUsers(allUsers.sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email)));
+      setVideos(allVideos);
+      setPlaylists(allPlaylists.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+      setShares(allShares.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+      setGlobalStats(stats);
+      setModerationItems(groupFlagsByItem(openFlags));
+    } catch (error) {
+      console.error('Error loading admin data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUserUpdated = (updated: User) => {
+    setUsers(prev => prev.map(user => (user.uid === updated.uid ? updated : user)));
+  };
+
+  const handleItemResolved = async (resolved: ModerationItem) => {
+    setModerationItems(prev => prev.filter(
+      item => !(item.itemType === resolved.itemType && item.itemId === resolved.itemId)
+    ));
+
+    if (resolved.itemType === 'video') {
+      setVideos(await getAllVideos({ includeHidden: true }));
+    }
+  };
+
+  const handleRunHealthCheck = async () => {
+    setHealthSummary(null);
+    setHealthProgress({ checked: 0, total: videos.length });
+    try {
+      const summary = await runVideoHealthCheck(undefined, (checked, total) => {
+        setHealthProgress({ checked, total });
+      });
+      setHealthSummary(summary);
+      setVideos(await getAllVideos({ includeHidden: true }));
+    } catch (error) {
+      console.error('Error running video health check:', error);
+    } finally {
+      setHealthProgress(null);
+    }
+  };
+
+  const handleRevokeShare = async (share: SharedPlaylist) => {
+    if (!confirm('Revoke this share link? Anyone with the link will lose access.')) return;
+
+    try {
+      await revokeSharedPlaylist(share.shareId);
+      setShares(prev => prev.map(s => (s.id === share.id ? { ...s, isActive: false } : s)));
+    } catch (error) {
+      console.error('Error revoking share:', error);
+    }
+  };
+
+  const getUserLabel = (uid: string) => {
+    const user = users.find(u => u.uid === uid);
+    return user ? user.name || user.email : 'Unknown user';
+  };
+
+  const getPlaylistTitle = (playlistId: string) => {
+    return playlists.find(p => p.id === playlistId)?.title || 'Deleted playlist';
+  };
+
+  const tabs: { id: AdminTab; label: string; count: number }[] = [
+    { id: 'moderation', label: 'Moderation', count: moderationItems.length },
+    { id: 'users', label: 'Users', count: users.length },
+    { id: 'videos', label: 'Videos', count: videos.length },
+    { id: 'playlists', label: 'Playlists', count: playlists.length },
+    { id: 'shares', label: 'Shares', count: shares.length },
+  ];
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Admin</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Manage staff accounts and review everything in the shared library
+        </p>
+      </div>
+
+      {/* Overview */}
+      {globalStats && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <div className="text-sm font-medium text-gray-500">Sessions</div>
+            <div className="text-2xl font-bold text-gray-900">{globalStats.totalSessions}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <div className="text-sm font-medium text-gray-500">Active Users</div>
+            <div className="text-2xl font-bold text-gray-900">{globalStats.uniqueUsers}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <div className="text-sm font-medium text-gray-500">Videos Played</div>
+            <div className="text-2xl font-bold text-gray-900">{globalStats.totalVideos}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <div className="text-sm font-medium text-gray-500">Avg. Session</div>
+            <div className="text-2xl font-bold text-gray-900">{formatTimeOffset(globalStats.averageSessionDuration)}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {/* Tabs */}
+        <div className="flex space-x-8 border-b border-gray-200 px-6">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-3 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label} ({tab.count})
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="h-10 bg-gray-100 rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : activeTab === 'moderation' ? (
+            <ModerationQueue items={moderationItems} onItemResolved={handleItemResolved} />
+          ) : activeTab === 'users' ? (
+            <UserManagement users={users} onUserUpdated={handleUserUpdated} />
+          ) : activeTab === 'videos' ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                  {healthProgress
+                    ? `Checking videos... ${healthProgress.checked} of ${healthProgress.total}`
+                    : healthSummary
+                      ? `Checked ${healthSummary.checked} videos: ${healthSummary.available} available, ${healthSummary.unavailable} unavailable, ${healthSummary.unknown} could not be checked.`
+                      : 'Check every video against YouTube to find ones that have been removed or made private.'}
+                </p>
+                <button
+                  onClick={handleRunHealthCheck}
+                  disabled={!!healthProgress}
+                  className="ml-4 flex-shrink-0 px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {healthProgress ? 'Checking...' : 'Run Health Check'}
+                </button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Video</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Availability</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added By</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {videos.map(video => (
+                      <tr key={video.videoId}>
+                        <td className="px-4 py-3">
+                          <a
+                            href={`https://www.youtube.com/watch?v=${video.videoId}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                          >
+                            {video.title}
+                          </a>
+                          <div className="text-xs text-gray-500">
+                            {video.channelName}
+                            {video.hidden && <span className="ml-2 font-medium text-red-600">Hidden</span>}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-500">
+                          {formatTimeOffset(durationToSeconds(video.duration))}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {video.availability ? (
+                            <span
+                              className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                                video.availability === 'available'
+                                  ? 'bg-green-100 text-green-800'
+                                  : video.availability === 'unavailable'
+                                    ? 'bg-red-100 text-red-800'
+                                    : 'bg-gray-100 text-gray-600'
+                              }`}
+                              title={video.availabilityCheckedAt ? `Checked ${new Date(video.availabilityCheckedAt).toLocaleString()}` : undefined}
+                            >
+                              {video.availability === 'available' ? 'Available' : video.availability === 'unavailable' ? 'Unavailable' : 'Unknown'}
+                            </span>
+                          ) : (
+                            <span className="text-xs text-gray-400">Not checked</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-500">{getUserLabel(video.createdBy)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-500">{new Date(video.createdAt).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : activeTab === 'playlists' ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Playlist</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Owner</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Videos</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {playlists.map(playlist => (
+                    <tr key={playlist.id}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{playlist.title}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{getUserLabel(playlist.userId)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{playlist.videoRefs.length}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{new Date(playlist.createdAt).toLocaleDateString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Playlist</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shared By</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Views</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {shares.map(share => (
+                    <tr key={share.id}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{getPlaylistTitle(share.playlistId)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{share.sharedByName}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{share.accessCount}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{new Date(share.expiresAt).toLocaleDateString()}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                          share.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                        }`}>
+                          {share.isActive ? 'Active' : 'Revoked'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {share.isActive && (
+                          <button
+                            onClick={() => handleRevokeShare(share)}
+                            className="text-sm font-medium text-red-600 hover:text-red-800"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -7,24 +7,52 @@ import {
   getUserUsageMetrics, 
   getGlobalAnalytics 
 } from '@/lib/analytics';
+import { getUserParticipants } from '@/lib/participants';
+import {
+  GoalProgressSeries,
+  getGoalProgressSeries,
+  getParticipantSessions,
+  toDateInputValue,
+} from '@/lib/progressReports';
 import { 
+  Participant,
   SessionAnalytics, 
   UsageMetrics 
 } from '@/types';
+import GoalProgressChart from '@/components/participants/GoalProgressChart';
 
 const AnalyticsPage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const [isLoading, setIsLoading] = useState(true);
   const [sessionData, setSessionData] = useState<SessionAnalytics[]>([]);
   const [usageData, setUsageData] = useState<UsageMetrics[]>([]);
   const [globalStats, setGlobalStats] = useState<any>(null);
   const [timeRange, setTimeRange] = useState<'7' | '30' | '90'>('30');
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [selectedParticipantId, setSelectedParticipantId] = useState('');
+  const [goalSeries, setGoalSeries] = useState<GoalProgressSeries[]>([]);
 
   useEffect(() => {
     if (user) {
       loadAnalyticsData();
     }
-  }, [user, timeRange]);
+  }, [user, isAdmin, timeRange]);
+
+  // Goal charts start on the first participant who has goals
+  useEffect(() => {
+    if (user) {
+      getUserParticipants(user.uid).then(userParticipants => {
+        setParticipants(userParticipants);
+        setSelectedParticipantId(userParticipants.find(participant => participant.goals.length > 0)?.id || '');
+      });
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user && selectedParticipantId) {
+      loadGoalProgress();
+    }
+  }, [user, selectedParticipantId, timeRange]);
 
   const loadAnalyticsData = async () => {
     if (!user) return;
@@ -34,7 +62,7 @@ const AnalyticsPage: React.FC = () => {
       const [sessions, usage, global] = await Promise.all([
         getSessionAnalytics(user.uid, 20), // Last 20 sessions
         getUserUsageMetrics(user.uid, parseInt(timeRange)),
-        getGlobalAnalytics()
+        isAdmin ? getGlobalAnalytics() : Promise.resolve(null) // Platform-wide stats are admin only
       ]);
 
       setSessionData(sessions);
@@ -47,6 +75,25 @@ const AnalyticsPage: React.FC = () => {
     }
   };
 
+  const loadGoalProgress = async () => {
+    const participant = participants.find(p => p.id === selectedParticipantId);
+    if (!user || !participant) return;
+
+    try {
+      const start = new Date();
+      start.setDate(start.getDate() - parseInt(timeRange));
+      const sessions = await getParticipantSessions(
+        user.uid,
+        participant.id,
+        toDateInputValue(start),
+        toDateInputValue(new Date())
+      );
+      setGoalSeries(getGoalProgressSeries(sessions, participant));
+    } catch (error) {
+      console.error('Error loading goal progress:', error);
+    }
+  };
+
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -255,6 +302,30 @@ const AnalyticsPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Goal Progress */}
+      {participants.some(participant => participant.goals.length > 0) && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Goal Progress</h2>
+            <select
+              value={selectedParticipantId}
+              onChange={(e) => setSelectedParticipantId(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+              aria-label="Participant"
+            >
+              {participants.filter(participant => participant.goals.length > 0).map(participant => (
+                <option key={participant.id} value={participant.id}>{participant.displayName}</option>
+              ))}
+            </select>
+          </div>
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            {goalSeries.map(series => (
+              <GoalProgressChart key={series.goal.id} series={series} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Global Stats (if available) */}
       {globalStats && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
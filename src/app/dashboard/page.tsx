@@ -6,6 +6,8 @@ import DashboardStats from '@/components/dashboard/DashboardStats';
 import RecentPlaylists from '@/components/dashboard/RecentPlaylists';
 import QuickActions from '@/components/dashboard/QuickActions';
 import WelcomeSection from '@/components/dashboard/WelcomeSection';
+import Recommendations from '@/components/dashboard/Recommendations';
+import TodaysSessions from '@/components/dashboard/TodaysSessions';
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
@@ -18,9 +20,15 @@ const Dashboard: React.FC = () => {
       {/* Stats Overview */}
       <DashboardStats />
       
+      {/* Today's Sessions */}
+      <TodaysSessions />
+      
       {/* Quick Actions */}
       <QuickActions />
       
+      {/* Suggestions */}
+      <Recommendations />
+      
       {/* Recent Playlists */}
       <RecentPlaylists />
     </div>
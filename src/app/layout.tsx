@@ -2,6 +2,7 @@ import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
 import { AuthProvider } from '@/contexts/AuthContext'
+import { PreferencesProvider } from '@/contexts/PreferencesContext'
 import AppLayout from '@/components/layout/AppLayout'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -20,9 +21,11 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className} suppressHydrationWarning={true}>
         <AuthProvider>
-          <AppLayout>
-            {children}
-          </AppLayout>
+          <PreferencesProvider>
+            <AppLayout>
+              {children}
+            </AppLayout>
+          </PreferencesProvider>
         </AuthProvider>
       </body>
     </html>
@@ -3,16 +3,18 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 
 export default function Home() {
   const { user, loading } = useAuth();
+  const { preferences, loading: preferencesLoading } = usePreferences();
   const router = useRouter();
 
   useEffect(() => {
-    if (!loading && user) {
-      router.push('/dashboard');
+    if (!loading && !preferencesLoading && user) {
+      router.push(preferences.landingPage);
     }
-  }, [user, loading, router]);
+  }, [user, loading, preferencesLoading, preferences.landingPage, router]);
 
   // The AppLayout will handle the login screen
   return null;
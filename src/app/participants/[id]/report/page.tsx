@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getParticipant } from '@/lib/participants';
+import { getPlaylist, getVideo } from '@/lib/firestore';
+import {
+  ProgressReport,
+  buildProgressReport,
+  getParticipantSessions,
+  toDateInputValue,
+} from '@/lib/progressReports';
+import { Participant } from '@/types';
+import ProgressReportView from '@/components/participants/ProgressReportView';
+
+// NDIS plan reviews usually look back over a quarter
+const DEFAULT_REPORT_DAYS = 90;
+
+const ParticipantReportPage: React.FC = () => {
+  const params = useParams();
+  const participantId = params?.id as string;
+  const { user } = useAuth();
+  const [participant, setParticipant] = useState<Participant | null>(null);
+  const [report, setReport] = useState<ProgressReport | null>(null);
+  const [videoTitles, setVideoTitles] = useState<Record<string, string>>({});
+  const [playlistTitles, setPlaylistTitles] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [from, setFrom] = useState(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - DEFAULT_REPORT_DAYS);
+    return toDateInputValue(start);
+  });
+  const [to, setTo] = useState(() => toDateInputValue(new Date()));
+
+  useEffect(() => {
+    if (user && participantId && from && to && from <= to) {
+      loadReport();
+    }
+  }, [user, participantId, from, to]);
+
+  const loadReport = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const [participantData, sessions] = await Promise.all([
+        getParticipant(participantId),
+        getParticipantSessions(user.uid, participantId, from, to),
+      ]);
+      setParticipant(participantData);
+      if (!participantData) return;
+
+      const nextReport = buildProgressReport(participantData, sessions, from, to);
+
+      const [videos, playlists] = await Promise.all([
+        Promise.all(nextReport.videos.map(video => getVideo(video.videoId))),
+        Promise.all(nextReport.playlists.map(playlist => getPlaylist(playlist.playlistId))),
+      ]);
+
+      setReport(nextReport);
+      setVideoTitles(Object.fromEntries(
+        videos.flatMap(video => video ? [[video.videoId, video.title]] : [])
+      ));
+      setPlaylistTitles(Object.fromEntries(
+        playlists.flatMap(playlist => playlist ? [[playlist.id, playlist.title]] : [])
+      ));
+    } catch (error) {
+      console.error('Error building progress report:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Report Controls */}
+      <div className="flex flex-wrap items-end justify-between gap-4 print:hidden">
+        <div>
+          <Link href="/participants" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Participants
+          </Link>
+          <div className="mt-3 flex items-end gap-3">
+            <div>
+              <label htmlFor="report-from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                id="report-from"
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="report-to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                id="report-to"
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={() => window.print()}
+          disabled={isLoading || !report || !participant}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+          </svg>
+          Print or Save as PDF
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          <div className="animate-pulse space-y-4">
+            <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            <div className="h-24 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      ) : !participant || !report ? (
+        <div className="text-center py-12">
+          <h3 className="text-sm font-medium text-gray-900">Participant not found</h3>
+          <p className="mt-1 text-sm text-gray-500">This profile may have been deleted.</p>
+        </div>
+      ) : (
+        <ProgressReportView
+          participant={participant}
+          report={report}
+          preparedBy={user?.displayName || user?.email || 'Support worker'}
+          videoTitles={videoTitles}
+          playlistTitles={playlistTitles}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ParticipantReportPage;
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteParticipant, getUserParticipants } from '@/lib/participants';
+import { Participant } from '@/types';
+import ParticipantCard from '@/components/participants/ParticipantCard';
+import ParticipantModal from '@/components/modals/ParticipantModal';
+
+const ParticipantsPage: React.FC = () => {
+  const { user } = useAuth();
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedParticipant, setSelectedParticipant] = useState<Participant | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadParticipants();
+    }
+  }, [user]);
+
+  const loadParticipants = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const results = await getUserParticipants(user.uid);
+      setParticipants(results);
+    } catch (error) {
+      console.error('Error loading participants:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEditParticipant = (participant: Participant) => {
+    setSelectedParticipant(participant);
+    setIsModalOpen(true);
+  };
+
+  const handleDeleteParticipant = async (participant: Participant) => {
+    if (!confirm(`Delete the profile for "${participant.displayName}"? Past session records are kept.`)) return;
+
+    try {
+      await deleteParticipant(participant.id);
+      setParticipants(prev => prev.filter(p => p.id !== participant.id));
+    } catch (error) {
+      console.error('Error deleting participant:', error);
+    }
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedParticipant(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Participants</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            The people you run sessions for, their sensory needs and goals
+          </p>
+        </div>
+
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Add Participant
+        </button>
+      </div>
+
+      {/* Participants Grid */}
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-44 bg-gray-200 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : participants.length === 0 ? (
+        <div className="text-center py-12">
+          <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+          </svg>
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No participants yet</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Add the people you work with to record who attended each session.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {participants.map(participant => (
+            <ParticipantCard
+              key={participant.id}
+              participant={participant}
+              onEdit={handleEditParticipant}
+              onDelete={handleDeleteParticipant}
+            />
+          ))}
+        </div>
+      )}
+
+      <ParticipantModal
+        isOpen={isModalOpen}
+        participant={selectedParticipant}
+        onClose={handleCloseModal}
+        onSuccess={loadParticipants}
+      />
+    </div>
+  );
+};
+
+export default ParticipantsPage;
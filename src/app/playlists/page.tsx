@@ -1,8 +1,9 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { getUserPlaylists, createPlaylist } from '@/lib/firestore';
+import { getUserPlaylists, createPlaylist, createEntryId, migrateLegacyPlaylists, getUnavailableVideoIds } from '@/lib/firestore';
 import { Playlist } from '@/types';
 import PlaylistGrid from '@/components/playlist/PlaylistGrid';
 import CreatePlaylistModal from '@/components/modals/CreatePlaylistModal';
@@ -10,21 +11,33 @@ import EditPlaylistModal from '@/components/modals/EditPlaylistModal';
 import DeleteConfirmationModal from '@/components/modals/DeleteConfirmationModal';
 import SharePlaylistModal from '@/components/modals/SharePlaylistModal';
 import SessionLauncher from '@/components/session/SessionLauncher';
+import TemplateModal from '@/components/modals/TemplateModal';
+import ImportYouTubePlaylistModal from '@/components/modals/ImportYouTubePlaylistModal';
+import ImportPlaylistFileModal from '@/components/modals/ImportPlaylistFileModal';
+import ExportPlaylistModal from '@/components/modals/ExportPlaylistModal';
 
 const PlaylistsPage: React.FC = () => {
   const { user } = useAuth();
+  const router = useRouter();
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [unavailableVideoIds, setUnavailableVideoIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [isSessionLauncherOpen, setIsSessionLauncherOpen] = useState(false);
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isFileImportModalOpen, setIsFileImportModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
 
   useEffect(() => {
     if (user) {
       loadPlaylists();
+      // Give older playlists stored as plain video lists their own entry records
+      migrateLegacyPlaylists(user.uid).catch(console.error);
     }
   }, [user]);
 
@@ -33,8 +46,12 @@ const PlaylistsPage: React.FC = () => {
     
     setIsLoading(true);
     try {
-      const userPlaylists = await getUserPlaylists(user.uid);
+      const [userPlaylists, unavailableIds] = await Promise.all([
+        getUserPlaylists(user.uid),
+        getUnavailableVideoIds(),
+      ]);
       setPlaylists(userPlaylists);
+      setUnavailableVideoIds(unavailableIds);
     } catch (error) {
       console.error('Error loading playlists:', error);
     } finally {
@@ -72,7 +89,8 @@ const PlaylistsPage: React.FC = () => {
         userId: user.uid,
         title: `${playlist.title} (Copy)`,
         notes: playlist.notes,
-        videoRefs: [...playlist.videoRefs],
+        ...(playlist.sections ? { sections: playlist.sections } : {}),
+        entries: playlist.entries.map(entry => ({ ...entry, id: createEntryId() })),
       });
       loadPlaylists();
     } catch (error) {
@@ -95,12 +113,26 @@ const PlaylistsPage: React.FC = () => {
     setIsShareModalOpen(true);
   };
 
+  const handlePlaylistSaveAsTemplate = (playlist: Playlist) => {
+    setSelectedPlaylist(playlist);
+    setIsTemplateModalOpen(true);
+  };
+
+  const handlePlaylistExport = (playlist: Playlist) => {
+    setSelectedPlaylist(playlist);
+    setIsExportModalOpen(true);
+  };
+
   const handleCloseModals = () => {
     setIsCreateModalOpen(false);
     setIsEditModalOpen(false);
     setIsDeleteModalOpen(false);
     setIsShareModalOpen(false);
     setIsSessionLauncherOpen(false);
+    setIsTemplateModalOpen(false);
+    setIsImportModalOpen(false);
+    setIsFileImportModalOpen(false);
+    setIsExportModalOpen(false);
     setSelectedPlaylist(null);
   };
 
@@ -115,15 +147,37 @@ const PlaylistsPage: React.FC = () => {
           </p>
         </div>
         
-        <button
-          onClick={() => setIsCreateModalOpen(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Create New Playlist
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setIsFileImportModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 13h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            Import File
+          </button>
+          
+          <button
+            onClick={() => setIsImportModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            Import from YouTube
+          </button>
+          
+          <button
+            onClick={() => setIsCreateModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Create New Playlist
+          </button>
+        </div>
       </div>
 
       {/* Quick Stats */}
@@ -187,6 +241,9 @@ const PlaylistsPage: React.FC = () => {
         onPlaylistPlay={handlePlaylistPlay}
         onPlaylistView={handlePlaylistView}
         onPlaylistShare={handlePlaylistShare}
+        onPlaylistSaveAsTemplate={handlePlaylistSaveAsTemplate}
+        onPlaylistExport={handlePlaylistExport}
+        unavailableVideoIds={unavailableVideoIds}
         showActions={true}
         emptyMessage="No playlists created yet"
         emptyIcon={
@@ -224,6 +281,32 @@ const PlaylistsPage: React.FC = () => {
         />
       )}
       
+      <TemplateModal
+        isOpen={isTemplateModalOpen}
+        playlists={playlists}
+        initialPlaylistId={selectedPlaylist?.id}
+        onClose={handleCloseModals}
+        onSuccess={() => router.push('/templates')}
+      />
+      
+      <ImportYouTubePlaylistModal
+        isOpen={isImportModalOpen}
+        onClose={handleCloseModals}
+        onSuccess={handleCreateSuccess}
+      />
+      
+      <ImportPlaylistFileModal
+        isOpen={isFileImportModalOpen}
+        onClose={handleCloseModals}
+        onSuccess={handleCreateSuccess}
+      />
+      
+      <ExportPlaylistModal
+        isOpen={isExportModalOpen}
+        playlist={selectedPlaylist}
+        onClose={handleCloseModals}
+      />
+      
       {selectedPlaylist && isSessionLauncherOpen && (
         <SessionLauncher
           playlist={selectedPlaylist}
@@ -0,0 +1,312 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { getUserPlaylists } from '@/lib/firestore';
+import { getUserParticipants } from '@/lib/participants';
+import { getUserTubeInventories } from '@/lib/inventory';
+import { getSessionAnalytics } from '@/lib/analytics';
+import { toDateInputValue } from '@/lib/progressReports';
+import { getSessionLaunchSettings } from '@/lib/preferences';
+import {
+  OccurrenceStatus,
+  addDays,
+  deletePlannedSession,
+  getOccurrenceLaunchUrl,
+  getOccurrenceStatus,
+  getOccurrences,
+  getRecurrenceLabel,
+  getUserPlannedSessions,
+  getWeekStartDate,
+} from '@/lib/schedule';
+import { Participant, PlannedSession, Playlist, SessionAnalytics, TubeInventory } from '@/types';
+import PlannedSessionModal from '@/components/modals/PlannedSessionModal';
+
+const statusLabels: Record<OccurrenceStatus, string> = {
+  planned: 'Planned',
+  delivered: 'Delivered',
+  missed: 'Missed',
+};
+
+const statusColors: Record<OccurrenceStatus, string> = {
+  planned: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  missed: 'bg-red-100 text-red-800',
+};
+
+const formatDay = (date: string): string => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'short' });
+};
+
+const SchedulePage: React.FC = () => {
+  const { user } = useAuth();
+  const { preferences } = usePreferences();
+  const today = toDateInputValue(new Date());
+  const [weekStart, setWeekStart] = useState(() => getWeekStartDate(today));
+  const [plannedSessions, setPlannedSessions] = useState<PlannedSession[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [venues, setVenues] = useState<TubeInventory[]>([]);
+  const [sessions, setSessions] = useState<SessionAnalytics[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedPlannedSession, setSelectedPlannedSession] = useState<PlannedSession | null>(null);
+  const [defaultDate, setDefaultDate] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (user) {
+      loadSchedule();
+    }
+  }, [user]);
+
+  const loadSchedule = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const [plannedData, playlistData, participantData, venueData, sessionData] = await Promise.all([
+        getUserPlannedSessions(user.uid),
+        getUserPlaylists(user.uid),
+        getUserParticipants(user.uid),
+        getUserTubeInventories(user.uid),
+        getSessionAnalytics(user.uid),
+      ]);
+      setPlannedSessions(plannedData);
+      setPlaylists(playlistData);
+      setParticipants(participantData);
+      setVenues(venueData);
+      setSessions(sessionData);
+    } catch (error) {
+      console.error('Error loading schedule:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadPlannedSessions = async () => {
+    if (!user) return;
+
+    const results = await getUserPlannedSessions(user.uid);
+    setPlannedSessions(results);
+  };
+
+  const handlePlanSession = (date?: string) => {
+    setSelectedPlannedSession(null);
+    setDefaultDate(date);
+    setIsModalOpen(true);
+  };
+
+  const handleEditPlannedSession = (plannedSession: PlannedSession) => {
+    setSelectedPlannedSession(plannedSession);
+    setIsModalOpen(true);
+  };
+
+  const handleDeletePlannedSession = async (plannedSession: PlannedSession) => {
+    const message = plannedSession.recurrence === 'none'
+      ? 'Delete this planned session?'
+      : 'Delete this recurring session? All future dates will be removed.';
+    if (!confirm(message)) return;
+
+    try {
+      await deletePlannedSession(plannedSession.id);
+      setPlannedSessions(prev => prev.filter(p => p.id !== plannedSession.id));
+    } catch (error) {
+      console.error('Error deleting planned session:', error);
+    }
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedPlannedSession(null);
+    setDefaultDate(undefined);
+  };
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const occurrences = getOccurrences(plannedSessions, weekDays[0], weekDays[6]);
+  const playlistTitles = new Map(playlists.map(playlist => [playlist.id, playlist.title]));
+  const participantNames = new Map(participants.map(participant => [participant.id, participant.displayName]));
+  const venueNames = new Map(venues.map(venue => [venue.id, venue.name]));
+  const launchSettings = getSessionLaunchSettings(preferences);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Schedule</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Plan the week ahead and see which sessions were delivered
+          </p>
+        </div>
+
+        <button
+          onClick={() => handlePlanSession()}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Plan Session
+        </button>
+      </div>
+
+      {/* Week Navigation */}
+      <div className="flex items-center justify-between bg-white rounded-lg shadow-sm border border-gray-200 px-4 py-3">
+        <button
+          onClick={() => setWeekStart(addDays(weekStart, -7))}
+          className="p-2 text-gray-500 hover:text-gray-700 rounded-md hover:bg-gray-100"
+          aria-label="Previous week"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium text-gray-900">
+            Week of {new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' })}
+          </span>
+          {weekStart !== getWeekStartDate(today) && (
+            <button
+              onClick={() => setWeekStart(getWeekStartDate(today))}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Today
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setWeekStart(addDays(weekStart, 7))}
+          className="p-2 text-gray-500 hover:text-gray-700 rounded-md hover:bg-gray-100"
+          aria-label="Next week"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Week Agenda */}
+      {isLoading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {weekDays.map(day => {
+            const dayOccurrences = occurrences.filter(occurrence => occurrence.date === day);
+
+            return (
+              <div key={day} className={`p-4 ${day === today ? 'bg-blue-50' : ''}`}>
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className={`text-sm font-semibold ${day === today ? 'text-blue-700' : 'text-gray-900'}`}>
+                    {formatDay(day)}{day === today ? ' · Today' : ''}
+                  </h2>
+                  <button
+                    onClick={() => handlePlanSession(day)}
+                    className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    + Plan
+                  </button>
+                </div>
+
+                {dayOccurrences.length === 0 ? (
+                  <p className="text-sm text-gray-400">Nothing planned</p>
+                ) : (
+                  <div className="space-y-2">
+                    {dayOccurrences.map(occurrence => {
+                      const { plannedSession } = occurrence;
+                      const status = getOccurrenceStatus(occurrence, sessions, today);
+                      const names = plannedSession.participantIds
+                        .map(id => participantNames.get(id))
+                        .filter((name): name is string => !!name);
+
+                      return (
+                        <div
+                          key={`${plannedSession.id}_${occurrence.date}`}
+                          className="flex flex-wrap items-center justify-between gap-3 bg-white border border-gray-200 rounded-lg p-3"
+                        >
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium text-gray-900">{plannedSession.time}</span>
+                              <span className="text-sm text-gray-900 truncate">
+                                {playlistTitles.get(plannedSession.playlistId) || 'Deleted playlist'}
+                              </span>
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[status]}`}>
+                                {statusLabels[status]}
+                              </span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {plannedSession.durationMinutes} min · {getRecurrenceLabel(plannedSession)}
+                              {plannedSession.venueId && venueNames.has(plannedSession.venueId)
+                                ? ` · ${venueNames.get(plannedSession.venueId)}`
+                                : ''}
+                            </p>
+                            {names.length > 0 && (
+                              <p className="text-xs text-gray-600 mt-1">{names.join(', ')}</p>
+                            )}
+                            {plannedSession.notes && (
+                              <p className="text-xs text-gray-500 mt-1 italic">{plannedSession.notes}</p>
+                            )}
+                          </div>
+
+                          <div className="flex items-center gap-2">
+                            {status !== 'delivered' && playlistTitles.has(plannedSession.playlistId) && (
+                              <Link
+                                href={getOccurrenceLaunchUrl(occurrence, launchSettings)}
+                                className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                              >
+                                <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 24 24">
+                                  <path d="M8 5v14l11-7z"/>
+                                </svg>
+                                Start
+                              </Link>
+                            )}
+                            <button
+                              onClick={() => handleEditPlannedSession(plannedSession)}
+                              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100"
+                              aria-label="Edit planned session"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </button>
+                            <button
+                              onClick={() => handleDeletePlannedSession(plannedSession)}
+                              className="p-1.5 text-gray-400 hover:text-red-600 rounded-md hover:bg-red-50"
+                              aria-label="Delete planned session"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <PlannedSessionModal
+        isOpen={isModalOpen}
+        plannedSession={selectedPlannedSession}
+        defaultDate={defaultDate}
+        playlists={playlists}
+        participants={participants}
+        venues={venues}
+        onClose={handleCloseModal}
+        onSuccess={loadPlannedSessions}
+      />
+    </div>
+  );
+};
+
+export default SchedulePage;
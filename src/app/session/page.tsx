@@ -3,41 +3,135 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import YouTube, { YouTubeProps } from 'react-youtube';
-import { getPlaylist, getVideo } from '@/lib/firestore';
-import { Playlist, Video, SessionSettings } from '@/types';
-import { SessionTracker } from '@/lib/analytics';
+import { getPlaylist, getVideo, setVideoAvailability } from '@/lib/firestore';
+import { Playlist, PlaylistEntry, PlaylistSection, Video, SessionSettings, PartialSessionAnalytics, SessionResumeState } from '@/types';
+import { SessionTracker, getResumableSession, discardPartialSession } from '@/lib/analytics';
+import { formatTimeOffset } from '@/lib/youtube';
+import { UNPLAYABLE_PLAYER_ERRORS } from '@/lib/videoHealth';
+import { groupEntriesBySection, getSectionStartingAt } from '@/lib/playlistSections';
+import {
+  RemoteCommand,
+  RemoteTransport,
+  createPairingCode,
+  createRemoteTransport,
+  getRemoteControlUrl,
+  parseRemoteTransportKind,
+} from '@/lib/remoteControl';
+import SessionStepView from '@/components/session/SessionStepView';
+import SwitchScanPanel from '@/components/session/SwitchScanPanel';
+import ColourNoteOverlay from '@/components/session/ColourNoteOverlay';
+import { getColourScheme, getTubeSet } from '@/lib/boomwhackers';
+import { SwitchScanChoice, getSwitchKeys } from '@/lib/switchAccess';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 
-const SessionPlayerPage: React.FC = () => {
+interface SessionItem {
+  entry: PlaylistEntry;
+  video?: Video; // unset for non-video steps, which use entry.step
+}
+
+// Practice speeds offered by the player, slowest first
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+// Low-sensory mode: how long volume takes to fade in or out, and how much of the
+// end of a full video is covered so YouTube's end cards never show
+const LOW_SENSORY_FADE_SECONDS = 3;
+const END_SCREEN_MASK_SECONDS = 10;
+// Unstarted, ended, paused and cued all show YouTube suggestions or title cards
+const MASKED_PLAYER_STATES = [-1, 0, 2, 5];
+
+interface ResumeOffer {
+  session: PartialSessionAnalytics;
+  items: SessionItem[]; // in the interrupted session's order
+  index: number;
+  freshItems: SessionItem[]; // playlist order, for starting over
+  sections?: PlaylistSection[];
+}
+
+// Rebuild the interrupted play order; entries added since go last. Null when the current entry is gone.
+const orderItemsForResume = (
+  itemData: SessionItem[],
+  resume: SessionResumeState
+): { items: SessionItem[]; index: number } | null => {
+  const itemsById = new Map(itemData.map(item => [item.entry.id, item]));
+  const resumedItems = resume.entryOrder
+    .map(entryId => itemsById.get(entryId))
+    .filter((item): item is SessionItem => !!item);
+  const newItems = itemData.filter(item => !resume.entryOrder.includes(item.entry.id));
+  const items = [...resumedItems, ...newItems];
+
+  const index = items.findIndex(item => item.entry.id === resume.entryOrder[resume.index]);
+  return index === -1 ? null : { items, index };
+};
+
+// Missing params use the saved default; anything else is read as a boolean
+const parseFlagParam = (value: string | null, fallback: boolean): boolean => {
+  return value === null ? fallback : value === 'true';
+};
+
+const SessionPlayer: React.FC = () => {
   const searchParams = useSearchParams();
   const router = useRouter();
   const { user } = useAuth();
+  const { preferences } = usePreferences();
+  const defaults = preferences.session;
   const playerRef = useRef<any>(null);
   const sessionTrackerRef = useRef<SessionTracker | null>(null);
+  const trackedIndexRef = useRef<number | null>(null);
   
   const [playlist, setPlaylist] = useState<Playlist | null>(null);
-  const [videos, setVideos] = useState<Video[]>([]);
+  const [items, setItems] = useState<SessionItem[]>([]);
   const [currentVideoIndex, setCurrentVideoIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [currentPlayerState, setCurrentPlayerState] = useState(-1);
+  const [isNearEnd, setIsNearEnd] = useState(false);
+  const fadeInStartedAtRef = useRef<number | null>(null);
   const [showControls, setShowControls] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sectionBanner, setSectionBanner] = useState<PlaylistSection | null>(null);
+  const [isStepPaused, setIsStepPaused] = useState(false);
+  const [replayCount, setReplayCount] = useState(0); // remounts a step when it is played again
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [remoteCode, setRemoteCode] = useState<string | null>(null);
+  const remoteTransportRef = useRef<RemoteTransport | null>(null);
+  const remoteCommandHandlerRef = useRef<(command: RemoteCommand) => void>(() => {});
+  const keyboardHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  const [resumeOffer, setResumeOffer] = useState<ResumeOffer | null>(null);
+  const resumePositionRef = useRef<number | null>(null);
   
-  // Session settings from URL params
+  // Session settings from URL params, falling back to the user's saved defaults
   const [settings] = useState({
     playlistId: searchParams.get('playlistId') || '',
-    autoplay: searchParams.get('autoplay') !== 'false', // Default to true unless explicitly disabled
-    shuffle: searchParams.get('shuffle') === 'true',
-    loop: searchParams.get('loop') === 'true',
-    fullscreen: searchParams.get('fullscreen') !== 'false', // Default to true unless explicitly disabled
-    volume: parseFloat(searchParams.get('volume') || '0.8'),
+    autoplay: parseFlagParam(searchParams.get('autoplay'), defaults.autoplay),
+    shuffle: parseFlagParam(searchParams.get('shuffle'), defaults.shuffle),
+    loop: parseFlagParam(searchParams.get('loop'), defaults.loop),
+    fullscreen: parseFlagParam(searchParams.get('fullscreen'), defaults.fullscreen),
+    volume: parseFloat(searchParams.get('volume') || defaults.volume.toString()),
+    remoteTransport: parseRemoteTransportKind(searchParams.get('transport')),
+    colourScheme: getColourScheme(searchParams.get('colourScheme') || defaults.colourScheme),
+    lowSensory: parseFlagParam(searchParams.get('lowSensory'), preferences.accessibility.lowSensory),
+    scanning: parseFlagParam(searchParams.get('scanning'), preferences.switchAccess.enabled),
+    participantIds: (searchParams.get('participants') || '').split(',').filter(Boolean),
+    plannedSessionId: searchParams.get('plannedSessionId') || '',
+    plannedDate: searchParams.get('plannedDate') || '',
   });
+  const { switchAccess } = preferences;
+  const switchKeys = settings.scanning
+    ? getSwitchKeys(switchAccess.mode, switchAccess.selectKey, switchAccess.stepKey)
+    : [];
+  const [showColourNotes, setShowColourNotes] = useState(parseFlagParam(searchParams.get('colourNotes'), defaults.colourNotes));
+  const [volume, setVolume] = useState(Math.round(settings.volume * 100));
 
   // Create session settings object for analytics
   const sessionSettings: SessionSettings = {
     autoplay: settings.autoplay,
     fullscreen: settings.fullscreen,
     volume: settings.volume,
+    lowSensory: settings.lowSensory,
+    switchScanning: settings.scanning,
   };
 
   const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -60,7 +154,7 @@ const SessionPlayerPage: React.FC = () => {
 
   // Auto-enter fullscreen if enabled
   useEffect(() => {
-    if (settings.fullscreen && !isLoading && !error && videos.length > 0) {
+    if (settings.fullscreen && !isLoading && !error && items.length > 0) {
       const timer = setTimeout(() => {
         if (!document.fullscreenElement) {
           document.documentElement.requestFullscreen().catch(console.error);
@@ -69,7 +163,129 @@ const SessionPlayerPage: React.FC = () => {
 
       return () => clearTimeout(timer);
     }
-  }, [settings.fullscreen, isLoading, error, videos.length]);
+  }, [settings.fullscreen, isLoading, error, items.length]);
+
+  // Steps replace the YouTube player, so drop the stale player and reset the step countdown
+  useEffect(() => {
+    if (items[currentVideoIndex] && !items[currentVideoIndex].video) {
+      playerRef.current = null;
+      setIsPlaying(true); // lets the controls auto-hide while the step runs
+    }
+    setIsStepPaused(false);
+    setCurrentPlayerState(-1);
+    setIsNearEnd(false);
+
+    // Practice settings belong to one song
+    playerRef.current?.setPlaybackRate(1);
+    setPlaybackRate(1);
+    setLoopStart(null);
+    setLoopEnd(null);
+  }, [currentVideoIndex, items]);
+
+  // Jump back to A whenever playback passes B
+  useEffect(() => {
+    if (loopStart === null || loopEnd === null) return;
+
+    const interval = setInterval(() => {
+      const player = playerRef.current;
+      if (player?.getPlayerState() === 1 && player.getCurrentTime() >= loopEnd) {
+        player.seekTo(loopStart, true);
+        sessionTrackerRef.current?.recordLoopRepeat();
+      }
+    }, 200);
+    return () => clearInterval(interval);
+  }, [loopStart, loopEnd]);
+
+  // Low-sensory mode: fade volume in after each start and out before the end, and
+  // spot when a full video reaches the stretch where YouTube shows end cards
+  useEffect(() => {
+    if (!settings.lowSensory || !items[currentVideoIndex]?.video) return;
+
+    const entry = items[currentVideoIndex].entry;
+    const interval = setInterval(() => {
+      const player = playerRef.current;
+      if (!player || player.getPlayerState() !== 1) return;
+
+      const remaining = (entry.endSeconds ?? player.getDuration()) - player.getCurrentTime();
+      const fadeIn = fadeInStartedAtRef.current === null
+        ? 1
+        : (Date.now() - fadeInStartedAtRef.current) / (LOW_SENSORY_FADE_SECONDS * 1000);
+      const fadeOut = remaining / LOW_SENSORY_FADE_SECONDS;
+      const level = Math.min(Math.max(Math.min(fadeIn, fadeOut), 0), 1);
+      player.setVolume(Math.round(volume * level));
+
+      // Clips stop before any end cards appear
+      setIsNearEnd(entry.endSeconds === undefined && remaining <= END_SCREEN_MASK_SECONDS);
+    }, 200);
+    return () => clearInterval(interval);
+  }, [settings.lowSensory, currentVideoIndex, items, volume]);
+
+  // Open a remote-control channel once there is something to play
+  const hasItems = items.length > 0;
+  const userId = user?.uid;
+  useEffect(() => {
+    if (!hasItems || !userId) return;
+
+    const code = createPairingCode();
+    const transport = createRemoteTransport(settings.remoteTransport, code, userId);
+    remoteTransportRef.current = transport;
+    setRemoteCode(code);
+    transport.onCommand(command => remoteCommandHandlerRef.current(command));
+
+    return () => {
+      transport.end();
+      transport.close();
+      remoteTransportRef.current = null;
+      setRemoteCode(null);
+    };
+  }, [hasItems, userId, settings.remoteTransport]);
+
+  // Keep the remote's view of the session current
+  useEffect(() => {
+    if (remoteCode) publishRemoteState();
+  }, [remoteCode, items, currentVideoIndex, isPlaying, volume, playlist?.title]);
+
+  // Remember where playback is so a crashed or closed tab can pick up here
+  useEffect(() => {
+    if (items.length === 0) return;
+
+    const saveResumeState = (positionSeconds: number) => {
+      sessionTrackerRef.current?.setResumeState({
+        entryOrder: items.map(item => item.entry.id),
+        index: currentVideoIndex,
+        positionSeconds: Math.floor(positionSeconds),
+      });
+    };
+    const saveCurrentPosition = () => {
+      saveResumeState(playerRef.current?.getCurrentTime?.() ?? resumePositionRef.current ?? 0);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveCurrentPosition();
+        sessionTrackerRef.current?.savePartialSession();
+      }
+    };
+
+    // The player may still hold the previous video here, so don't read its time yet
+    saveResumeState(resumePositionRef.current ?? 0);
+    const interval = setInterval(saveCurrentPosition, 5000);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [currentVideoIndex, items]);
+
+  // Announce each new section as its first video comes up
+  useEffect(() => {
+    const section = getSectionStartingAt(items.map(item => item.entry), currentVideoIndex, playlist?.sections);
+    setSectionBanner(section);
+    if (!section) return;
+
+    const timer = setTimeout(() => setSectionBanner(null), 4000);
+    return () => clearTimeout(timer);
+  }, [currentVideoIndex, items, playlist?.sections]);
 
   useEffect(() => {
     // Auto-hide controls after 3 seconds of inactivity
@@ -88,7 +304,7 @@ const SessionPlayerPage: React.FC = () => {
     const handleMouseMove = () => resetControlsTimeout();
     const handleKeyPress = (e: KeyboardEvent) => {
       resetControlsTimeout();
-      handleKeyboardControls(e);
+      keyboardHandlerRef.current(e);
     };
 
     document.addEventListener('mousemove', handleMouseMove);
@@ -114,41 +330,47 @@ const SessionPlayerPage: React.FC = () => {
 
       setPlaylist(playlistData);
 
-      // Load all videos
-      const videoData: Video[] = [];
-      for (const videoId of playlistData.videoRefs) {
+      // Load all videos, keeping each entry's clip settings alongside its video
+      const itemData: SessionItem[] = [];
+      for (const entry of playlistData.entries) {
+        if (entry.step) {
+          itemData.push({ entry });
+          continue;
+        }
+        if (!entry.videoId) continue;
+
         try {
-          const video = await getVideo(videoId);
+          const video = await getVideo(entry.videoId);
           if (video) {
-            videoData.push(video);
+            itemData.push({ entry, video });
           }
         } catch (videoError) {
-          console.error(`Error loading video ${videoId}:`, videoError);
+          console.error(`Error loading video ${entry.videoId}:`, videoError);
         }
       }
 
-      if (videoData.length === 0) {
-        setError('No videos found in playlist');
+      if (itemData.length === 0) {
+        setError('Nothing to play in this playlist');
         return;
       }
 
-      // Shuffle if enabled
-      let orderedVideos = [...videoData];
-      if (settings.shuffle) {
-        orderedVideos = shuffleArray(orderedVideos);
-      }
-
-      setVideos(orderedVideos);
-
-      // Initialize session tracking
+      // Offer to pick up an interrupted session before starting a new one
       if (user && user.uid) {
-        sessionTrackerRef.current = new SessionTracker(
-          user.uid,
-          settings.playlistId,
-          sessionSettings
-        );
-        console.log('Session tracking initialized');
+        const resumable = await getResumableSession(user.uid, settings.playlistId);
+        const resumed = resumable?.resume && orderItemsForResume(itemData, resumable.resume);
+        if (resumable && resumed) {
+          setResumeOffer({
+            session: resumable,
+            items: resumed.items,
+            index: resumed.index,
+            freshItems: itemData,
+            sections: playlistData.sections,
+          });
+          return;
+        }
       }
+
+      startSession(itemData, playlistData.sections);
     } catch (err) {
       console.error('Error loading playlist:', err);
       setError('Failed to load playlist');
@@ -157,7 +379,84 @@ const SessionPlayerPage: React.FC = () => {
     }
   };
 
-  const shuffleArray = (array: Video[]): Video[] => {
+  const startSession = (itemData: SessionItem[], sections?: PlaylistSection[]) => {
+    // Shuffle if enabled, keeping sections in order and shuffling within each one
+    let orderedItems = [...itemData];
+    if (settings.shuffle) {
+      orderedItems = groupEntriesBySection(itemData.map(item => item.entry), sections)
+        .flatMap(group => shuffleArray(itemData.filter(item => group.entries.includes(item.entry))));
+    }
+
+    setItems(orderedItems);
+
+    // Initialize session tracking
+    if (user && user.uid) {
+      sessionTrackerRef.current = new SessionTracker(
+        user.uid,
+        settings.playlistId,
+        sessionSettings
+      );
+      sessionTrackerRef.current.setParticipants(settings.participantIds);
+      if (settings.plannedSessionId && settings.plannedDate) {
+        sessionTrackerRef.current.setPlannedSession(settings.plannedSessionId, settings.plannedDate);
+      }
+      console.log('Session tracking initialized');
+      
+      // Videos start tracking once the player is ready; a leading step starts now
+      if (!orderedItems[0]?.video) {
+        startTracking(0, orderedItems[0]);
+      }
+    }
+  };
+
+  const handleResume = () => {
+    if (!resumeOffer || !user) return;
+
+    const { session, items: resumedItems, index } = resumeOffer;
+    const resumedItem = resumedItems[index];
+    // Steps restart from the top; videos seek back once the player is ready
+    resumePositionRef.current = resumedItem.video ? session.resume?.positionSeconds || null : null;
+
+    setItems(resumedItems);
+    setCurrentVideoIndex(index);
+    setResumeOffer(null);
+
+    // Keep adding to the interrupted session record
+    sessionTrackerRef.current = new SessionTracker(user.uid, settings.playlistId, sessionSettings, session);
+    if (!resumedItem.video) {
+      startTracking(index, resumedItem);
+    }
+  };
+
+  const handleStartOver = () => {
+    if (!resumeOffer || !user) return;
+
+    discardPartialSession(user.uid, settings.playlistId, resumeOffer.session.id);
+    setResumeOffer(null);
+    startSession(resumeOffer.freshItems, resumeOffer.sections);
+  };
+
+  // Start analytics for the item at `index`, once per visit
+  const startTracking = (index: number, item: SessionItem | undefined) => {
+    if (!sessionTrackerRef.current || !item || trackedIndexRef.current === index) return;
+
+    trackedIndexRef.current = index;
+    if (item.video) {
+      sessionTrackerRef.current.startVideo(item.video.videoId);
+    } else if (item.entry.step) {
+      sessionTrackerRef.current.startStep(item.entry.id, item.entry.step);
+    }
+  };
+
+  const endTracking = () => {
+    if (sessionTrackerRef.current) {
+      sessionTrackerRef.current.endVideo();
+      sessionTrackerRef.current.endStep();
+    }
+    trackedIndexRef.current = null;
+  };
+
+  const shuffleArray = (array: SessionItem[]): SessionItem[] => {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
       const j = Math.floor(Math.random() * (i + 1));
@@ -167,6 +466,9 @@ const SessionPlayerPage: React.FC = () => {
   };
 
   const handleKeyboardControls = (e: KeyboardEvent) => {
+    // The scanning panel handles switch presses itself
+    if (switchKeys.includes(e.code)) return;
+
     switch (e.code) {
       case 'Space':
         e.preventDefault();
@@ -188,10 +490,44 @@ const SessionPlayerPage: React.FC = () => {
         e.preventDefault();
         toggleFullscreen();
         break;
+      case 'KeyC':
+        e.preventDefault();
+        setShowColourNotes(prev => !prev);
+        break;
+      case 'Minus':
+        e.preventDefault();
+        stepPlaybackRate(-1);
+        break;
+      case 'Equal':
+        e.preventDefault();
+        stepPlaybackRate(1);
+        break;
+      case 'KeyA':
+        e.preventDefault();
+        markLoopPoint('start');
+        break;
+      case 'KeyB':
+        e.preventDefault();
+        markLoopPoint('end');
+        break;
+      case 'KeyX':
+        e.preventDefault();
+        clearLoop();
+        break;
     }
   };
 
+  // The keydown listener is only rebound when isPlaying changes, so it reads the latest handler from a ref
+  keyboardHandlerRef.current = handleKeyboardControls;
+
   const togglePlayPause = () => {
+    // Steps have no player; Space pauses their countdown instead
+    if (!items[currentVideoIndex]?.video) {
+      setIsStepPaused(prev => !prev);
+      setIsPlaying(prev => !prev);
+      return;
+    }
+    
     if (playerRef.current) {
       const playerState = playerRef.current.getPlayerState();
       if (playerState === 1) { // Playing
@@ -203,15 +539,12 @@ const SessionPlayerPage: React.FC = () => {
   };
 
   const nextVideo = () => {
-    if (videos.length === 0) return;
+    if (items.length === 0) return;
     
-    // End current video tracking
-    if (sessionTrackerRef.current) {
-      sessionTrackerRef.current.endVideo();
-    }
+    endTracking();
     
     let nextIndex = currentVideoIndex + 1;
-    if (nextIndex >= videos.length) {
+    if (nextIndex >= items.length) {
       if (settings.loop) {
         nextIndex = 0;
       } else {
@@ -222,10 +555,8 @@ const SessionPlayerPage: React.FC = () => {
     }
     setCurrentVideoIndex(nextIndex);
     
-    // Start tracking next video
-    if (sessionTrackerRef.current && videos[nextIndex]) {
-      sessionTrackerRef.current.startVideo(videos[nextIndex].videoId);
-    }
+    // Start tracking next video or step
+    startTracking(nextIndex, items[nextIndex]);
     
     // Auto-start next video if autoplay is enabled
     if (settings.autoplay && playerRef.current) {
@@ -236,27 +567,22 @@ const SessionPlayerPage: React.FC = () => {
   };
 
   const previousVideo = () => {
-    if (videos.length === 0) return;
+    if (items.length === 0) return;
     
-    // End current video tracking
-    if (sessionTrackerRef.current) {
-      sessionTrackerRef.current.endVideo();
-    }
+    endTracking();
     
     let prevIndex = currentVideoIndex - 1;
     if (prevIndex < 0) {
       if (settings.loop) {
-        prevIndex = videos.length - 1;
+        prevIndex = items.length - 1;
       } else {
         prevIndex = 0;
       }
     }
     setCurrentVideoIndex(prevIndex);
     
-    // Start tracking previous video
-    if (sessionTrackerRef.current && videos[prevIndex]) {
-      sessionTrackerRef.current.startVideo(videos[prevIndex].videoId);
-    }
+    // Start tracking previous video or step
+    startTracking(prevIndex, items[prevIndex]);
     
     // Auto-start previous video if autoplay is enabled
     if (settings.autoplay && playerRef.current) {
@@ -266,6 +592,124 @@ const SessionPlayerPage: React.FC = () => {
     }
   };
 
+  const changePlaybackRate = (rate: number) => {
+    if (!playerRef.current || rate === playbackRate) return;
+
+    playerRef.current.setPlaybackRate(rate);
+    setPlaybackRate(rate);
+    sessionTrackerRef.current?.recordRateChange(rate, playerRef.current.getCurrentTime());
+  };
+
+  // Move one notch slower (-1) or faster (+1)
+  const stepPlaybackRate = (direction: 1 | -1) => {
+    const index = PLAYBACK_RATES.indexOf(playbackRate) + direction;
+    if (index >= 0 && index < PLAYBACK_RATES.length) {
+      changePlaybackRate(PLAYBACK_RATES[index]);
+    }
+  };
+
+  // Mark A or B at the current position; the loop starts once both are set
+  const markLoopPoint = (point: 'start' | 'end') => {
+    if (!playerRef.current) return;
+
+    const time = playerRef.current.getCurrentTime();
+    let start = point === 'start' ? time : loopStart;
+    let end = point === 'end' ? time : loopEnd;
+    if (start !== null && end !== null && end < start) {
+      [start, end] = [end, start];
+    }
+    if (start !== null && end !== null && end - start < 1) return; // too short to loop
+
+    setLoopStart(start);
+    setLoopEnd(end);
+    if (start !== null && end !== null) {
+      sessionTrackerRef.current?.recordLoop(start, end);
+    }
+  };
+
+  const clearLoop = () => {
+    setLoopStart(null);
+    setLoopEnd(null);
+  };
+
+  const changeVolume = (newVolume: number) => {
+    const clamped = Math.min(Math.max(Math.round(newVolume), 0), 100);
+    setVolume(clamped);
+    playerRef.current?.setVolume(clamped);
+  };
+
+  // Remote commands go through the same handlers as the on-screen controls so analytics match.
+  // Reassigned every render so the subscription never calls stale closures.
+  remoteCommandHandlerRef.current = (command: RemoteCommand) => {
+    switch (command.type) {
+      case 'toggle':
+        togglePlayPause();
+        break;
+      case 'next':
+        nextVideo();
+        break;
+      case 'previous':
+        previousVideo();
+        break;
+      case 'volume':
+        if (command.value !== undefined) changeVolume(command.value);
+        break;
+      case 'sync':
+        publishRemoteState();
+        break;
+    }
+  };
+
+  const publishRemoteState = () => {
+    const item = items[currentVideoIndex];
+    if (!item) return;
+
+    remoteTransportRef.current?.publishState({
+      playlistTitle: playlist?.title || '',
+      itemTitle: item.video?.title || item.entry.step?.title || '',
+      index: currentVideoIndex,
+      total: items.length,
+      isPlaying,
+      volume,
+      updatedAt: Date.now(),
+    });
+  };
+
+  // Play the current video or step again from its start
+  const restartCurrentItem = () => {
+    const item = items[currentVideoIndex];
+    if (!item) return;
+
+    if (!item.video) {
+      setReplayCount(prev => prev + 1);
+      setIsStepPaused(false);
+      return;
+    }
+
+    if (playerRef.current) {
+      playerRef.current.seekTo(item.entry.startSeconds ?? 0, true);
+      playerRef.current.playVideo();
+      sessionTrackerRef.current?.recordRewind();
+    }
+  };
+
+  const handleScanChoice = (choice: SwitchScanChoice) => {
+    switch (choice) {
+      case 'play':
+        togglePlayPause();
+        break;
+      case 'next':
+        nextVideo();
+        break;
+      case 'again':
+        restartCurrentItem();
+        break;
+      case 'stop':
+        handleExitSession('manual');
+        break;
+    }
+  };
+
   const toggleFullscreen = () => {
     if (document.fullscreenElement) {
       document.exitFullscreen();
@@ -276,9 +720,10 @@ const SessionPlayerPage: React.FC = () => {
 
   const handleExitSession = async (exitReason: 'completed' | 'manual' | 'error' = 'manual') => {
     // End session tracking
-    if (sessionTrackerRef.current) {
+    const tracker = sessionTrackerRef.current;
+    if (tracker) {
       try {
-        await sessionTrackerRef.current.endSession(exitReason);
+        await tracker.endSession(exitReason);
         console.log('Session analytics saved');
       } catch (error) {
         console.error('Error saving session analytics:', error);
@@ -288,18 +733,24 @@ const SessionPlayerPage: React.FC = () => {
     if (document.fullscreenElement) {
       document.exitFullscreen();
     }
-    router.push('/playlists');
+    // Tracked sessions go to the summary so the worker can note what they saw
+    router.push(tracker ? `/session/summary?sessionId=${tracker.getSessionId()}` : '/playlists');
   };
 
   const onPlayerReady: YouTubeProps['onReady'] = (event) => {
     playerRef.current = event.target;
-    event.target.setVolume(settings.volume * 100);
-    
-    // Start tracking the first video
-    if (sessionTrackerRef.current && currentVideo) {
-      sessionTrackerRef.current.startVideo(currentVideo.videoId);
+    // Low-sensory sessions start silent and fade in once playing
+    event.target.setVolume(settings.lowSensory ? 0 : volume);
+
+    // Pick up a resumed video where it was interrupted
+    if (resumePositionRef.current) {
+      event.target.seekTo(resumePositionRef.current, true);
+      resumePositionRef.current = null;
     }
     
+    // Start tracking the current video if it wasn't already (e.g. the first one)
+    startTracking(currentVideoIndex, currentItem);
+    
     // Auto-start playback with a slight delay to ensure player is ready
     if (settings.autoplay) {
       setTimeout(() => {
@@ -311,6 +762,13 @@ const SessionPlayerPage: React.FC = () => {
   const onPlayerStateChange: YouTubeProps['onStateChange'] = (event) => {
     const playerState = event.data;
     setIsPlaying(playerState === 1); // 1 = playing
+    setCurrentPlayerState(playerState);
+
+    // Every start or resume fades in, so unpausing is never sudden either
+    if (settings.lowSensory && playerState === 1 && currentPlayerState !== 1) {
+      fadeInStartedAtRef.current = Date.now();
+      event.target.setVolume(0);
+    }
     
     // Track video state changes
     if (sessionTrackerRef.current) {
@@ -322,10 +780,13 @@ const SessionPlayerPage: React.FC = () => {
       if (playerState === 1 && playerRef.current) { // playing
         const updateProgress = () => {
           if (playerRef.current && sessionTrackerRef.current) {
-            const currentTime = playerRef.current.getCurrentTime();
-            const duration = playerRef.current.getDuration();
+            // Measure progress within the clip window when the entry is trimmed
+            const clipStart = currentItem?.entry.startSeconds ?? 0;
+            const clipEnd = currentItem?.entry.endSeconds ?? playerRef.current.getDuration();
+            const currentTime = playerRef.current.getCurrentTime() - clipStart;
+            const duration = clipEnd - clipStart;
             if (duration > 0) {
-              const completionRate = Math.round((currentTime / duration) * 100);
+              const completionRate = Math.min(Math.round((currentTime / duration) * 100), 100);
               sessionTrackerRef.current.updateVideoProgress(completionRate);
             }
           }
@@ -342,7 +803,7 @@ const SessionPlayerPage: React.FC = () => {
       }
     }
     
-    if (playerState === 0) { // ended
+    if (playerState === 0) { // ended, including reaching a clip's end time
       // Auto-advance to next video with seamless transition
       setTimeout(() => {
         nextVideo();
@@ -353,6 +814,12 @@ const SessionPlayerPage: React.FC = () => {
   const onPlayerError: YouTubeProps['onError'] = (event) => {
     console.error('YouTube player error:', event.data);
     
+    // Mark dead videos so playlists warn about them before the next session
+    const failedVideo = items[currentVideoIndex]?.video;
+    if (failedVideo && UNPLAYABLE_PLAYER_ERRORS.includes(event.data)) {
+      setVideoAvailability(failedVideo.videoId, 'unavailable').catch(() => {});
+    }
+    
     // Track the error and skip
     if (sessionTrackerRef.current) {
       sessionTrackerRef.current.recordSkip();
@@ -361,7 +828,9 @@ const SessionPlayerPage: React.FC = () => {
     nextVideo(); // Skip to next video on error
   };
 
-  const currentVideo = videos[currentVideoIndex];
+  const currentItem = items[currentVideoIndex];
+  const currentVideo = currentItem?.video;
+  const tubeSet = getTubeSet(items.flatMap(item => item.video ? [item.video] : []));
 
   const youtubeOpts: YouTubeProps['opts'] = {
     height: '100%',
@@ -375,12 +844,14 @@ const SessionPlayerPage: React.FC = () => {
       rel: 0,
       showinfo: 0,
       iv_load_policy: 3,
+      start: currentItem?.entry.startSeconds,
+      end: currentItem?.entry.endSeconds,
     },
   };
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-black flex items-center justify-center">
+      <div className={`min-h-screen bg-black flex items-center justify-center ${settings.lowSensory ? 'low-sensory' : ''}`}>
         <div className="text-center text-white">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
           <p className="text-lg">Loading session...</p>
@@ -411,34 +882,133 @@ const SessionPlayerPage: React.FC = () => {
     );
   }
 
-  if (!currentVideo) {
+  if (resumeOffer) {
+    const resumedItem = resumeOffer.items[resumeOffer.index];
+    const positionSeconds = resumeOffer.session.resume?.positionSeconds || 0;
+
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-center text-white max-w-md">
+          <h1 className="text-2xl font-bold mb-2">Resume where you left off?</h1>
+          <p className="text-gray-300 mb-1">{playlist?.title} stopped unexpectedly.</p>
+          <p className="text-gray-300 mb-6">
+            You were on &ldquo;{resumedItem.video?.title || resumedItem.entry.step?.title}&rdquo;
+            {' '}({resumeOffer.index + 1} of {resumeOffer.items.length})
+            {resumedItem.video && positionSeconds > 0 && <> at {formatTimeOffset(positionSeconds)}</>}.
+          </p>
+          <div className="flex justify-center space-x-4">
+            <button
+              onClick={handleStartOver}
+              className="px-6 py-3 bg-white/10 text-white rounded-lg hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white"
+            >
+              Start Over
+            </button>
+            <button
+              onClick={handleResume}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Resume
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentItem) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
         <div className="text-center text-white">
-          <p className="text-lg">No video available</p>
+          <p className="text-lg">Nothing to play</p>
         </div>
       </div>
     );
   }
 
+  // Low-sensory and scanning sessions never show the controls; keyboard shortcuts and the remote still work
+  const controlsVisible = showControls && !settings.lowSensory && !settings.scanning;
+  const showCalmScreen = settings.lowSensory && !!currentVideo &&
+    (MASKED_PLAYER_STATES.includes(currentPlayerState) || isNearEnd);
+
   return (
-    <div className="min-h-screen bg-black relative overflow-hidden">
-      {/* YouTube Player */}
+    <div className={`min-h-screen bg-black relative overflow-hidden ${settings.lowSensory ? 'low-sensory' : ''}`}>
+      {/* YouTube Player, or a full-screen card for non-video steps */}
       <div className="absolute inset-0">
-        <YouTube
-          videoId={currentVideo.videoId}
-          opts={youtubeOpts}
-          onReady={onPlayerReady}
-          onStateChange={onPlayerStateChange}
-          onError={onPlayerError}
-          className="w-full h-full"
-        />
+        {currentVideo ? (
+          <YouTube
+            videoId={currentVideo.videoId}
+            opts={youtubeOpts}
+            onReady={onPlayerReady}
+            onStateChange={onPlayerStateChange}
+            onError={onPlayerError}
+            className="w-full h-full"
+          />
+        ) : currentItem.entry.step && (
+          <SessionStepView
+            key={`${currentItem.entry.id}-${currentVideoIndex}-${replayCount}`}
+            step={currentItem.entry.step}
+            isPaused={isStepPaused}
+            calm={settings.lowSensory}
+            onComplete={nextVideo}
+          />
+        )}
       </div>
 
+      {/* Calm screen covering YouTube's pause suggestions and end cards */}
+      {showCalmScreen && (
+        <div
+          className="absolute inset-0 bg-stone-800 flex items-center justify-center text-center"
+          onClick={togglePlayPause}
+        >
+          <p className="text-2xl font-light text-stone-300">
+            {isNearEnd || currentPlayerState === 0 ? 'Next song coming up' : 'Ready when you are'}
+          </p>
+          {remoteCode && (
+            <p className="absolute bottom-6 inset-x-0 text-sm text-stone-500">
+              Remote code <span className="font-mono tracking-widest">{remoteCode}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Section Banner */}
+      {sectionBanner && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-10 pointer-events-none">
+          <div className="px-8 py-4 bg-black/70 rounded-xl text-center text-white">
+            <p className="text-xs uppercase tracking-widest text-gray-300">Now starting</p>
+            <p className="text-3xl font-bold">{sectionBanner.name}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Colour Notes */}
+      {showColourNotes && currentVideo && (
+        <div className="absolute top-24 left-6 z-10 pointer-events-none">
+          <ColourNoteOverlay
+            notes={currentVideo.boomwhackerNotes || []}
+            tubeSet={tubeSet}
+            scheme={settings.colourScheme}
+          />
+        </div>
+      )}
+
+      {/* Switch Scanning */}
+      {settings.scanning && (
+        <SwitchScanPanel
+          mode={switchAccess.mode}
+          intervalSeconds={switchAccess.scanIntervalSeconds}
+          selectKey={switchAccess.selectKey}
+          stepKey={switchAccess.stepKey}
+          isPlaying={isPlaying}
+          calm={settings.lowSensory}
+          onSelect={handleScanChoice}
+        />
+      )}
+
       {/* Custom Controls Overlay */}
       <div 
         className={`absolute inset-0 transition-opacity duration-300 ${
-          showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'
+          controlsVisible ? 'opacity-100' : 'opacity-0 pointer-events-none'
         }`}
       >
         {/* Top Bar */}
@@ -446,7 +1016,7 @@ const SessionPlayerPage: React.FC = () => {
           <div className="flex items-center justify-between text-white">
             <div className="flex-1">
               <h1 className="text-xl font-semibold truncate">{playlist?.title}</h1>
-              <p className="text-sm text-gray-300 truncate">{currentVideo.title}</p>
+              <p className="text-sm text-gray-300 truncate">{currentVideo?.title || currentItem.entry.step?.title}</p>
             </div>
             <button
               onClick={() => handleExitSession('manual')}
@@ -503,10 +1073,56 @@ const SessionPlayerPage: React.FC = () => {
 
         {/* Bottom Bar */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent p-6">
+          {/* Practice Controls */}
+          {currentVideo && (
+            <div className="flex items-center justify-center space-x-6 mb-4 text-white text-sm">
+              <div className="flex items-center space-x-1" role="group" aria-label="Playback speed">
+                {PLAYBACK_RATES.map(rate => (
+                  <button
+                    key={rate}
+                    onClick={() => changePlaybackRate(rate)}
+                    className={`px-2 py-1 rounded transition-colors ${
+                      playbackRate === rate ? 'bg-white text-black' : 'bg-black/50 hover:bg-white/20'
+                    }`}
+                    aria-pressed={playbackRate === rate}
+                  >
+                    {rate}x
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center space-x-1" role="group" aria-label="A-B loop">
+                <button
+                  onClick={() => markLoopPoint('start')}
+                  className={`px-2 py-1 rounded transition-colors ${loopStart !== null ? 'bg-amber-500' : 'bg-black/50 hover:bg-white/20'}`}
+                >
+                  A{loopStart !== null && ` ${formatTimeOffset(Math.floor(loopStart))}`}
+                </button>
+                <button
+                  onClick={() => markLoopPoint('end')}
+                  className={`px-2 py-1 rounded transition-colors ${loopEnd !== null ? 'bg-amber-500' : 'bg-black/50 hover:bg-white/20'}`}
+                >
+                  B{loopEnd !== null && ` ${formatTimeOffset(Math.floor(loopEnd))}`}
+                </button>
+                {(loopStart !== null || loopEnd !== null) && (
+                  <button
+                    onClick={clearLoop}
+                    className="px-2 py-1 rounded bg-black/50 hover:bg-white/20"
+                    aria-label="Clear loop"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="flex items-center justify-between text-white">
             <div className="flex items-center space-x-4">
               <span className="text-sm">
-                {currentVideoIndex + 1} of {videos.length}
+                {currentVideoIndex + 1} of {items.length}
               </span>
               <div className="flex items-center space-x-2">
                 {settings.shuffle && (
@@ -517,8 +1133,39 @@ const SessionPlayerPage: React.FC = () => {
                 )}
               </div>
             </div>
+
+            {remoteCode && (
+              <div className="text-center text-sm">
+                <span className="text-gray-300">Remote: open </span>
+                <a
+                  href={getRemoteControlUrl(remoteCode, settings.remoteTransport)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline hover:text-gray-200"
+                >
+                  {getRemoteControlUrl(remoteCode, settings.remoteTransport)}
+                </a>
+                {/* Same-computer remotes only pair through the link, which names the transport */}
+                {settings.remoteTransport === 'firestore' && (
+                  <>
+                    <span className="text-gray-300"> or enter </span>
+                    <span className="font-mono font-semibold tracking-widest">{remoteCode}</span>
+                  </>
+                )}
+              </div>
+            )}
             
             <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setShowColourNotes(prev => !prev)}
+                className={`p-2 rounded-lg transition-colors ${showColourNotes ? 'bg-white/20' : 'hover:bg-white/20'}`}
+                aria-label="Toggle colour notes"
+                aria-pressed={showColourNotes}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+                </svg>
+              </button>
               <button
                 onClick={toggleFullscreen}
                 className="p-2 hover:bg-white/20 rounded-lg transition-colors"
@@ -538,6 +1185,9 @@ const SessionPlayerPage: React.FC = () => {
             <div>Space: Play/Pause</div>
             <div>← →: Previous/Next</div>
             <div>F: Fullscreen</div>
+            <div>C: Colour notes</div>
+            <div>- =: Slower/Faster</div>
+            <div>A B: Loop points, X: Clear loop</div>
             <div>Esc: Exit Session</div>
           </div>
         </div>
@@ -546,4 +1196,22 @@ const SessionPlayerPage: React.FC = () => {
   );
 };
 
+// The player reads its settings once on mount, so hold it back until the saved defaults are in
+const SessionPlayerPage: React.FC = () => {
+  const { loading } = usePreferences();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-center text-white">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+          <p className="text-lg">Loading session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <SessionPlayer />;
+};
+
 export default SessionPlayerPage;
\ No newline at end of file
@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  RemoteCommandType,
+  RemoteSessionState,
+  RemoteTransport,
+  createRemoteTransport,
+  isValidPairingCode,
+  normalizePairingCode,
+  parseRemoteTransportKind,
+} from '@/lib/remoteControl';
+
+const VOLUME_STEP = 10;
+
+const SessionRemotePage: React.FC = () => {
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
+  const transportRef = useRef<RemoteTransport | null>(null);
+  const transportKind = parseRemoteTransportKind(searchParams.get('transport'));
+
+  const [codeInput, setCodeInput] = useState(normalizePairingCode(searchParams.get('code') || ''));
+  const [code, setCode] = useState<string | null>(null);
+  const [state, setState] = useState<RemoteSessionState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Join straight away when the link already carries a code
+  useEffect(() => {
+    if (isValidPairingCode(codeInput)) {
+      setCode(codeInput);
+    }
+  }, []);
+
+  const userId = user?.uid;
+  useEffect(() => {
+    if (!code || !userId) return;
+
+    setError(null);
+    const transport = createRemoteTransport(transportKind, code, userId);
+    transportRef.current = transport;
+
+    let hasConnected = false;
+    transport.onState((newState) => {
+      setState(newState);
+      if (newState) {
+        hasConnected = true;
+      } else {
+        setError(hasConnected ? 'The session has ended.' : 'No session found for this code.');
+        setCode(null);
+      }
+    });
+    // Same-window transports keep no state of their own, so ask the presenter for it
+    transport.sendCommand('sync').catch(() => {});
+
+    return () => {
+      transport.close();
+      transportRef.current = null;
+    };
+  }, [code, userId, transportKind]);
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPairingCode(codeInput)) {
+      setError('Enter the 6-character code shown on the session screen.');
+      return;
+    }
+    setState(null);
+    setCode(codeInput);
+  };
+
+  const handleDisconnect = () => {
+    setCode(null);
+    setState(null);
+    setError(null);
+  };
+
+  const send = async (type: RemoteCommandType, value?: number) => {
+    if (!transportRef.current) return;
+    try {
+      await transportRef.current.sendCommand(type, value);
+    } catch (error) {
+      setError('Could not reach the session. Check the code and try again.');
+    }
+  };
+
+  const changeVolume = (delta: number) => {
+    if (!state) return;
+    send('volume', Math.min(Math.max(state.volume + delta, 0), 100));
+  };
+
+  if (!code) {
+    return (
+      <div className="max-w-sm mx-auto py-8">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h1 className="text-xl font-semibold text-gray-900">Session Remote</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Enter the code shown at the bottom of the session screen to control it from this device.
+          </p>
+          <form onSubmit={handleConnect} className="mt-4 space-y-4">
+            <input
+              type="text"
+              value={codeInput}
+              onChange={(e) => setCodeInput(normalizePairingCode(e.target.value))}
+              autoCapitalize="characters"
+              autoComplete="off"
+              className="w-full px-3 py-3 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-center text-2xl font-mono tracking-widest text-gray-900 placeholder-gray-400"
+              placeholder="ABC123"
+              aria-label="Pairing code"
+            />
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+            <button
+              type="submit"
+              className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              disabled={!codeInput}
+            >
+              Connect
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  if (!state) {
+    return (
+      <div className="py-16 text-center">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Connecting to {code}...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-sm mx-auto py-6 space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6 text-center">
+        <p className="text-xs uppercase tracking-widest text-gray-500">{state.playlistTitle}</p>
+        <h1 className="mt-2 text-xl font-semibold text-gray-900">{state.itemTitle}</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          {state.index + 1} of {state.total}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-center space-x-6">
+        <button
+          onClick={() => send('previous')}
+          className="p-5 bg-white shadow-md rounded-full text-gray-700 hover:bg-gray-50 active:bg-gray-100"
+          aria-label="Previous"
+        >
+          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+
+        <button
+          onClick={() => send('toggle')}
+          className="p-7 bg-blue-600 shadow-md rounded-full text-white hover:bg-blue-700 active:bg-blue-800"
+          aria-label={state.isPlaying ? 'Pause' : 'Play'}
+        >
+          {state.isPlaying ? (
+            <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />
+            </svg>
+          ) : (
+            <svg className="w-12 h-12" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z"/>
+            </svg>
+          )}
+        </button>
+
+        <button
+          onClick={() => send('next')}
+          className="p-5 bg-white shadow-md rounded-full text-gray-700 hover:bg-gray-50 active:bg-gray-100"
+          aria-label="Next"
+        >
+          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => changeVolume(-VOLUME_STEP)}
+            className="p-3 rounded-md text-gray-700 hover:bg-gray-100"
+            aria-label="Volume down"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+            </svg>
+          </button>
+          <div className="flex-1 mx-4">
+            <p className="text-center text-sm text-gray-600 mb-1">Volume {state.volume}%</p>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600" style={{ width: `${state.volume}%` }}></div>
+            </div>
+          </div>
+          <button
+            onClick={() => changeVolume(VOLUME_STEP)}
+            className="p-3 rounded-md text-gray-700 hover:bg-gray-100"
+            aria-label="Volume up"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-center text-red-600">{error}</p>
+      )}
+
+      <div className="text-center">
+        <button
+          onClick={handleDisconnect}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Disconnect from {code}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRemotePage;
@@ -0,0 +1,317 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { ENGAGEMENT_LEVELS, getSessionRecord, saveSessionReview } from '@/lib/analytics';
+import { getVideo } from '@/lib/firestore';
+import { getParticipant } from '@/lib/participants';
+import { GoalProgress, Participant, SessionAnalytics, Video } from '@/types';
+
+const NOTES_MAX_LENGTH = 2000;
+
+interface PlayedVideoSummary {
+  videoId: string;
+  video: Video | null;
+  plays: number;
+  skipped: boolean;
+  rewound: boolean;
+  completionRate: number; // best completion across plays
+}
+
+const getGoalKey = (participantId: string, goalId: string) => `${participantId}:${goalId}`;
+
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+const SessionSummaryPage: React.FC = () => {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const sessionId = searchParams.get('sessionId') || '';
+  const [session, setSession] = useState<SessionAnalytics | null>(null);
+  const [playedVideos, setPlayedVideos] = useState<PlayedVideoSummary[]>([]);
+  const [notes, setNotes] = useState('');
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [goalValues, setGoalValues] = useState<Record<string, string>>({}); // goal key -> input text
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (sessionId) {
+      loadSummary();
+    } else {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  const loadSummary = async () => {
+    setIsLoading(true);
+    try {
+      const sessionData = await getSessionRecord(sessionId);
+      if (!sessionData) return;
+
+      // One row per video, in the order it first played
+      const summaries = new Map<string, PlayedVideoSummary>();
+      sessionData.videosPlayed.forEach(playback => {
+        const summary = summaries.get(playback.videoId);
+        if (summary) {
+          summary.plays += 1;
+          summary.skipped = summary.skipped || playback.skipped;
+          summary.rewound = summary.rewound || playback.rewound;
+          summary.completionRate = Math.max(summary.completionRate, playback.completionRate);
+        } else {
+          summaries.set(playback.videoId, {
+            videoId: playback.videoId,
+            video: null,
+            plays: 1,
+            skipped: playback.skipped,
+            rewound: playback.rewound,
+            completionRate: playback.completionRate,
+          });
+        }
+      });
+
+      const [videos, attendees] = await Promise.all([
+        Promise.all(Array.from(summaries.keys()).map(videoId => getVideo(videoId))),
+        Promise.all((sessionData.participantIds || []).map(participantId => getParticipant(participantId))),
+      ]);
+
+      setSession(sessionData);
+      setPlayedVideos(Array.from(summaries.values()).map((summary, index) => ({ ...summary, video: videos[index] })));
+      setNotes(sessionData.notes || '');
+      setRatings(sessionData.engagementRatings || {});
+      setParticipants(attendees.filter((participant): participant is Participant => !!participant));
+      setGoalValues(Object.fromEntries(
+        (sessionData.goalProgress || []).map(progress => [
+          getGoalKey(progress.participantId, progress.goalId),
+          progress.value.toString(),
+        ])
+      ));
+    } catch (err) {
+      console.error('Error loading session summary:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Goals left blank weren't worked on this session
+      const goalProgress: GoalProgress[] = participants.flatMap(participant =>
+        participant.goals.flatMap(goal => {
+          const value = parseFloat(goalValues[getGoalKey(participant.id, goal.id)] || '');
+          return Number.isNaN(value) || value < 0 ? [] : [{ participantId: participant.id, goalId: goal.id, value }];
+        })
+      );
+      await saveSessionReview(sessionId, notes.trim(), ratings, goalProgress);
+      router.push('/playlists');
+    } catch (err) {
+      console.error('Error saving session review:', err);
+      setError('Could not save your notes. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-24 bg-gray-200 rounded"></div>
+          <div className="h-48 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-sm font-medium text-gray-900">Session not found</h3>
+        <p className="mt-1 text-sm text-gray-500">The session may not have finished saving.</p>
+        <button
+          onClick={() => router.push('/playlists')}
+          className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Back to Playlists
+        </button>
+      </div>
+    );
+  }
+
+  const skippedCount = session.videosPlayed.filter(playback => playback.skipped).length;
+  const rewoundCount = session.videosPlayed.filter(playback => playback.rewound).length;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Session Summary</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          {new Date(session.startTime).toLocaleString()} • {formatDuration(session.duration || 0)}
+        </p>
+      </div>
+
+      {/* Playback Totals */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <p className="text-sm font-medium text-gray-600">Played</p>
+          <p className="text-2xl font-bold text-gray-900">{session.videosPlayed.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <p className="text-sm font-medium text-gray-600">Skipped</p>
+          <p className="text-2xl font-bold text-gray-900">{skippedCount}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <p className="text-sm font-medium text-gray-600">Rewound</p>
+          <p className="text-2xl font-bold text-gray-900">{rewoundCount}</p>
+        </div>
+      </div>
+
+      {/* Videos and Engagement */}
+      {playedVideos.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">How engaged were they?</h2>
+            <p className="text-sm text-gray-500">Rate each video from 1 (not engaged) to 5 (fully engaged)</p>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {playedVideos.map(summary => (
+              <li key={summary.videoId} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex items-center flex-1 min-w-0">
+                  {summary.video?.thumbnail && (
+                    <img
+                      src={summary.video.thumbnail}
+                      alt={summary.video.title}
+                      className="w-20 h-14 object-cover rounded flex-shrink-0"
+                    />
+                  )}
+                  <div className="ml-3 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {summary.video?.title || summary.videoId}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                      <span>{summary.completionRate}% watched</span>
+                      {summary.plays > 1 && <span>played {summary.plays} times</span>}
+                      {summary.skipped && (
+                        <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full">Skipped</span>
+                      )}
+                      {summary.rewound && (
+                        <span className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full">Rewound</span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex space-x-1" role="radiogroup" aria-label={`Engagement for ${summary.video?.title || summary.videoId}`}>
+                  {ENGAGEMENT_LEVELS.map(level => (
+                    <button
+                      key={level.value}
+                      type="button"
+                      role="radio"
+                      aria-checked={ratings[summary.videoId] === level.value}
+                      title={level.label}
+                      onClick={() => setRatings(prev => ({ ...prev, [summary.videoId]: level.value }))}
+                      className={`w-9 h-9 rounded-full text-sm font-medium border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        ratings[summary.videoId] === level.value
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {level.value}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Goal Progress */}
+      {participants.some(participant => participant.goals.length > 0) && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Goal progress</h2>
+            <p className="text-sm text-gray-500">Record how far each goal got today. Leave blank if it wasn&apos;t worked on.</p>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {participants.filter(participant => participant.goals.length > 0).map(participant => (
+              <div key={participant.id} className="px-6 py-4">
+                <h3 className="text-sm font-medium text-gray-900 mb-2">{participant.displayName}</h3>
+                <ul className="space-y-2">
+                  {participant.goals.map(goal => {
+                    const key = getGoalKey(participant.id, goal.id);
+                    return (
+                      <li key={goal.id} className="flex items-center justify-between gap-4">
+                        <label htmlFor={key} className="text-sm text-gray-700">{goal.description}</label>
+                        <div className="flex items-center flex-shrink-0">
+                          <input
+                            id={key}
+                            type="number"
+                            min={0}
+                            value={goalValues[key] || ''}
+                            onChange={(e) => setGoalValues(prev => ({ ...prev, [key]: e.target.value }))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          {goal.target !== undefined && (
+                            <span className="ml-2 w-14 text-sm text-gray-500">of {goal.target}</span>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Observation Notes */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <label htmlFor="session-notes" className="block text-lg font-semibold text-gray-900">
+          Observation notes
+        </label>
+        <p className="text-sm text-gray-500 mb-3">What did you notice? These appear in progress reports.</p>
+        <textarea
+          id="session-notes"
+          rows={6}
+          value={notes}
+          maxLength={NOTES_MAX_LENGTH}
+          onChange={(e) => setNotes(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Responses, favourite moments, anything that was difficult..."
+        />
+        <p className="text-xs text-gray-500 text-right">{notes.length}/{NOTES_MAX_LENGTH}</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={() => router.push('/playlists')}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          Skip
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-6 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save and Finish'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSummaryPage;
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getUserPlaylists } from '@/lib/firestore';
+import {
+  getTemplates,
+  deleteTemplate,
+  createPlaylistFromTemplate,
+  rateTemplate,
+  TemplateFilters,
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_DIFFICULTIES,
+} from '@/lib/templates';
+import { Playlist, TemplatePlaylist, TemplateCategory, TemplateDifficulty } from '@/types';
+import TemplateCard from '@/components/templates/TemplateCard';
+import TemplateModal from '@/components/modals/TemplateModal';
+
+const TemplatesPage: React.FC = () => {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [templates, setTemplates] = useState<TemplatePlaylist[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<TemplateFilters>({});
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplatePlaylist | null>(null);
+  const [usingTemplateId, setUsingTemplateId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadTemplates();
+    }
+  }, [user, filters]);
+
+  useEffect(() => {
+    if (user) {
+      getUserPlaylists(user.uid).then(setPlaylists);
+    }
+  }, [user]);
+
+  const loadTemplates = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const results = await getTemplates(user.uid, filters);
+      setTemplates(results);
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUseTemplate = async (template: TemplatePlaylist) => {
+    if (!user) return;
+
+    setUsingTemplateId(template.id);
+    try {
+      const playlistId = await createPlaylistFromTemplate(template, user.uid);
+      router.push(`/playlists/${playlistId}`);
+    } catch (error) {
+      console.error('Error using template:', error);
+      setUsingTemplateId(null);
+    }
+  };
+
+  const handleRateTemplate = async (template: TemplatePlaylist, rating: number) => {
+    if (!user) return;
+
+    try {
+      const updated = await rateTemplate(template.id, user.uid, rating);
+      if (updated) {
+        setTemplates(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+      }
+    } catch (error) {
+      console.error('Error rating template:', error);
+    }
+  };
+
+  const handleEditTemplate = (template: TemplatePlaylist) => {
+    setSelectedTemplate(template);
+    setIsModalOpen(true);
+  };
+
+  const handleDeleteTemplate = async (template: TemplatePlaylist) => {
+    if (!confirm(`Are you sure you want to delete the "${template.title}" template?`)) return;
+
+    try {
+      await deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedTemplate(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Templates</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Reuse proven session routines instead of rebuilding them each week
+          </p>
+        </div>
+
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Create Template
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-center gap-4">
+        <div>
+          <label htmlFor="category-filter" className="block text-xs font-medium text-gray-700 mb-1">
+            Category
+          </label>
+          <select
+            id="category-filter"
+            value={filters.category || ''}
+            onChange={(e) => setFilters(prev => ({
+              ...prev,
+              category: (e.target.value || undefined) as TemplateCategory | undefined,
+            }))}
+            className="block w-44 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+          >
+            <option value="">All categories</option>
+            {TEMPLATE_CATEGORIES.map(category => (
+              <option key={category.value} value={category.value}>{category.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="difficulty-filter" className="block text-xs font-medium text-gray-700 mb-1">
+            Difficulty
+          </label>
+          <select
+            id="difficulty-filter"
+            value={filters.difficulty || ''}
+            onChange={(e) => setFilters(prev => ({
+              ...prev,
+              difficulty: (e.target.value || undefined) as TemplateDifficulty | undefined,
+            }))}
+            className="block w-44 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+          >
+            <option value="">All levels</option>
+            {TEMPLATE_DIFFICULTIES.map(difficulty => (
+              <option key={difficulty.value} value={difficulty.value}>{difficulty.label}</option>
+            ))}
+          </select>
+        </div>
+        {(filters.category || filters.difficulty) && (
+          <button
+            onClick={() => setFilters({})}
+            className="self-end text-sm text-blue-600 hover:text-blue-800"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Templates Grid */}
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <div key={i} className="h-56 bg-gray-200 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="text-center py-12">
+          <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+          </svg>
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No templates found</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {filters.category || filters.difficulty
+              ? 'Try a different category or difficulty.'
+              : 'Turn one of your playlists into a template to reuse it.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {templates.map(template => (
+            <TemplateCard
+              key={template.id}
+              template={template}
+              currentUserId={user?.uid}
+              isUsing={usingTemplateId === template.id}
+              onUse={handleUseTemplate}
+              onRate={handleRateTemplate}
+              onEdit={handleEditTemplate}
+              onDelete={handleDeleteTemplate}
+            />
+          ))}
+        </div>
+      )}
+
+      <TemplateModal
+        isOpen={isModalOpen}
+        template={selectedTemplate}
+        playlists={playlists}
+        onClose={handleCloseModal}
+        onSuccess={loadTemplates}
+      />
+    </div>
+  );
+};
+
+export default TemplatesPage;
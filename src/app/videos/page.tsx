@@ -6,28 +6,36 @@ import { getAllVideos } from '@/lib/firestore';
 import { Video } from '@/types';
 import VideoGrid from '@/components/video/VideoGrid';
 import VideoUploader from '@/components/video/VideoUploader';
+import BulkVideoImport from '@/components/video/BulkVideoImport';
 import TagManager from '@/components/tags/TagManager';
+import FlagContentModal, { FlagTarget } from '@/components/modals/FlagContentModal';
+import DeleteVideoModal from '@/components/modals/DeleteVideoModal';
+import VideoNotesModal from '@/components/modals/VideoNotesModal';
 
 const VideosPage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const [videos, setVideos] = useState<Video[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showUploader, setShowUploader] = useState(false);
+  const [showBulkImport, setShowBulkImport] = useState(false);
   const [showTagManager, setShowTagManager] = useState(false);
   const [selectedVideos, setSelectedVideos] = useState<Video[]>([]);
+  const [flagTarget, setFlagTarget] = useState<FlagTarget | null>(null);
+  const [videoToDelete, setVideoToDelete] = useState<Video | null>(null);
+  const [videoForNotes, setVideoForNotes] = useState<Video | null>(null);
 
   useEffect(() => {
     if (user) {
       loadVideos();
     }
-  }, [user]);
+  }, [user, isAdmin]);
 
   const loadVideos = async () => {
     if (!user) return;
     
     setIsLoading(true);
     try {
-      const allVideos = await getAllVideos();
+      const allVideos = await getAllVideos({ includeHidden: isAdmin });
       const userVideos = allVideos.filter(video => video.createdBy === user.uid);
       
       setVideos(userVideos);
@@ -55,6 +63,13 @@ const VideosPage: React.FC = () => {
     setShowUploader(false);
   };
 
+  const handleVideosImported = (imported: Video[]) => {
+    setVideos(prev => [
+      ...imported.filter(video => !prev.some(v => v.videoId === video.videoId)),
+      ...prev,
+    ]);
+  };
+
   const handleVideoSelect = (video: Video) => {
     setSelectedVideos(prev => {
       const isSelected = prev.some(v => v.videoId === video.videoId);
@@ -71,16 +86,17 @@ const VideosPage: React.FC = () => {
     setShowTagManager(true);
   };
 
-  const handleVideoDelete = async (video: Video) => {
-    if (!confirm(`Are you sure you want to delete "${video.title}"?`)) return;
-    
-    try {
-      // Note: In a real app, you'd want to check if video is used in playlists
-      // For now, we'll just remove it from the local state
-      setVideos(prev => prev.filter(v => v.videoId !== video.videoId));
-    } catch (error) {
-      console.error('Error deleting video:', error);
-    }
+  const handleVideoNotesSaved = (video: Video) => {
+    setVideos(prev => prev.map(v => v.videoId === video.videoId ? video : v));
+  };
+
+  const handleVideoDelete = (video: Video) => {
+    setVideoToDelete(video);
+  };
+
+  const handleVideoDeleted = (video: Video) => {
+    setVideos(prev => prev.filter(v => v.videoId !== video.videoId));
+    setSelectedVideos(prev => prev.filter(v => v.videoId !== video.videoId));
   };
 
   const handleAddToPlaylist = (video: Video) => {
@@ -89,10 +105,8 @@ const VideosPage: React.FC = () => {
     alert(`Add "${video.title}" to playlist - This feature will be implemented in Phase 3`);
   };
 
-  const handleSearch = (query: string, filters: any) => {
-    // This would typically filter the videos based on the query and filters
-    // For now, the VideoGrid handles basic client-side filtering
-    console.log('Search:', query, filters);
+  const handleVideoFlag = (video: Video) => {
+    setFlagTarget({ itemType: 'video', itemId: video.videoId, itemLabel: video.title });
   };
 
   const handleTagsUpdated = () => {
@@ -161,6 +175,16 @@ const VideosPage: React.FC = () => {
             Manage Tags
           </button>
           
+          <button
+            onClick={() => setShowBulkImport(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            Bulk Import
+          </button>
+          
           <button
             onClick={() => setShowUploader(true)}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
@@ -279,17 +303,33 @@ const VideosPage: React.FC = () => {
         </div>
       )}
 
+      {/* Bulk Import Modal */}
+      {showBulkImport && (
+        <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={() => setShowBulkImport(false)}></div>
+            <div className="inline-block align-middle bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+              <BulkVideoImport
+                onVideosImported={handleVideosImported}
+                onClose={() => setShowBulkImport(false)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Videos Grid */}
       <VideoGrid
         videos={videos}
         isLoading={isLoading}
         onVideoSelect={handleVideoSelect}
         onVideoEdit={handleVideoEdit}
+        onVideoEditNotes={setVideoForNotes}
         onVideoDelete={handleVideoDelete}
         onAddToPlaylist={handleAddToPlaylist}
+        onVideoFlag={handleVideoFlag}
         selectedVideos={selectedVideos}
         showSearch={true}
-        onSearch={handleSearch}
         emptyMessage="No videos in your library yet"
         emptyIcon={
           <svg className="w-full h-full" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -304,6 +344,29 @@ const VideosPage: React.FC = () => {
         onClose={() => setShowTagManager(false)}
         onTagsUpdated={handleTagsUpdated}
       />
+
+      {/* Delete Video Modal */}
+      <DeleteVideoModal
+        isOpen={!!videoToDelete}
+        video={videoToDelete}
+        onClose={() => setVideoToDelete(null)}
+        onSuccess={handleVideoDeleted}
+      />
+
+      {/* Colour Notes Modal */}
+      <VideoNotesModal
+        isOpen={!!videoForNotes}
+        video={videoForNotes}
+        onClose={() => setVideoForNotes(null)}
+        onSaved={handleVideoNotesSaved}
+      />
+
+      {/* Report Modal */}
+      <FlagContentModal
+        isOpen={!!flagTarget}
+        target={flagTarget}
+        onClose={() => setFlagTarget(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  approveFlaggedItem,
+  hideFlaggedItem,
+  deleteFlaggedItem,
+  getFlagReasonLabel,
+  ModerationItem,
+} from '@/lib/moderation';
+
+interface ModerationQueueProps {
+  items: ModerationItem[];
+  onItemResolved: (item: ModerationItem) => void;
+}
+
+type ModerationAction = 'approve' | 'hide' | 'delete';
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ items, onItemResolved }) => {
+  const { user } = useAuth();
+  const [processingKey, setProcessingKey] = useState<string | null>(null);
+
+  const getItemKey = (item: ModerationItem) => `${item.itemType}_${item.itemId}`;
+
+  const handleAction = async (item: ModerationItem, action: ModerationAction) => {
+    if (!user) return;
+    if (action === 'delete') {
+      const message = item.itemType === 'video'
+        ? `Permanently delete "${item.itemLabel}"? It will also be removed from every playlist and template that uses it.`
+        : `Permanently delete the tag "${item.itemLabel}"?`;
+      if (!confirm(message)) return;
+    }
+
+    setProcessingKey(getItemKey(item));
+    try {
+      if (action === 'approve') {
+        await approveFlaggedItem(item, user.uid);
+      } else if (action === 'hide') {
+        await hideFlaggedItem(item, user.uid);
+      } else {
+        await deleteFlaggedItem(item, user.uid);
+      }
+      onItemResolved(item);
+    } catch (error) {
+      console.error('Error resolving flagged item:', error);
+    } finally {
+      setProcessingKey(null);
+    }
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <p className="mt-2 text-sm text-gray-500">Nothing to review. The moderation queue is empty.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map(item => {
+        const isProcessing = processingKey === getItemKey(item);
+
+        return (
+          <div key={getItemKey(item)} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    item.itemType === 'video' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                  }`}>
+                    {item.itemType === 'video' ? 'Video' : 'Tag'}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {item.flags.length} report{item.flags.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                {item.itemType === 'video' ? (
+                  <a
+                    href={`https://www.youtube.com/watch?v=${item.itemId}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-1 block text-sm font-medium text-gray-900 hover:text-blue-600 truncate"
+                  >
+                    {item.itemLabel}
+                  </a>
+                ) : (
+                  <p className="mt-1 text-sm font-medium text-gray-900 truncate">{item.itemLabel}</p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                <button
+                  onClick={() => handleAction(item, 'approve')}
+                  disabled={isProcessing}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleAction(item, 'hide')}
+                  disabled={isProcessing}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-yellow-800 bg-yellow-100 hover:bg-yellow-200 disabled:opacity-50"
+                >
+                  Hide
+                </button>
+                <button
+                  onClick={() => handleAction(item, 'delete')}
+                  disabled={isProcessing}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            <ul className="mt-3 space-y-1">
+              {item.flags.map(flag => (
+                <li key={flag.id} className="text-xs text-gray-600">
+                  <span className="font-medium text-gray-900">{getFlagReasonLabel(flag.reason)}</span>
+                  {' '}by {flag.flaggedByName} on {new Date(flag.createdAt).toLocaleDateString()}
+                  {flag.details && <span className="block text-gray-500 italic">&ldquo;{flag.details}&rdquo;</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ModerationQueue;
@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { updateUserRole, setUserDisabled } from '@/lib/users';
+import { User, UserRole } from '@/types';
+
+interface UserManagementProps {
+  users: User[];
+  onUserUpdated: (user: User) => void;
+}
+
+const UserManagement: React.FC<UserManagementProps> = ({ users, onUserUpdated }) => {
+  const { user: currentUser } = useAuth();
+  const [updatingUid, setUpdatingUid] = useState<string | null>(null);
+
+  const handleRoleChange = async (user: User, role: UserRole) => {
+    setUpdatingUid(user.uid);
+    try {
+      await updateUserRole(user.uid, role);
+      onUserUpdated({ ...user, role });
+    } catch (error) {
+      console.error('Error changing user role:', error);
+    } finally {
+      setUpdatingUid(null);
+    }
+  };
+
+  const handleToggleDisabled = async (user: User) => {
+    const disabled = !user.disabled;
+    if (disabled && !confirm(`Disable ${user.name || user.email}? They will lose access to the app straight away.`)) return;
+
+    setUpdatingUid(user.uid);
+    try {
+      await setUserDisabled(user.uid, disabled);
+      onUserUpdated({ ...user, disabled });
+    } catch (error) {
+      console.error('Error changing user status:', error);
+    } finally {
+      setUpdatingUid(null);
+    }
+  };
+
+  if (users.length === 0) {
+    return <p className="text-sm text-gray-500 py-6 text-center">No users found.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            <th className="px-4 py-3"></th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {users.map(user => {
+            const isSelf = user.uid === currentUser?.uid;
+            const isUpdating = updatingUid === user.uid;
+
+            return (
+              <tr key={user.uid}>
+                <td className="px-4 py-3">
+                  <div className="text-sm font-medium text-gray-900">{user.name || 'Unnamed user'}</div>
+                  <div className="text-xs text-gray-500">{user.email}</div>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-500">
+                  {new Date(user.createdAt).toLocaleDateString()}
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                    disabled={isSelf || isUpdating}
+                    className="border-gray-300 rounded-md text-sm text-gray-900 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+                    title={isSelf ? 'You cannot change your own role' : undefined}
+                  >
+                    <option value="worker">Worker</option>
+                    <option value="admin">Admin</option>
+                  </select>
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                    user.disabled ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                  }`}>
+                    {user.disabled ? 'Disabled' : 'Active'}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {!isSelf && (
+                    <button
+                      onClick={() => handleToggleDisabled(user)}
+                      disabled={isUpdating}
+                      className={`text-sm font-medium disabled:opacity-50 ${
+                        user.disabled ? 'text-blue-600 hover:text-blue-800' : 'text-red-600 hover:text-red-800'
+                      }`}
+                    >
+                      {user.disabled ? 'Enable' : 'Disable'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { getRecommendations, generateRecommendations } from '@/lib/recommendations';
+import { getVideo, getPlaylist } from '@/lib/firestore';
+import { getTemplate } from '@/lib/templates';
+import { RecommendationData } from '@/types';
+
+interface RecommendationItem {
+  recommendation: RecommendationData;
+  title: string;
+  subtitle: string;
+  href: string;
+  external?: boolean;
+}
+
+// Stored recommendations older than this are regenerated on load
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+const MAX_ITEMS = 6;
+
+const typeLabels: Record<RecommendationData['type'], string> = {
+  video: 'Video',
+  playlist: 'Playlist',
+  template: 'Template',
+};
+
+const typeColors: Record<RecommendationData['type'], string> = {
+  video: 'bg-green-100 text-green-800',
+  playlist: 'bg-blue-100 text-blue-800',
+  template: 'bg-orange-100 text-orange-800',
+};
+
+const Recommendations: React.FC = () => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<RecommendationItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadRecommendations();
+    }
+  }, [user]);
+
+  const resolveItem = async (recommendation: RecommendationData): Promise<RecommendationItem | null> => {
+    if (recommendation.type === 'video') {
+      const video = await getVideo(recommendation.itemId);
+      return video ? {
+        recommendation,
+        title: video.title,
+        subtitle: video.channelName,
+        href: `https://www.youtube.com/watch?v=${video.videoId}`,
+        external: true,
+      } : null;
+    }
+
+    if (recommendation.type === 'playlist') {
+      const playlist = await getPlaylist(recommendation.itemId);
+      return playlist ? {
+        recommendation,
+        title: playlist.title,
+        subtitle: `${playlist.videoRefs.length} videos`,
+        href: `/playlists/${playlist.id}`,
+      } : null;
+    }
+
+    const template = await getTemplate(recommendation.itemId);
+    return template ? {
+      recommendation,
+      title: template.title,
+      subtitle: `${template.videoRefs.length} videos`,
+      href: '/templates',
+    } : null;
+  };
+
+  const showRecommendations = async (recommendations: RecommendationData[]) => {
+    const resolved = await Promise.all(recommendations.slice(0, MAX_ITEMS).map(resolveItem));
+    setItems(resolved.filter((item): item is RecommendationItem => item !== null));
+  };
+
+  const loadRecommendations = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      let recommendations = await getRecommendations(user.uid);
+      const isStale = recommendations.length === 0 ||
+        Date.now() - new Date(recommendations[0].createdAt).getTime() > STALE_AFTER_MS;
+
+      if (isStale) {
+        recommendations = await generateRecommendations(user.uid);
+      }
+
+      await showRecommendations(recommendations);
+    } catch (error) {
+      console.error('Error loading recommendations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!user) return;
+
+    setIsRefreshing(true);
+    try {
+      const recommendations = await generateRecommendations(user.uid);
+      await showRecommendations(recommendations);
+    } catch (error) {
+      console.error('Error refreshing recommendations:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Suggested for You</h2>
+          <p className="text-sm text-gray-500">Based on your tags, usage patterns and what other workers pair together</p>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={isLoading || isRefreshing}
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+        >
+          {isRefreshing ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-24 bg-gray-100 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-sm text-gray-600">
+            No suggestions yet. Build a few playlists and run some sessions to get personalised suggestions.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {items.map(({ recommendation, title, subtitle, href, external }) => (
+            <Link
+              key={`${recommendation.type}_${recommendation.itemId}`}
+              href={href}
+              target={external ? '_blank' : undefined}
+              rel={external ? 'noopener noreferrer' : undefined}
+              className="block bg-gray-50 rounded-lg p-4 hover:shadow-md transition-shadow"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${typeColors[recommendation.type]}`}>
+                  {typeLabels[recommendation.type]}
+                </span>
+                <span className="text-xs text-gray-500">{Math.round(recommendation.score * 100)}% match</span>
+              </div>
+              <h3 className="font-medium text-gray-900 truncate" title={title}>{title}</h3>
+              <p className="text-xs text-gray-500 mb-2 truncate">{subtitle}</p>
+              {recommendation.reasons.length > 0 && (
+                <p className="text-xs text-gray-600">{recommendation.reasons[0]}</p>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Recommendations;
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { getUserPlaylists } from '@/lib/firestore';
+import { getSessionAnalytics } from '@/lib/analytics';
+import { toDateInputValue } from '@/lib/progressReports';
+import { getSessionLaunchSettings } from '@/lib/preferences';
+import {
+  ScheduledOccurrence,
+  getOccurrenceLaunchUrl,
+  getOccurrenceStatus,
+  getOccurrences,
+  getUserPlannedSessions,
+} from '@/lib/schedule';
+import { SessionAnalytics } from '@/types';
+
+// Enough history to cover everything launched today
+const RECENT_SESSION_LIMIT = 50;
+
+const TodaysSessions: React.FC = () => {
+  const { user } = useAuth();
+  const { preferences } = usePreferences();
+  const [occurrences, setOccurrences] = useState<ScheduledOccurrence[]>([]);
+  const [sessions, setSessions] = useState<SessionAnalytics[]>([]);
+  const [playlistTitles, setPlaylistTitles] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const today = toDateInputValue(new Date());
+  const launchSettings = getSessionLaunchSettings(preferences);
+
+  useEffect(() => {
+    if (user) {
+      loadTodaysSessions();
+    }
+  }, [user]);
+
+  const loadTodaysSessions = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const [plannedSessions, playlists, recentSessions] = await Promise.all([
+        getUserPlannedSessions(user.uid),
+        getUserPlaylists(user.uid),
+        getSessionAnalytics(user.uid, RECENT_SESSION_LIMIT),
+      ]);
+      setOccurrences(getOccurrences(plannedSessions, today, today));
+      setPlaylistTitles(Object.fromEntries(playlists.map(playlist => [playlist.id, playlist.title])));
+      setSessions(recentSessions);
+    } catch (error) {
+      console.error("Error loading today's sessions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Today&apos;s Sessions</h2>
+        <Link href="/schedule" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+          View schedule →
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <div key={i} className="h-14 bg-gray-100 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : occurrences.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Nothing planned for today. Use the schedule to plan sessions for the week ahead.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {occurrences.map(occurrence => {
+            const { plannedSession } = occurrence;
+            const title = playlistTitles[plannedSession.playlistId];
+            const isDelivered = getOccurrenceStatus(occurrence, sessions, today) === 'delivered';
+
+            return (
+              <div
+                key={plannedSession.id}
+                className="flex items-center justify-between bg-gray-50 rounded-lg p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {plannedSession.time} · {title || 'Deleted playlist'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {plannedSession.durationMinutes} min
+                    {plannedSession.participantIds.length > 0
+                      ? ` · ${plannedSession.participantIds.length} participant${plannedSession.participantIds.length !== 1 ? 's' : ''}`
+                      : ''}
+                  </p>
+                </div>
+
+                {isDelivered ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    Delivered
+                  </span>
+                ) : title ? (
+                  <Link
+                    href={getOccurrenceLaunchUrl(occurrence, launchSettings)}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M8 5v14l11-7z"/>
+                    </svg>
+                    Start
+                  </Link>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodaysSessions;
@@ -1,21 +1,42 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { usePathname } from 'next/navigation';
 import Header from './Header';
 import Sidebar from './Sidebar';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import LoginButton from '@/components/LoginButton';
 import ClientOnly from '@/components/ClientOnly';
+import { signOut } from '@/lib/auth';
 
 interface AppLayoutProps {
   children: React.ReactNode;
 }
 
+// Route prefixes only admins may open
+const ADMIN_ROUTES = ['/admin'];
+
+const isAdminRoute = (pathname: string | null) => {
+  return !!pathname && ADMIN_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`));
+};
+
 const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+  const { user, profile, isAdmin, loading } = useAuth();
+  const { preferences, loading: preferencesLoading } = usePreferences();
+  const pathname = usePathname();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { accessibility } = preferences;
+
+  // Applied to the root element so rem-based sizes and full-screen pages pick them up too
+  useEffect(() => {
+    const root = document.documentElement;
+    root.classList.toggle('high-contrast', accessibility.highContrast);
+    root.classList.toggle('large-text', accessibility.largeText);
+    root.classList.toggle('reduce-motion', accessibility.reducedMotion);
+  }, [accessibility]);
 
-  if (loading) {
+  if (loading || (user && preferencesLoading)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -54,8 +75,34 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
     );
   }
 
+  if (profile?.disabled) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-6">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+            </svg>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Account Disabled</h2>
+          <p className="text-gray-600 mb-6">
+            Your account has been disabled. Please contact your administrator if you think this is a mistake.
+          </p>
+          <button
+            onClick={() => signOut()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isAccessDenied = isAdminRoute(pathname) && !isAdmin;
+
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 print:bg-white">
       {/* Mobile menu backdrop */}
       {sidebarOpen && (
         <div 
@@ -65,14 +112,15 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       )}
 
       {/* Desktop layout */}
-      <div className="flex h-screen">
+      {/* Only the page content prints, at full length */}
+      <div className="flex h-screen print:block print:h-auto">
         {/* Sidebar for desktop */}
-        <div className="hidden lg:flex lg:flex-shrink-0">
+        <div className="hidden lg:flex lg:flex-shrink-0 print:hidden">
           <Sidebar />
         </div>
 
         {/* Mobile sidebar */}
-        <div className={`fixed inset-y-0 left-0 z-50 w-64 bg-white transform transition-transform duration-300 ease-in-out lg:hidden ${
+        <div className={`fixed inset-y-0 left-0 z-50 w-64 bg-white transform transition-transform duration-300 ease-in-out lg:hidden print:hidden ${
           sidebarOpen ? 'translate-x-0' : '-translate-x-full'
         }`}>
           <div className="flex items-center justify-between p-4 border-b border-gray-200">
@@ -90,12 +138,12 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         </div>
 
         {/* Main content area */}
-        <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="flex-1 flex flex-col overflow-hidden print:block print:overflow-visible">
           {/* Header */}
           <Header />
 
           {/* Mobile menu button */}
-          <div className="lg:hidden flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="lg:hidden flex items-center justify-between p-4 border-b border-gray-200 print:hidden">
             <button
               onClick={() => setSidebarOpen(true)}
               className="p-2 rounded-md text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -107,9 +155,19 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           </div>
 
           {/* Main content */}
-          <main className="flex-1 overflow-y-auto">
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-              {children}
+          <main className="flex-1 overflow-y-auto print:overflow-visible">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:max-w-none print:p-0">
+              {isAccessDenied ? (
+                <div className="text-center py-12">
+                  <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                  </svg>
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">Admins only</h3>
+                  <p className="mt-1 text-sm text-gray-500">You don&rsquo;t have permission to view this page.</p>
+                </div>
+              ) : (
+                children
+              )}
             </div>
           </main>
         </div>
@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface NavItem {
   name: string;
@@ -14,6 +15,7 @@ interface NavItem {
 
 const Sidebar: React.FC = () => {
   const pathname = usePathname();
+  const { isAdmin } = useAuth();
   const [isCollapsed, setIsCollapsed] = useState(false);
 
   const navigation: NavItem[] = [
@@ -48,6 +50,26 @@ const Sidebar: React.FC = () => {
       ),
       current: pathname === '/videos',
     },
+    {
+      name: 'Templates',
+      href: '/templates',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+        </svg>
+      ),
+      current: pathname === '/templates',
+    },
+    {
+      name: 'Participants',
+      href: '/participants',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+      ),
+      current: pathname === '/participants',
+    },
     {
       name: 'Session Mode',
       href: '/session',
@@ -58,6 +80,16 @@ const Sidebar: React.FC = () => {
       ),
       current: pathname === '/session',
     },
+    {
+      name: 'Schedule',
+      href: '/schedule',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      ),
+      current: pathname === '/schedule',
+    },
   ];
 
   const secondaryNavigation: NavItem[] = [
@@ -84,6 +116,19 @@ const Sidebar: React.FC = () => {
     },
   ];
 
+  if (isAdmin) {
+    secondaryNavigation.push({
+      name: 'Admin',
+      href: '/admin',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+        </svg>
+      ),
+      current: pathname?.startsWith('/admin'),
+    });
+  }
+
   return (
     <div className={`bg-gray-50 border-r border-gray-200 ${isCollapsed ? 'w-16' : 'w-64'} transition-all duration-300 flex flex-col h-full`}>
       {/* Sidebar Header */}
@@ -48,7 +48,7 @@ const CreatePlaylistModal: React.FC<CreatePlaylistModalProps> = ({
         userId: user.uid,
         title: data.title,
         notes: data.notes,
-        videoRefs: [],
+        entries: [],
       });
       
       reset();
@@ -0,0 +1,192 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteVideo, getVideoReferences, VideoReferences } from '@/lib/firestore';
+import { Video } from '@/types';
+
+interface DeleteVideoModalProps {
+  isOpen: boolean;
+  video: Video | null;
+  onClose: () => void;
+  onSuccess: (video: Video) => void;
+}
+
+const DeleteVideoModal: React.FC<DeleteVideoModalProps> = ({
+  isOpen,
+  video,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const [references, setReferences] = useState<VideoReferences | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen && video) {
+      loadReferences();
+    }
+  }, [isOpen, video?.videoId]);
+
+  const loadReferences = async () => {
+    if (!video) return;
+
+    setReferences(null);
+    setError('');
+    setIsChecking(true);
+    try {
+      setReferences(await getVideoReferences(video.videoId));
+    } catch (error) {
+      console.error('Error checking video references:', error);
+      setError('Could not check which playlists use this video. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!video) return;
+
+    setIsDeleting(true);
+    setError('');
+    try {
+      await deleteVideo(video.videoId);
+      onSuccess(video);
+      onClose();
+    } catch (error) {
+      console.error('Error deleting video:', error);
+      setError('Failed to delete video. Please try again.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!isOpen || !video) return null;
+
+  const playlistCount = references?.playlists.length || 0;
+  const templateCount = references?.templates.length || 0;
+  const shareCount = references?.shares.length || 0;
+  const hasReferences = playlistCount + templateCount > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="sm:flex sm:items-start">
+              <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-red-100 sm:mx-0 sm:h-10 sm:w-10">
+                <svg className="h-6 w-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                </svg>
+              </div>
+              <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left flex-1 min-w-0">
+                <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+                  Delete Video
+                </h3>
+                <div className="mt-2">
+                  <p className="text-sm text-gray-500">
+                    Are you sure you want to delete &ldquo;{video.title}&rdquo; from the library? This action cannot be undone.
+                  </p>
+
+                  {isChecking && (
+                    <div className="mt-4 space-y-2">
+                      <div className="h-4 bg-gray-100 rounded animate-pulse"></div>
+                      <div className="h-4 bg-gray-100 rounded animate-pulse w-2/3"></div>
+                    </div>
+                  )}
+
+                  {references && hasReferences && (
+                    <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-3 space-y-3">
+                      <p className="text-sm text-yellow-800">
+                        <strong>Warning:</strong> This video is still in use. Deleting it will also remove it from:
+                      </p>
+
+                      {playlistCount > 0 && (
+                        <div>
+                          <h4 className="text-xs font-medium text-yellow-900 uppercase tracking-wide">
+                            {playlistCount} playlist{playlistCount !== 1 ? 's' : ''}
+                          </h4>
+                          <ul className="mt-1 max-h-32 overflow-y-auto text-sm text-yellow-800 list-disc list-inside">
+                            {references.playlists.map(playlist => (
+                              <li key={playlist.id} className="truncate">
+                                {playlist.title}
+                                {playlist.userId !== user?.uid && (
+                                  <span className="text-yellow-700"> (another worker&apos;s playlist)</span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {templateCount > 0 && (
+                        <div>
+                          <h4 className="text-xs font-medium text-yellow-900 uppercase tracking-wide">
+                            {templateCount} template{templateCount !== 1 ? 's' : ''}
+                          </h4>
+                          <ul className="mt-1 max-h-32 overflow-y-auto text-sm text-yellow-800 list-disc list-inside">
+                            {references.templates.map(template => (
+                              <li key={template.id} className="truncate">{template.title}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {shareCount > 0 && (
+                        <p className="text-sm text-yellow-800">
+                          {shareCount} active share link{shareCount !== 1 ? 's' : ''} for these playlists will stop showing this video.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {references && !hasReferences && (
+                    <p className="mt-4 text-sm text-gray-600">
+                      This video is not used in any playlists or templates.
+                    </p>
+                  )}
+
+                  {error && (
+                    <p className="mt-4 text-sm text-red-600">{error}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Action buttons */}
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isDeleting || isChecking || !references}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDeleting ? 'Deleting...' : hasReferences ? 'Remove Everywhere & Delete' : 'Delete Video'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isDeleting}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteVideoModal;
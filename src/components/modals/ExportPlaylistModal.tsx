@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { getPlaylistWithVideos } from '@/lib/firestore';
+import { downloadPlaylistExport, PlaylistExportFormat, PLAYLIST_EXPORT_FORMATS } from '@/lib/playlistTransfer';
+import { Playlist } from '@/types';
+
+interface ExportPlaylistModalProps {
+  isOpen: boolean;
+  playlist: Playlist | null;
+  onClose: () => void;
+}
+
+const ExportPlaylistModal: React.FC<ExportPlaylistModalProps> = ({
+  isOpen,
+  playlist,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<PlaylistExportFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    if (!playlist) return;
+
+    setIsExporting(true);
+    setError('');
+    try {
+      const playlistWithVideos = await getPlaylistWithVideos(playlist.id);
+      if (!playlistWithVideos) {
+        setError('Playlist could not be loaded');
+        return;
+      }
+
+      downloadPlaylistExport(playlistWithVideos, format);
+      onClose();
+    } catch (error) {
+      console.error('Error exporting playlist:', error);
+      setError('Failed to export playlist. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!isOpen || !playlist) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+              Export Playlist
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Download &ldquo;{playlist.title}&rdquo; to keep a backup or move it to another account.
+            </p>
+
+            <fieldset className="mt-4 space-y-2">
+              <legend className="sr-only">Export format</legend>
+              {PLAYLIST_EXPORT_FORMATS.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-start p-3 border rounded-md cursor-pointer ${
+                    format === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="export-format"
+                    value={option.value}
+                    checked={format === option.value}
+                    onChange={() => setFormat(option.value)}
+                    className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                  />
+                  <span className="ml-3">
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            {error && (
+              <p className="mt-3 text-sm text-red-600">{error}</p>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              {isExporting ? 'Exporting...' : 'Download'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isExporting}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPlaylistModal;
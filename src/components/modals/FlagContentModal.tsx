@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { flagContent, FLAG_REASONS } from '@/lib/moderation';
+import { ContentFlag, FlagReason } from '@/types';
+
+export interface FlagTarget {
+  itemType: ContentFlag['itemType'];
+  itemId: string;
+  itemLabel: string;
+}
+
+interface FlagContentModalProps {
+  isOpen: boolean;
+  target: FlagTarget | null;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+const FlagContentModal: React.FC<FlagContentModalProps> = ({
+  isOpen,
+  target,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<FlagReason>('inappropriate');
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('inappropriate');
+      setDetails('');
+      setIsSubmitted(false);
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !target) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await flagContent({
+        ...target,
+        reason,
+        details,
+        flaggedBy: user.uid,
+        flaggedByName: user.displayName || user.email || 'Unknown user',
+      });
+      setIsSubmitted(true);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error submitting flag:', error);
+      setError('Failed to submit report. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !target) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+              Report {target.itemType === 'video' ? 'Video' : 'Tag'}
+            </h3>
+            <p className="mt-1 text-sm text-gray-500 truncate" title={target.itemLabel}>
+              {target.itemLabel}
+            </p>
+
+            {isSubmitted ? (
+              <div className="mt-4 bg-green-50 border border-green-200 rounded-md p-4">
+                <p className="text-sm text-green-800">
+                  Thanks. An admin will review this report.
+                </p>
+              </div>
+            ) : (
+              <form id="flag-content-form" onSubmit={handleSubmit} className="mt-4 space-y-4">
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 mb-2">Reason</legend>
+                  <div className="space-y-2">
+                    {FLAG_REASONS.map(option => (
+                      <label key={option.value} className="flex items-center">
+                        <input
+                          type="radio"
+                          name="reason"
+                          value={option.value}
+                          checked={reason === option.value}
+                          onChange={() => setReason(option.value)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-900">{option.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+
+                <div>
+                  <label htmlFor="flag-details" className="block text-sm font-medium text-gray-700 mb-1">
+                    Details (optional)
+                  </label>
+                  <textarea
+                    id="flag-details"
+                    rows={3}
+                    maxLength={500}
+                    value={details}
+                    onChange={(e) => setDetails(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+                    placeholder="Anything that will help an admin review this"
+                  />
+                </div>
+
+                {error && (
+                  <p className="text-sm text-red-600">{error}</p>
+                )}
+              </form>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            {!isSubmitted && (
+              <button
+                type="submit"
+                form="flag-content-form"
+                disabled={isSubmitting}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit Report'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              {isSubmitted ? 'Close' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlagContentModal;
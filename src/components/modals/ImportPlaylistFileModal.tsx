@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { parsePlaylistFile, importPlaylistExport, PlaylistFileImportResult } from '@/lib/playlistTransfer';
+import { PlaylistExport } from '@/lib/validation';
+
+interface ImportPlaylistFileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (playlistId: string) => void;
+}
+
+const ImportPlaylistFileModal: React.FC<ImportPlaylistFileModalProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<PlaylistExport | null>(null);
+  const [rejectedRows, setRejectedRows] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [processingStep, setProcessingStep] = useState('');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<PlaylistFileImportResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName('');
+      setData(null);
+      setRejectedRows([]);
+      setTitle('');
+      setError('');
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setError('');
+    try {
+      const parsed = parsePlaylistFile(await file.text(), file.name);
+      setData(parsed.data);
+      setRejectedRows(parsed.rejectedRows);
+      setTitle(parsed.data.playlist.title);
+    } catch (error) {
+      setData(null);
+      setRejectedRows([]);
+      setError(error instanceof Error ? error.message : 'Could not read this file');
+    }
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!user || !data) return;
+
+    setIsImporting(true);
+    setError('');
+    try {
+      const importResult = await importPlaylistExport(data, user.uid, {
+        title,
+        onProgress: setProcessingStep,
+      });
+      setResult(importResult);
+      onSuccess(importResult.playlistId);
+    } catch (error) {
+      console.error('Error importing playlist file:', error);
+      setError('Failed to import playlist. Please try again.');
+    } finally {
+      setIsImporting(false);
+      setProcessingStep('');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={isImporting ? undefined : onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+              Import Playlist File
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Restore a playlist from a JSON, CSV or M3U export. Videos missing from the library are added back.
+            </p>
+
+            {result ? (
+              <div className="mt-4 space-y-3">
+                <div className="bg-green-50 border border-green-200 rounded-md p-4">
+                  <p className="text-sm text-green-800">
+                    Created &ldquo;{result.title}&rdquo; with {result.entryCount} item{result.entryCount !== 1 ? 's' : ''}.
+                  </p>
+                </div>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  <li>{result.createdVideos} video{result.createdVideos !== 1 ? 's' : ''} added to the library</li>
+                  {result.skippedVideoIds.length > 0 && (
+                    <li className="text-yellow-700">
+                      {result.skippedVideoIds.length} skipped because they are no longer on YouTube
+                    </li>
+                  )}
+                </ul>
+              </div>
+            ) : (
+              <div className="mt-4 space-y-4">
+                <div>
+                  <label className="flex flex-col items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-md cursor-pointer hover:border-blue-400">
+                    <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                    </svg>
+                    <span className="mt-2 text-sm text-blue-600">
+                      {fileName || 'Choose a .json, .csv or .m3u file'}
+                    </span>
+                    <input
+                      type="file"
+                      accept=".json,.csv,.m3u,.m3u8,application/json,text/csv,audio/x-mpegurl"
+                      onChange={handleFileChange}
+                      disabled={isImporting}
+                      className="sr-only"
+                    />
+                  </label>
+                </div>
+
+                {data && (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      {data.playlist.entries.length} item{data.playlist.entries.length !== 1 ? 's' : ''} found in this file.
+                    </p>
+                    {rejectedRows.length > 0 && (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+                        <p className="text-sm text-yellow-800">
+                          {rejectedRows.length} row{rejectedRows.length !== 1 ? 's' : ''} will be skipped:
+                        </p>
+                        <ul className="mt-1 text-xs text-yellow-700 space-y-0.5 max-h-24 overflow-y-auto">
+                          {rejectedRows.map(row => (
+                            <li key={row}>{row}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <div>
+                      <label htmlFor="import-title" className="block text-sm font-medium text-gray-700 mb-1">
+                        Playlist title
+                      </label>
+                      <input
+                        type="text"
+                        id="import-title"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        disabled={isImporting}
+                        maxLength={100}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {isImporting && processingStep && (
+                  <div className="flex items-center text-sm text-gray-600">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                    {processingStep}
+                  </div>
+                )}
+
+                {error && (
+                  <p className="text-sm text-red-600">{error}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            {!result && (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || !data || !title.trim()}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {isImporting ? 'Importing...' : 'Import Playlist'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isImporting}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              {result ? 'Done' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPlaylistFileModal;
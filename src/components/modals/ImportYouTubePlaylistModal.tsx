@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { importYouTubePlaylist, PlaylistImportResult } from '@/lib/bulkImport';
+import { extractPlaylistId } from '@/lib/youtube';
+
+interface ImportYouTubePlaylistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (playlistId: string) => void;
+}
+
+const ImportYouTubePlaylistModal: React.FC<ImportYouTubePlaylistModalProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const [url, setUrl] = useState('');
+  const [title, setTitle] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [processingStep, setProcessingStep] = useState('');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<PlaylistImportResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setUrl('');
+      setTitle('');
+      setError('');
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!extractPlaylistId(url)) {
+      setError('Enter a YouTube playlist URL (it should contain "list=")');
+      return;
+    }
+
+    setIsImporting(true);
+    setError('');
+    try {
+      const importResult = await importYouTubePlaylist(url, user.uid, {
+        title,
+        onProgress: setProcessingStep,
+      });
+      setResult(importResult);
+      onSuccess(importResult.playlistId);
+    } catch (error) {
+      console.error('Error importing YouTube playlist:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import playlist. Please try again.');
+    } finally {
+      setIsImporting(false);
+      setProcessingStep('');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const countRows = (predicate: (row: PlaylistImportResult['rows'][number]) => boolean) => {
+    return result ? result.rows.filter(predicate).length : 0;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={isImporting ? undefined : onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+              Import from YouTube
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Create a playlist from an existing YouTube playlist. New videos are added to the library with auto-tags.
+            </p>
+
+            {result ? (
+              <div className="mt-4 space-y-3">
+                <div className="bg-green-50 border border-green-200 rounded-md p-4">
+                  <p className="text-sm text-green-800">
+                    Created &ldquo;{result.title}&rdquo; with {countRows(row => !!row.video)} videos.
+                  </p>
+                </div>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  <li>{countRows(row => row.status === 'added')} new videos added to the library</li>
+                  <li>{countRows(row => row.status === 'duplicate')} already in the library or repeated</li>
+                  {countRows(row => row.status === 'not-found') > 0 && (
+                    <li className="text-yellow-700">
+                      {countRows(row => row.status === 'not-found')} skipped because they are private or deleted
+                    </li>
+                  )}
+                  {countRows(row => row.status === 'error' || row.status === 'invalid') > 0 && (
+                    <li className="text-red-600">
+                      {countRows(row => row.status === 'error' || row.status === 'invalid')} could not be imported
+                    </li>
+                  )}
+                </ul>
+              </div>
+            ) : (
+              <form id="import-youtube-playlist-form" onSubmit={handleImport} className="mt-4 space-y-4">
+                <div>
+                  <label htmlFor="playlist-url" className="block text-sm font-medium text-gray-700 mb-1">
+                    YouTube playlist URL
+                  </label>
+                  <input
+                    type="text"
+                    id="playlist-url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    disabled={isImporting}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+                    placeholder="https://www.youtube.com/playlist?list=..."
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="playlist-title" className="block text-sm font-medium text-gray-700 mb-1">
+                    Playlist title (optional)
+                  </label>
+                  <input
+                    type="text"
+                    id="playlist-title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    disabled={isImporting}
+                    maxLength={100}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+                    placeholder="Defaults to the YouTube playlist title"
+                  />
+                </div>
+
+                {isImporting && processingStep && (
+                  <div className="flex items-center text-sm text-gray-600">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                    {processingStep}
+                  </div>
+                )}
+
+                {error && (
+                  <p className="text-sm text-red-600">{error}</p>
+                )}
+              </form>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            {!result && (
+              <button
+                type="submit"
+                form="import-youtube-playlist-form"
+                disabled={isImporting || !url.trim()}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {isImporting ? 'Importing...' : 'Import Playlist'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isImporting}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              {result ? 'Done' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportYouTubePlaylistModal;
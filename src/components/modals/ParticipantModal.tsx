@@ -0,0 +1,421 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { participantSchema } from '@/lib/validation';
+import {
+  AGE_BANDS,
+  GOAL_TAG_CATEGORIES,
+  ParticipantDetails,
+  createGoalId,
+  createParticipant,
+  updateParticipant,
+} from '@/lib/participants';
+import { getAllVideos } from '@/lib/firestore';
+import { getAllTags } from '@/lib/tags';
+import { useAuth } from '@/contexts/AuthContext';
+import { Participant, ParticipantGoal, Tag, Video } from '@/types';
+
+interface ParticipantModalProps {
+  isOpen: boolean;
+  participant?: Participant | null; // edit mode when set
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const defaultValues: ParticipantDetails = {
+  displayName: '',
+  ageBand: '7-12',
+  sensoryNotes: '',
+  favouriteVideoIds: [],
+  goals: [],
+};
+
+const ParticipantModal: React.FC<ParticipantModalProps> = ({
+  isOpen,
+  participant,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [goalTags, setGoalTags] = useState<Tag[]>([]);
+  const [videoQuery, setVideoQuery] = useState('');
+  const [newGoal, setNewGoal] = useState('');
+  const isEditing = !!participant;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<ParticipantDetails>({
+    resolver: zodResolver(participantSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    reset(participant ? {
+      displayName: participant.displayName,
+      ageBand: participant.ageBand,
+      sensoryNotes: participant.sensoryNotes,
+      favouriteVideoIds: participant.favouriteVideoIds,
+      goals: participant.goals,
+    } : defaultValues);
+    setVideoQuery('');
+    setNewGoal('');
+  }, [isOpen, participant, reset]);
+
+  useEffect(() => {
+    if (isOpen && videos.length === 0) {
+      getAllVideos().then(setVideos);
+      getAllTags().then(tags => setGoalTags(tags.filter(tag => GOAL_TAG_CATEGORIES.includes(tag.category))));
+    }
+  }, [isOpen]);
+
+  const goals = watch('goals');
+  const favouriteVideoIds = watch('favouriteVideoIds');
+
+  const addGoal = () => {
+    const description = newGoal.trim();
+    if (!description) return;
+
+    setValue('goals', [...goals, { id: createGoalId(), description }], { shouldValidate: true });
+    setNewGoal('');
+  };
+
+  const removeGoal = (goalId: string) => {
+    setValue('goals', goals.filter(goal => goal.id !== goalId), { shouldValidate: true });
+  };
+
+  const updateGoal = (goalId: string, update: (goal: ParticipantGoal) => ParticipantGoal) => {
+    setValue('goals', goals.map(goal => goal.id === goalId ? update(goal) : goal), { shouldValidate: true });
+  };
+
+  // Firestore rejects undefined, so a cleared target is removed rather than unset
+  const setGoalTarget = (goalId: string, value: string) => {
+    const target = parseInt(value, 10);
+    updateGoal(goalId, goal => {
+      const updated = { ...goal };
+      delete updated.target;
+      return Number.isNaN(target) ? updated : { ...updated, target };
+    });
+  };
+
+  const toggleGoalTag = (goalId: string, tagName: string) => {
+    updateGoal(goalId, goal => {
+      const tags = goal.tags || [];
+      return {
+        ...goal,
+        tags: tags.includes(tagName) ? tags.filter(tag => tag !== tagName) : [...tags, tagName],
+      };
+    });
+  };
+
+  const toggleFavourite = (videoId: string) => {
+    const updated = favouriteVideoIds.includes(videoId)
+      ? favouriteVideoIds.filter(id => id !== videoId)
+      : [...favouriteVideoIds, videoId];
+    setValue('favouriteVideoIds', updated, { shouldValidate: true });
+  };
+
+  const favouriteVideos = favouriteVideoIds
+    .map(videoId => videos.find(video => video.videoId === videoId))
+    .filter((video): video is Video => !!video);
+  const videoMatches = videoQuery.trim()
+    ? videos
+        .filter(video => !favouriteVideoIds.includes(video.videoId))
+        .filter(video => video.title.toLowerCase().includes(videoQuery.trim().toLowerCase()))
+        .slice(0, 6)
+    : [];
+
+  const onSubmit = async (data: ParticipantDetails) => {
+    if (!user) return;
+
+    setIsSubmitting(true);
+    try {
+      if (participant) {
+        await updateParticipant(participant.id, data);
+      } else {
+        await createParticipant(user.uid, data);
+      }
+
+      reset(defaultValues);
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving participant:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    reset(defaultValues);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={handleClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 space-y-4">
+              <div>
+                <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+                  {isEditing ? 'Edit Participant' : 'Add Participant'}
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Only you can see this profile. Use a pseudonym if you prefer not to store names.
+                </p>
+              </div>
+
+              {/* Name and age band */}
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label htmlFor="displayName" className="block text-sm font-medium text-gray-700">
+                    Name or Pseudonym <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    id="displayName"
+                    {...register('displayName')}
+                    className={`mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-500 ${
+                      errors.displayName ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : ''
+                    }`}
+                    placeholder="e.g. Sam or Blue Group 1"
+                    aria-describedby={errors.displayName ? 'displayName-error' : undefined}
+                  />
+                  {errors.displayName && (
+                    <p className="mt-2 text-sm text-red-600" id="displayName-error">
+                      {errors.displayName.message}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="ageBand" className="block text-sm font-medium text-gray-700">
+                    Age
+                  </label>
+                  <select
+                    id="ageBand"
+                    {...register('ageBand')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                  >
+                    {AGE_BANDS.map(band => (
+                      <option key={band.value} value={band.value}>{band.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Sensory notes */}
+              <div>
+                <label htmlFor="sensoryNotes" className="block text-sm font-medium text-gray-700">
+                  Sensory Notes
+                </label>
+                <textarea
+                  id="sensoryNotes"
+                  rows={3}
+                  {...register('sensoryNotes')}
+                  className={`mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-500 ${
+                    errors.sensoryNotes ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : ''
+                  }`}
+                  placeholder="e.g. Sensitive to sudden loud sounds; prefers dim lighting"
+                />
+                {errors.sensoryNotes && (
+                  <p className="mt-2 text-sm text-red-600">{errors.sensoryNotes.message}</p>
+                )}
+              </div>
+
+              {/* Goals */}
+              <div>
+                <label htmlFor="newGoal" className="block text-sm font-medium text-gray-700">
+                  Goals
+                </label>
+                {goals.length > 0 && (
+                  <ul className="mt-1 space-y-1">
+                    {goals.map(goal => (
+                      <li key={goal.id} className="px-3 py-1.5 bg-gray-50 rounded-md text-sm text-gray-700">
+                        <div className="flex items-center justify-between">
+                          <span className="truncate">{goal.description}</span>
+                          <div className="flex items-center flex-shrink-0 ml-2">
+                            <input
+                              type="number"
+                              min={1}
+                              value={goal.target ?? ''}
+                              onChange={(e) => setGoalTarget(goal.id, e.target.value)}
+                              className="w-20 border-gray-300 rounded-md text-xs text-gray-900 placeholder-gray-500 focus:ring-blue-500 focus:border-blue-500"
+                              placeholder="Target"
+                              aria-label={`Target for ${goal.description}`}
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeGoal(goal.id)}
+                              className="ml-2 text-gray-400 hover:text-red-600"
+                              aria-label={`Remove goal ${goal.description}`}
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                            </button>
+                          </div>
+                        </div>
+                        {goalTags.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {goalTags.map(tag => {
+                              const isLinked = goal.tags?.includes(tag.name);
+                              return (
+                                <button
+                                  key={tag.id}
+                                  type="button"
+                                  onClick={() => toggleGoalTag(goal.id, tag.name)}
+                                  aria-pressed={isLinked}
+                                  className={`px-2 py-0.5 rounded-full text-xs ${
+                                    isLinked ? 'bg-blue-100 text-blue-800' : 'bg-white text-gray-500 border border-gray-200 hover:border-gray-300'
+                                  }`}
+                                >
+                                  {tag.name}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="mt-1 flex space-x-2">
+                  <input
+                    type="text"
+                    id="newGoal"
+                    value={newGoal}
+                    onChange={(e) => setNewGoal(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addGoal();
+                      }
+                    }}
+                    maxLength={200}
+                    className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-500"
+                    placeholder="e.g. Plays on cue 3 times"
+                  />
+                  <button
+                    type="button"
+                    onClick={addGoal}
+                    disabled={!newGoal.trim()}
+                    className="px-3 py-2 text-sm font-medium text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+                {goalTags.length > 0 && goals.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Link activity or difficulty tags to a goal and recommended playlists will favour them.
+                  </p>
+                )}
+                {errors.goals && (
+                  <p className="mt-2 text-sm text-red-600">
+                    {errors.goals.message || "Check each goal's target and tags"}
+                  </p>
+                )}
+              </div>
+
+              {/* Favourite videos */}
+              <div>
+                <label htmlFor="videoQuery" className="block text-sm font-medium text-gray-700">
+                  Favourite Videos
+                </label>
+                {favouriteVideos.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {favouriteVideos.map(video => (
+                      <span
+                        key={video.videoId}
+                        className="inline-flex items-center max-w-full px-2 py-1 bg-pink-50 text-pink-800 rounded-full text-xs"
+                      >
+                        <span className="truncate">{video.title}</span>
+                        <button
+                          type="button"
+                          onClick={() => toggleFavourite(video.videoId)}
+                          className="ml-1 text-pink-400 hover:text-pink-700"
+                          aria-label={`Remove ${video.title}`}
+                        >
+                          &times;
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <input
+                  type="text"
+                  id="videoQuery"
+                  value={videoQuery}
+                  onChange={(e) => setVideoQuery(e.target.value)}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-500"
+                  placeholder="Search the video library to add a favourite"
+                />
+                {videoMatches.length > 0 && (
+                  <ul className="mt-1 border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {videoMatches.map(video => (
+                      <li key={video.videoId}>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            toggleFavourite(video.videoId);
+                            setVideoQuery('');
+                          }}
+                          className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 truncate"
+                        >
+                          {video.title}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {errors.favouriteVideoIds && (
+                  <p className="mt-2 text-sm text-red-600">{errors.favouriteVideoIds.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Participant'}
+              </button>
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isSubmitting}
+                className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantModal;
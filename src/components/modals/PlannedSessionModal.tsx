@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { PlannedSessionFormData, plannedSessionSchema } from '@/lib/validation';
+import {
+  PlannedSessionDetails,
+  RECURRENCE_OPTIONS,
+  createPlannedSession,
+  updatePlannedSession,
+} from '@/lib/schedule';
+import { toDateInputValue } from '@/lib/progressReports';
+import { useAuth } from '@/contexts/AuthContext';
+import { Participant, PlannedSession, Playlist, TubeInventory } from '@/types';
+
+interface PlannedSessionModalProps {
+  isOpen: boolean;
+  plannedSession?: PlannedSession | null; // edit mode when set
+  defaultDate?: string; // YYYY-MM-DD for new entries
+  playlists: Playlist[];
+  participants: Participant[];
+  venues: TubeInventory[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const getDefaultValues = (startDate: string): PlannedSessionFormData => ({
+  playlistId: '',
+  participantIds: [],
+  venueId: '',
+  startDate,
+  time: '10:00',
+  durationMinutes: 45,
+  recurrence: 'none',
+  endDate: '',
+  notes: '',
+});
+
+const PlannedSessionModal: React.FC<PlannedSessionModalProps> = ({
+  isOpen,
+  plannedSession,
+  defaultDate,
+  playlists,
+  participants,
+  venues,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isEditing = !!plannedSession;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<PlannedSessionFormData>({
+    resolver: zodResolver(plannedSessionSchema),
+    defaultValues: getDefaultValues(toDateInputValue(new Date())),
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    reset(plannedSession ? {
+      playlistId: plannedSession.playlistId,
+      participantIds: plannedSession.participantIds,
+      venueId: plannedSession.venueId || '',
+      startDate: plannedSession.startDate,
+      time: plannedSession.time,
+      durationMinutes: plannedSession.durationMinutes,
+      recurrence: plannedSession.recurrence,
+      endDate: plannedSession.endDate || '',
+      notes: plannedSession.notes || '',
+    } : getDefaultValues(defaultDate || toDateInputValue(new Date())));
+  }, [isOpen, plannedSession, defaultDate, reset]);
+
+  const recurrence = watch('recurrence');
+  const participantIds = watch('participantIds');
+
+  const toggleParticipant = (participantId: string) => {
+    const updated = participantIds.includes(participantId)
+      ? participantIds.filter(id => id !== participantId)
+      : [...participantIds, participantId];
+    setValue('participantIds', updated, { shouldValidate: true });
+  };
+
+  const onSubmit = async (data: PlannedSessionFormData) => {
+    if (!user) return;
+
+    // Firestore rejects undefined, so blank optional fields are left out
+    const details: PlannedSessionDetails = {
+      playlistId: data.playlistId,
+      participantIds: data.participantIds,
+      startDate: data.startDate,
+      time: data.time,
+      durationMinutes: data.durationMinutes,
+      recurrence: data.recurrence,
+      ...(data.venueId ? { venueId: data.venueId } : {}),
+      ...(data.recurrence !== 'none' && data.endDate ? { endDate: data.endDate } : {}),
+      ...(data.notes.trim() ? { notes: data.notes.trim() } : {}),
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (plannedSession) {
+        await updatePlannedSession(plannedSession.id, details);
+      } else {
+        await createPlannedSession(user.uid, details);
+      }
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving planned session:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 space-y-4">
+              <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+                {isEditing ? 'Edit Planned Session' : 'Plan a Session'}
+              </h3>
+
+              {/* Playlist */}
+              <div>
+                <label htmlFor="playlistId" className="block text-sm font-medium text-gray-700">
+                  Playlist <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="playlistId"
+                  {...register('playlistId')}
+                  className={`mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 ${
+                    errors.playlistId ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : ''
+                  }`}
+                >
+                  <option value="">Choose a playlist</option>
+                  {playlists.map(playlist => (
+                    <option key={playlist.id} value={playlist.id}>{playlist.title}</option>
+                  ))}
+                </select>
+                {errors.playlistId && (
+                  <p className="mt-2 text-sm text-red-600">{errors.playlistId.message}</p>
+                )}
+              </div>
+
+              {/* Date, time and length */}
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">Date</label>
+                  <input
+                    type="date"
+                    id="startDate"
+                    {...register('startDate')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                  />
+                  {errors.startDate && (
+                    <p className="mt-2 text-sm text-red-600">{errors.startDate.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="time" className="block text-sm font-medium text-gray-700">Time</label>
+                  <input
+                    type="time"
+                    id="time"
+                    {...register('time')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                  />
+                  {errors.time && (
+                    <p className="mt-2 text-sm text-red-600">{errors.time.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="durationMinutes" className="block text-sm font-medium text-gray-700">Minutes</label>
+                  <input
+                    type="number"
+                    id="durationMinutes"
+                    min={5}
+                    step={5}
+                    {...register('durationMinutes', { valueAsNumber: true })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                  />
+                  {errors.durationMinutes && (
+                    <p className="mt-2 text-sm text-red-600">{errors.durationMinutes.message}</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Recurrence */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="recurrence" className="block text-sm font-medium text-gray-700">Repeats</label>
+                  <select
+                    id="recurrence"
+                    {...register('recurrence')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                  >
+                    {RECURRENCE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {recurrence !== 'none' && (
+                  <div>
+                    <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">Until</label>
+                    <input
+                      type="date"
+                      id="endDate"
+                      {...register('endDate')}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                    />
+                    {errors.endDate ? (
+                      <p className="mt-2 text-sm text-red-600">{errors.endDate.message}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-gray-500">Leave blank to repeat indefinitely</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Venue */}
+              <div>
+                <label htmlFor="venueId" className="block text-sm font-medium text-gray-700">Venue</label>
+                <select
+                  id="venueId"
+                  {...register('venueId')}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                >
+                  <option value="">No venue</option>
+                  {venues.map(venue => (
+                    <option key={venue.id} value={venue.id}>{venue.name}</option>
+                  ))}
+                </select>
+                {venues.length === 0 && (
+                  <p className="mt-1 text-xs text-gray-500">Add venues and their tubes in Settings.</p>
+                )}
+              </div>
+
+              {/* Participants */}
+              {participants.length > 0 && (
+                <div>
+                  <span className="block text-sm font-medium text-gray-700">Participants</span>
+                  <div className="mt-1 grid grid-cols-2 gap-2">
+                    {participants.map(participant => (
+                      <label key={participant.id} className="flex items-center text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={participantIds.includes(participant.id)}
+                          onChange={() => toggleParticipant(participant.id)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <span className="ml-2 truncate">{participant.displayName}</span>
+                      </label>
+                    ))}
+                  </div>
+                  {errors.participantIds && (
+                    <p className="mt-2 text-sm text-red-600">{errors.participantIds.message}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Notes */}
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700">Notes</label>
+                <textarea
+                  id="notes"
+                  rows={2}
+                  {...register('notes')}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-500"
+                  placeholder="e.g. Bring the pentatonic set"
+                />
+                {errors.notes && (
+                  <p className="mt-2 text-sm text-red-600">{errors.notes.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Plan Session'}
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlannedSessionModal;
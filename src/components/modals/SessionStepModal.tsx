@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { SessionStep, SessionStepType } from '@/types';
+import { sessionStepSchema } from '@/lib/validation';
+import { formatTimeOffset, parseTimeOffset } from '@/lib/youtube';
+import { SESSION_STEP_TYPES, DEFAULT_STEP_DURATION_SECONDS } from '@/lib/sessionSteps';
+
+interface SessionStepModalProps {
+  isOpen: boolean;
+  step?: SessionStep | null; // set when editing an existing step
+  onClose: () => void;
+  onSave: (step: SessionStep) => void;
+}
+
+const SessionStepModal: React.FC<SessionStepModalProps> = ({
+  isOpen,
+  step,
+  onClose,
+  onSave,
+}) => {
+  const [type, setType] = useState<SessionStepType>('instruction');
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  const [duration, setDuration] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setType(step?.type || 'instruction');
+      setTitle(step?.title || '');
+      setText(step?.text || '');
+      setImageUrl(step?.imageUrl || '');
+      setDuration(step?.durationSeconds !== undefined ? formatTimeOffset(step.durationSeconds) : '');
+      setError(null);
+    }
+  }, [isOpen, step]);
+
+  const handleTypeChange = (newType: SessionStepType) => {
+    setType(newType);
+    if ((newType === 'timer' || newType === 'pause') && !duration.trim()) {
+      setDuration(formatTimeOffset(DEFAULT_STEP_DURATION_SECONDS));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const durationSeconds = duration.trim() ? parseTimeOffset(duration) : undefined;
+    if (durationSeconds === null) {
+      setError('Use a duration like 2:00');
+      return;
+    }
+
+    const result = sessionStepSchema.safeParse({
+      type,
+      title,
+      ...(text.trim() ? { text: text.trim() } : {}),
+      ...(type === 'picture' && imageUrl.trim() ? { imageUrl: imageUrl.trim() } : {}),
+      ...(durationSeconds !== undefined ? { durationSeconds } : {}),
+    });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message || 'Invalid step');
+      return;
+    }
+
+    onSave(result.data);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <form
+          onSubmit={handleSubmit}
+          className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full"
+        >
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 space-y-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+              {step ? 'Edit Step' : 'Add Step'}
+            </h3>
+
+            <div className="grid grid-cols-2 gap-2">
+              {SESSION_STEP_TYPES.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => handleTypeChange(option.value)}
+                  className={`p-3 border rounded-md text-left ${
+                    type === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <label htmlFor="step-title" className="block text-sm font-medium text-gray-700 mb-1">
+                Title
+              </label>
+              <input
+                id="step-title"
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={100}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+                placeholder={type === 'pause' ? 'Breathe in, breathe out' : type === 'timer' ? 'Free play' : 'Hand out the boomwhackers'}
+              />
+            </div>
+
+            {type === 'picture' && (
+              <div>
+                <label htmlFor="step-image" className="block text-sm font-medium text-gray-700 mb-1">
+                  Image URL
+                </label>
+                <input
+                  id="step-image"
+                  type="url"
+                  value={imageUrl}
+                  onChange={(e) => setImageUrl(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+                  placeholder="https://..."
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="step-text" className="block text-sm font-medium text-gray-700 mb-1">
+                {type === 'picture' ? 'Caption (optional)' : 'Text (optional)'}
+              </label>
+              <textarea
+                id="step-text"
+                rows={3}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                maxLength={500}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="step-duration" className="block text-sm font-medium text-gray-700 mb-1">
+                Duration{type === 'timer' || type === 'pause' ? '' : ' (optional)'}
+              </label>
+              <input
+                id="step-duration"
+                type="text"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+                placeholder="2:00"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {type === 'timer' || type === 'pause'
+                  ? 'The session moves on when the countdown ends.'
+                  : 'Leave empty to wait until you press Next.'}
+              </p>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="submit"
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              {step ? 'Save Step' : 'Add Step'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SessionStepModal;
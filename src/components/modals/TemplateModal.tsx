@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { templateSchema } from '@/lib/validation';
+import {
+  createTemplateFromPlaylist,
+  updateTemplate,
+  TemplateDetails,
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_DIFFICULTIES,
+} from '@/lib/templates';
+import { useAuth } from '@/contexts/AuthContext';
+import { Playlist, TemplatePlaylist } from '@/types';
+
+interface TemplateModalProps {
+  isOpen: boolean;
+  template?: TemplatePlaylist | null; // edit mode when set
+  playlists?: Playlist[]; // playlists a new template can be created from
+  initialPlaylistId?: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const defaultValues: TemplateDetails = {
+  title: '',
+  description: '',
+  category: 'warmup',
+  difficulty: 'beginner',
+  isPublic: true,
+};
+
+const TemplateModal: React.FC<TemplateModalProps> = ({
+  isOpen,
+  template,
+  playlists = [],
+  initialPlaylistId,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sourcePlaylistId, setSourcePlaylistId] = useState('');
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const isEditing = !!template;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<TemplateDetails>({
+    resolver: zodResolver(templateSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (template) {
+      reset({
+        title: template.title,
+        description: template.description,
+        category: template.category,
+        difficulty: template.difficulty,
+        isPublic: template.isPublic,
+      });
+    } else {
+      const sourcePlaylist = playlists.find(p => p.id === initialPlaylistId);
+      reset({
+        ...defaultValues,
+        title: sourcePlaylist?.title || '',
+        description: sourcePlaylist?.notes || '',
+      });
+      setSourcePlaylistId(initialPlaylistId || '');
+    }
+    setSourceError(null);
+  }, [isOpen, template, initialPlaylistId, playlists, reset]);
+
+  const onSubmit = async (data: TemplateDetails) => {
+    if (!user) return;
+
+    if (!isEditing && !sourcePlaylistId) {
+      setSourceError('Choose a playlist to base this template on');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (template) {
+        await updateTemplate(template.id, data);
+      } else {
+        const sourcePlaylist = playlists.find(p => p.id === sourcePlaylistId);
+        if (!sourcePlaylist) return;
+        await createTemplateFromPlaylist(sourcePlaylist, data, user.uid);
+      }
+
+      reset(defaultValues);
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving template:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    reset(defaultValues);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={handleClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+              <div className="sm:flex sm:items-start">
+                <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-orange-100 sm:mx-0 sm:h-10 sm:w-10">
+                  <svg className="h-6 w-6 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                  </svg>
+                </div>
+                <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left flex-1">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+                    {isEditing ? 'Edit Template' : 'Create Template'}
+                  </h3>
+                  <div className="mt-4 space-y-4">
+                    {/* Source playlist */}
+                    {!isEditing && (
+                      <div>
+                        <label htmlFor="sourcePlaylist" className="block text-sm font-medium text-gray-700">
+                          Based on Playlist <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                          id="sourcePlaylist"
+                          value={sourcePlaylistId}
+                          onChange={(e) => {
+                            setSourcePlaylistId(e.target.value);
+                            setSourceError(null);
+                          }}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                        >
+                          <option value="">Select a playlist</option>
+                          {playlists.map(playlist => (
+                            <option key={playlist.id} value={playlist.id}>
+                              {playlist.title} ({playlist.videoRefs.length} videos)
+                            </option>
+                          ))}
+                        </select>
+                        {sourceError && (
+                          <p className="mt-2 text-sm text-red-600">{sourceError}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Title field */}
+                    <div>
+                      <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+                        Template Title <span className="text-red-500">*</span>
+                      </label>
+                      <input
+                        type="text"
+                        id="title"
+                        {...register('title')}
+                        className={`mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-500 ${
+                          errors.title ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : ''
+                        }`}
+                        placeholder="e.g. Monday Warmup Routine"
+                        aria-describedby={errors.title ? 'title-error' : undefined}
+                      />
+                      {errors.title && (
+                        <p className="mt-2 text-sm text-red-600" id="title-error">
+                          {errors.title.message}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Description field */}
+                    <div>
+                      <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                        Description
+                      </label>
+                      <textarea
+                        id="description"
+                        rows={3}
+                        {...register('description')}
+                        className={`mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 placeholder-gray-500 ${
+                          errors.description ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : ''
+                        }`}
+                        placeholder="When and how to use this template"
+                        aria-describedby={errors.description ? 'description-error' : undefined}
+                      />
+                      {errors.description && (
+                        <p className="mt-2 text-sm text-red-600" id="description-error">
+                          {errors.description.message}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Category and difficulty */}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                          Category
+                        </label>
+                        <select
+                          id="category"
+                          {...register('category')}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                        >
+                          {TEMPLATE_CATEGORIES.map(category => (
+                            <option key={category.value} value={category.value}>
+                              {category.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="difficulty" className="block text-sm font-medium text-gray-700">
+                          Difficulty
+                        </label>
+                        <select
+                          id="difficulty"
+                          {...register('difficulty')}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900"
+                        >
+                          {TEMPLATE_DIFFICULTIES.map(difficulty => (
+                            <option key={difficulty.value} value={difficulty.value}>
+                              {difficulty.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    {/* Visibility */}
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        {...register('isPublic')}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Share with the whole team</span>
+                    </label>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Action buttons */}
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Saving...' : isEditing ? 'Update Template' : 'Create Template'}
+              </button>
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isSubmitting}
+                className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateModal;
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { BoomwhackerNote, Video } from '@/types';
+import { setVideoBoomwhackerNotes } from '@/lib/firestore';
+import {
+  BOOMWHACKER_NOTES,
+  DIATONIC_NOTES,
+  COLOUR_SCHEMES,
+  ColourSchemeId,
+  DEFAULT_COLOUR_SCHEME_ID,
+  getColourScheme,
+  getNoteTextColour,
+  sortNotes,
+} from '@/lib/boomwhackers';
+
+interface VideoNotesModalProps {
+  isOpen: boolean;
+  video: Video | null;
+  onClose: () => void;
+  onSaved: (video: Video) => void;
+}
+
+const VideoNotesModal: React.FC<VideoNotesModalProps> = ({
+  isOpen,
+  video,
+  onClose,
+  onSaved,
+}) => {
+  const [notes, setNotes] = useState<BoomwhackerNote[]>([]);
+  const [needsOctavators, setNeedsOctavators] = useState(false);
+  const [schemeId, setSchemeId] = useState<ColourSchemeId>(DEFAULT_COLOUR_SCHEME_ID);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && video) {
+      setNotes(video.boomwhackerNotes || []);
+      setNeedsOctavators(!!video.needsOctavators);
+      setError(null);
+    }
+  }, [isOpen, video]);
+
+  const scheme = getColourScheme(schemeId);
+
+  const toggleNote = (note: BoomwhackerNote) => {
+    setNotes(prev => prev.includes(note) ? prev.filter(n => n !== note) : sortNotes([...prev, note]));
+  };
+
+  const handleSave = async () => {
+    if (!video) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await setVideoBoomwhackerNotes(video.videoId, notes, needsOctavators);
+      onSaved({ ...video, boomwhackerNotes: notes, needsOctavators });
+      onClose();
+    } catch (error) {
+      setError('Failed to save notes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen || !video) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={isSaving ? undefined : onClose}
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 space-y-4">
+            <div>
+              <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+                Colour Notes
+              </h3>
+              <p className="mt-1 text-sm text-gray-500 line-clamp-2">
+                Pick the notes played in &ldquo;{video.title}&rdquo;. They are shown as colours during sessions.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-7 gap-2">
+              {BOOMWHACKER_NOTES.map(note => {
+                const isActive = notes.includes(note);
+                const colour = scheme.colours[note];
+                return (
+                  <button
+                    key={note}
+                    type="button"
+                    onClick={() => toggleNote(note)}
+                    aria-pressed={isActive}
+                    className={`h-12 rounded-md text-sm font-semibold border-2 transition-opacity ${
+                      isActive ? 'border-gray-900' : 'border-transparent opacity-30 hover:opacity-60'
+                    }`}
+                    style={{ backgroundColor: colour, color: getNoteTextColour(colour) }}
+                  >
+                    {note}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-x-3 text-sm">
+                <button
+                  type="button"
+                  onClick={() => setNotes(DIATONIC_NOTES)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Full diatonic set
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setNotes([])}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Clear
+                </button>
+              </div>
+              <select
+                value={schemeId}
+                onChange={(e) => setSchemeId(e.target.value as ColourSchemeId)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Colour chart"
+              >
+                {COLOUR_SCHEMES.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={needsOctavators}
+                onChange={(e) => setNeedsOctavators(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Needs octavator caps for low notes</span>
+            </label>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Notes'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoNotesModal;
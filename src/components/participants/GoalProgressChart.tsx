@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+import { GoalProgressSeries } from '@/lib/progressReports';
+
+interface GoalProgressChartProps {
+  series: GoalProgressSeries;
+}
+
+const CHART_HEIGHT_PX = 96;
+
+// One bar per session where progress was recorded, scaled so the target sits at a fixed line
+const GoalProgressChart: React.FC<GoalProgressChartProps> = ({ series }) => {
+  const { goal, points } = series;
+  const maxValue = Math.max(goal.target || 0, ...points.map(point => point.value), 1);
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="print-avoid-break">
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">{goal.description}</h3>
+        <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+          {latest
+            ? `Latest ${latest.value}${goal.target !== undefined ? ` of ${goal.target}` : ''}`
+            : 'No progress recorded'}
+        </span>
+      </div>
+
+      {points.length > 0 && (
+        <div className="relative border-b border-gray-200" style={{ height: CHART_HEIGHT_PX }}>
+          {goal.target !== undefined && (
+            <div
+              className="absolute inset-x-0 border-t border-dashed border-green-500"
+              style={{ bottom: (goal.target / maxValue) * CHART_HEIGHT_PX }}
+              aria-hidden="true"
+            />
+          )}
+          <div className="absolute inset-0 flex items-end gap-1">
+            {points.map(point => (
+              <div
+                key={point.sessionId}
+                className={`flex-1 max-w-[2.5rem] rounded-t print-exact ${
+                  goal.target !== undefined && point.value >= goal.target ? 'bg-green-500' : 'bg-blue-500'
+                }`}
+                style={{ height: Math.max((point.value / maxValue) * CHART_HEIGHT_PX, 2) }}
+                title={`${new Date(point.startTime).toLocaleDateString()}: ${point.value}`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {points.length > 1 && (
+        <div className="flex justify-between mt-1 text-xs text-gray-500">
+          <span>{new Date(points[0].startTime).toLocaleDateString()}</span>
+          <span>{new Date(latest.startTime).toLocaleDateString()}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalProgressChart;
@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Participant } from '@/types';
+import { getAgeBandLabel } from '@/lib/participants';
+
+interface ParticipantCardProps {
+  participant: Participant;
+  onEdit?: (participant: Participant) => void;
+  onDelete?: (participant: Participant) => void;
+}
+
+const ParticipantCard: React.FC<ParticipantCardProps> = ({ participant, onEdit, onDelete }) => {
+  const favouriteCount = participant.favouriteVideoIds.length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 hover:border-gray-300 transition-all duration-200 flex flex-col">
+      <div className="p-4 flex-1">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-900 truncate" title={participant.displayName}>
+            {participant.displayName}
+          </h3>
+          <span className="flex-shrink-0 ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">
+            {getAgeBandLabel(participant.ageBand)}
+          </span>
+        </div>
+
+        {participant.sensoryNotes && (
+          <p className="text-xs text-gray-500 line-clamp-3 mb-3" title={participant.sensoryNotes}>
+            {participant.sensoryNotes}
+          </p>
+        )}
+
+        {participant.goals.length > 0 && (
+          <ul className="space-y-1 mb-3">
+            {participant.goals.slice(0, 3).map(goal => (
+              <li key={goal.id} className="flex items-start text-xs text-gray-700">
+                <svg className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span className="line-clamp-1">{goal.description}</span>
+                {goal.target !== undefined && (
+                  <span className="ml-1 flex-shrink-0 text-gray-400">(target {goal.target})</span>
+                )}
+              </li>
+            ))}
+            {participant.goals.length > 3 && (
+              <li className="text-xs text-gray-500">+{participant.goals.length - 3} more</li>
+            )}
+          </ul>
+        )}
+
+        <div className="text-xs text-gray-500">
+          {favouriteCount === 1 ? '1 favourite video' : `${favouriteCount} favourite videos`}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="px-4 py-3 border-t border-gray-100 flex items-center space-x-2">
+        <Link
+          href={`/participants/${participant.id}/report`}
+          className="mr-auto inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+        >
+          <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          Progress report
+        </Link>
+        {onEdit && (
+          <button
+            onClick={() => onEdit(participant)}
+            className="p-1 text-gray-400 hover:text-gray-600 focus:outline-none"
+            title="Edit participant"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+          </button>
+        )}
+        {onDelete && (
+          <button
+            onClick={() => onDelete(participant)}
+            className="p-1 text-red-400 hover:text-red-600 focus:outline-none"
+            title="Delete participant"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantCard;
@@ -0,0 +1,197 @@
+'use client';
+
+import React from 'react';
+import { Participant } from '@/types';
+import { ProgressReport } from '@/lib/progressReports';
+import { getAgeBandLabel } from '@/lib/participants';
+import { getStepTypeLabel } from '@/lib/sessionSteps';
+import GoalProgressChart from './GoalProgressChart';
+
+interface ProgressReportViewProps {
+  participant: Participant;
+  report: ProgressReport;
+  preparedBy: string;
+  videoTitles: Record<string, string>;
+  playlistTitles: Record<string, string>;
+}
+
+const formatDate = (value: string): string => {
+  // Date-only strings are local calendar days; full timestamps are already instants
+  const date = value.length === 10 ? new Date(`${value}T00:00:00`) : new Date(value);
+  return date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const ProgressReportView: React.FC<ProgressReportViewProps> = ({
+  participant,
+  report,
+  preparedBy,
+  videoTitles,
+  playlistTitles,
+}) => {
+  return (
+    <article className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 space-y-8 print:shadow-none print:border-0 print:p-0 print:rounded-none">
+      {/* Report Header */}
+      <header className="border-b border-gray-200 pb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Progress Report</h1>
+        <dl className="mt-4 grid grid-cols-2 gap-x-8 gap-y-2 text-sm">
+          <div className="flex">
+            <dt className="w-28 text-gray-500">Participant</dt>
+            <dd className="font-medium text-gray-900">{participant.displayName}</dd>
+          </div>
+          <div className="flex">
+            <dt className="w-28 text-gray-500">Age</dt>
+            <dd className="text-gray-900">{getAgeBandLabel(participant.ageBand)}</dd>
+          </div>
+          <div className="flex">
+            <dt className="w-28 text-gray-500">Period</dt>
+            <dd className="text-gray-900">{formatDate(report.from)} – {formatDate(report.to)}</dd>
+          </div>
+          <div className="flex">
+            <dt className="w-28 text-gray-500">Prepared by</dt>
+            <dd className="text-gray-900">{preparedBy}</dd>
+          </div>
+        </dl>
+      </header>
+
+      {/* Summary */}
+      <section className="print-avoid-break">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Summary</h2>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="border border-gray-200 rounded-lg p-4">
+            <p className="text-sm text-gray-600">Sessions</p>
+            <p className="text-2xl font-bold text-gray-900">{report.sessionCount}</p>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-4">
+            <p className="text-sm text-gray-600">Total minutes</p>
+            <p className="text-2xl font-bold text-gray-900">{report.totalMinutes}</p>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-4">
+            <p className="text-sm text-gray-600">Average completion</p>
+            <p className="text-2xl font-bold text-gray-900">{report.averageCompletion}%</p>
+          </div>
+        </div>
+      </section>
+
+      {report.sessionCount === 0 ? (
+        <p className="text-sm text-gray-600">
+          No sessions were recorded for {participant.displayName} in this period.
+        </p>
+      ) : (
+        <>
+          {/* Goals */}
+          {report.goals.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Goal progress</h2>
+              <div className="space-y-6">
+                {report.goals.map(series => (
+                  <GoalProgressChart key={series.goal.id} series={series} />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Completion Trend */}
+          <section className="print-avoid-break">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Completion by week</h2>
+            <div className="space-y-2">
+              {report.trend.map(point => (
+                <div key={point.weekStart} className="flex items-center text-sm">
+                  <span className="w-32 flex-shrink-0 text-gray-600">{formatDate(point.weekStart)}</span>
+                  <div className="flex-1 h-4 bg-gray-100 rounded print-exact">
+                    <div
+                      className="h-4 bg-blue-500 rounded print-exact"
+                      style={{ width: `${point.averageCompletion}%` }}
+                    />
+                  </div>
+                  <span className="w-40 flex-shrink-0 pl-3 text-gray-700">
+                    {point.averageCompletion}% · {point.sessionCount} session{point.sessionCount !== 1 ? 's' : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Activities */}
+          <section className="print-avoid-break">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Activities</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-500">
+                  <th className="py-2 font-medium">Playlist or step</th>
+                  <th className="py-2 font-medium w-32">Type</th>
+                  <th className="py-2 font-medium w-24 text-right">Times</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.playlists.map(playlist => (
+                  <tr key={playlist.playlistId}>
+                    <td className="py-2 text-gray-900">{playlistTitles[playlist.playlistId] || 'Deleted playlist'}</td>
+                    <td className="py-2 text-gray-600">Playlist</td>
+                    <td className="py-2 text-gray-900 text-right">{playlist.sessionCount}</td>
+                  </tr>
+                ))}
+                {report.activities.map(activity => (
+                  <tr key={`${activity.type}:${activity.title}`}>
+                    <td className="py-2 text-gray-900">{activity.title}</td>
+                    <td className="py-2 text-gray-600">{getStepTypeLabel(activity.type)}</td>
+                    <td className="py-2 text-gray-900 text-right">{activity.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* Videos */}
+          {report.videos.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Videos used</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 font-medium">Video</th>
+                    <th className="py-2 font-medium w-20 text-right">Plays</th>
+                    <th className="py-2 font-medium w-20 text-right">Skipped</th>
+                    <th className="py-2 font-medium w-28 text-right">Completion</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.videos.map(video => (
+                    <tr key={video.videoId} className="print-avoid-break">
+                      <td className="py-2 text-gray-900">{videoTitles[video.videoId] || video.videoId}</td>
+                      <td className="py-2 text-gray-900 text-right">{video.plays}</td>
+                      <td className="py-2 text-gray-900 text-right">{video.skips}</td>
+                      <td className="py-2 text-gray-900 text-right">{video.averageCompletion}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* Session Notes */}
+          <section>
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Session notes</h2>
+            {report.notes.length === 0 ? (
+              <p className="text-sm text-gray-600">No session notes were written in this period.</p>
+            ) : (
+              <div className="space-y-4">
+                {report.notes.map(note => (
+                  <div key={note.sessionId} className="print-avoid-break">
+                    <p className="text-sm font-medium text-gray-900">{formatDate(note.startTime)}</p>
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{note.notes}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+
+      <footer className="border-t border-gray-200 pt-4 text-xs text-gray-500">
+        Generated {new Date().toLocaleString()} from recorded Music and Me sessions.
+      </footer>
+    </article>
+  );
+};
+
+export default ProgressReportView;
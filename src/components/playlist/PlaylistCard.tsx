@@ -12,6 +12,9 @@ interface PlaylistCardProps {
   onPlay?: (playlist: Playlist) => void;
   onView?: (playlist: Playlist) => void;
   onShare?: (playlist: Playlist) => void;
+  onSaveAsTemplate?: (playlist: Playlist) => void;
+  onExport?: (playlist: Playlist) => void;
+  unavailableCount?: number; // entries whose video failed the last health check
   showActions?: boolean;
 }
 
@@ -23,6 +26,9 @@ const PlaylistCard: React.FC<PlaylistCardProps> = ({
   onPlay,
   onView,
   onShare,
+  onSaveAsTemplate,
+  onExport,
+  unavailableCount = 0,
   showActions = true,
 }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -65,6 +71,19 @@ const PlaylistCard: React.FC<PlaylistCardProps> = ({
           </div>
         </div>
         
+        {/* Unavailable videos warning */}
+        {unavailableCount > 0 && (
+          <div
+            className="absolute top-2 left-2 bg-yellow-400 text-yellow-900 text-xs font-medium px-2 py-1 rounded flex items-center"
+            title="Some videos in this playlist have been removed or made private on YouTube"
+          >
+            <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+            </svg>
+            {unavailableCount} unavailable
+          </div>
+        )}
+        
         {/* Video count badge */}
         <div className="absolute bottom-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
           {getVideoCountText()}
@@ -187,6 +206,38 @@ const PlaylistCard: React.FC<PlaylistCardProps> = ({
                       </button>
                     )}
                     
+                    {onSaveAsTemplate && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onSaveAsTemplate(playlist);
+                          setIsMenuOpen(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                      >
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                        </svg>
+                        Save as Template
+                      </button>
+                    )}
+                    
+                    {onExport && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onExport(playlist);
+                          setIsMenuOpen(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                      >
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                        </svg>
+                        Export
+                      </button>
+                    )}
+                    
                     <div className="border-t border-gray-100">
                       {onDelete && (
                         <button
@@ -8,6 +8,7 @@ import {
   PointerSensor, 
   useSensor, 
   useSensors,
+  useDroppable,
   DragEndEvent,
 } from '@dnd-kit/core';
 import { 
@@ -21,24 +22,50 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { useAuth } from '@/contexts/AuthContext';
-import { getPlaylistWithVideos, updatePlaylist } from '@/lib/firestore';
-import { Playlist, PlaylistWithVideos, Video } from '@/types';
+import { 
+  getPlaylistWithVideos, 
+  updatePlaylist, 
+  createPlaylistEntry, 
+  getEntryDurationSeconds,
+  getVideoRefs,
+} from '@/lib/firestore';
+import { PlaylistEntry, PlaylistSection, PlaylistWithVideos, SessionStep, TubeInventory, Video } from '@/types';
 import VideoUploader from '@/components/video/VideoUploader';
+import RecommendedVideos from '@/components/playlist/RecommendedVideos';
 import VideoGrid from '@/components/video/VideoGrid';
-import { formatDuration } from '@/lib/youtube';
+import { formatDuration, formatTimeOffset, parseTimeOffset } from '@/lib/youtube';
+import { playlistEntryClipSchema } from '@/lib/validation';
+import { isVideoUnavailable } from '@/lib/videoHealth';
+import { createStepEntry, getStepDurationSeconds, getStepTypeLabel, isStepEntry, StepEntry } from '@/lib/sessionSteps';
+import SessionStepModal from '@/components/modals/SessionStepModal';
+import { getActiveTubeInventory, getMissingTubesForVideos, hasMissingTubes } from '@/lib/inventory';
+import {
+  createDefaultSections,
+  createSectionId,
+  getEntrySectionId,
+  groupEntriesBySection,
+  orderEntriesBySection,
+} from '@/lib/playlistSections';
 
 interface PlaylistEditorProps {
   playlistId: string;
   onClose?: () => void;
 }
 
+interface EntryClip {
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
 interface SortableVideoItemProps {
+  entry: PlaylistEntry;
   video: Video;
   index: number;
-  onRemove: (videoId: string) => void;
+  onRemove: (entryId: string) => void;
+  onClipChange: (entryId: string, clip: EntryClip) => void;
 }
 
-const SortableVideoItem: React.FC<SortableVideoItemProps> = ({ video, index, onRemove }) => {
+const SortableVideoItem: React.FC<SortableVideoItemProps> = ({ entry, video, index, onRemove, onClipChange }) => {
   const {
     attributes,
     listeners,
@@ -46,7 +73,13 @@ const SortableVideoItem: React.FC<SortableVideoItemProps> = ({ video, index, onR
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: video.videoId });
+  } = useSortable({ id: entry.id });
+  const [isEditingClip, setIsEditingClip] = useState(false);
+  const [clipStart, setClipStart] = useState('');
+  const [clipEnd, setClipEnd] = useState('');
+  const [clipError, setClipError] = useState<string | null>(null);
+
+  const hasClip = entry.startSeconds !== undefined || entry.endSeconds !== undefined;
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -62,80 +95,426 @@ const SortableVideoItem: React.FC<SortableVideoItemProps> = ({ video, index, onR
     }
   };
 
+  const getClipLabel = () => {
+    const start = formatTimeOffset(entry.startSeconds ?? 0);
+    const end = entry.endSeconds !== undefined ? formatTimeOffset(entry.endSeconds) : 'end';
+    return `${start} – ${end}`;
+  };
+
+  const openClipEditor = () => {
+    setClipStart(entry.startSeconds !== undefined ? formatTimeOffset(entry.startSeconds) : '');
+    setClipEnd(entry.endSeconds !== undefined ? formatTimeOffset(entry.endSeconds) : '');
+    setClipError(null);
+    setIsEditingClip(true);
+  };
+
+  const handleClipSave = () => {
+    const startSeconds = clipStart.trim() ? parseTimeOffset(clipStart) : undefined;
+    const endSeconds = clipEnd.trim() ? parseTimeOffset(clipEnd) : undefined;
+
+    if (startSeconds === null || endSeconds === null) {
+      setClipError('Use a time like 1:30');
+      return;
+    }
+
+    const result = playlistEntryClipSchema.safeParse({ startSeconds, endSeconds });
+    if (!result.success) {
+      setClipError(result.error.issues[0]?.message || 'Invalid clip times');
+      return;
+    }
+
+    onClipChange(entry.id, { startSeconds, endSeconds });
+    setIsEditingClip(false);
+  };
+
+  const handleClipClear = () => {
+    onClipChange(entry.id, {});
+    setIsEditingClip(false);
+  };
+
   return (
     <div
       ref={setNodeRef}
       style={style}
-      className="flex items-center space-x-3 p-3 bg-white border border-gray-200 rounded-lg hover:border-gray-300 transition-colors"
+      className="p-3 bg-white border border-gray-200 rounded-lg hover:border-gray-300 transition-colors"
     >
-      {/* Drag Handle */}
-      <div
-        {...attributes}
-        {...listeners}
-        className="cursor-grab active:cursor-grabbing p-1 text-gray-400 hover:text-gray-600"
-      >
-        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-        </svg>
-      </div>
+      <div className="flex items-center space-x-3">
+        {/* Drag Handle */}
+        <div
+          {...attributes}
+          {...listeners}
+          className="cursor-grab active:cursor-grabbing p-1 text-gray-400 hover:text-gray-600"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+          </svg>
+        </div>
 
-      {/* Order Number */}
-      <div className="flex-shrink-0 w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center text-sm font-medium text-gray-600">
-        {index + 1}
-      </div>
+        {/* Order Number */}
+        <div className="flex-shrink-0 w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center text-sm font-medium text-gray-600">
+          {index + 1}
+        </div>
 
-      {/* Video Thumbnail */}
-      <div className="flex-shrink-0">
-        <img
-          src={video.thumbnail}
-          alt={video.title}
-          className="w-16 h-12 object-cover rounded"
-          onError={(e) => {
-            e.currentTarget.src = `https://ui-avatars.com/api/?name=${encodeURIComponent(video.title)}&background=gray&color=fff&size=128`;
-          }}
-        />
+        {/* Video Thumbnail */}
+        <div className="flex-shrink-0">
+          <img
+            src={video.thumbnail}
+            alt={video.title}
+            className="w-16 h-12 object-cover rounded"
+            onError={(e) => {
+              e.currentTarget.src = `https://ui-avatars.com/api/?name=${encodeURIComponent(video.title)}&background=gray&color=fff&size=128`;
+            }}
+          />
+        </div>
+
+        {/* Video Info */}
+        <div className="flex-1 min-w-0">
+          <h4 className="text-sm font-medium text-gray-900 truncate" title={video.title}>
+            {video.title}
+          </h4>
+          <p className="text-xs text-gray-500 truncate" title={video.channelName}>
+            {video.channelName}
+          </p>
+          <div className="flex items-center space-x-2 text-xs text-gray-400 mt-1">
+            {isVideoUnavailable(video) && (
+              <>
+                <span
+                  className="inline-flex items-center px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800 font-medium"
+                  title="This video has been removed or made private on YouTube"
+                >
+                  Unavailable
+                </span>
+                <span>•</span>
+              </>
+            )}
+            <span>{getFormattedDuration()}</span>
+            {hasClip && (
+              <>
+                <span>•</span>
+                <span className="inline-flex items-center px-1.5 py-0.5 rounded bg-purple-100 text-purple-700">
+                  Clip {getClipLabel()}
+                </span>
+              </>
+            )}
+            {video.tags.length > 0 && (
+              <>
+                <span>•</span>
+                <span>{video.tags.slice(0, 2).join(', ')}</span>
+                {video.tags.length > 2 && <span>+{video.tags.length - 2} more</span>}
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={openClipEditor}
+            className="p-1 text-gray-400 hover:text-gray-600 focus:outline-none"
+            title="Set start and end times"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => window.open(`https://www.youtube.com/watch?v=${video.videoId}`, '_blank')}
+            className="p-1 text-gray-400 hover:text-gray-600 focus:outline-none"
+            title="View on YouTube"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+            </svg>
+          </button>
+          <button
+            onClick={() => onRemove(entry.id)}
+            className="p-1 text-red-400 hover:text-red-600 focus:outline-none"
+            title="Remove from playlist"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
       </div>
 
-      {/* Video Info */}
-      <div className="flex-1 min-w-0">
-        <h4 className="text-sm font-medium text-gray-900 truncate" title={video.title}>
-          {video.title}
-        </h4>
-        <p className="text-xs text-gray-500 truncate" title={video.channelName}>
-          {video.channelName}
-        </p>
-        <div className="flex items-center space-x-2 text-xs text-gray-400 mt-1">
-          <span>{getFormattedDuration()}</span>
-          {video.tags.length > 0 && (
-            <>
-              <span>•</span>
-              <span>{video.tags.slice(0, 2).join(', ')}</span>
-              {video.tags.length > 2 && <span>+{video.tags.length - 2} more</span>}
-            </>
+      {/* Clip Editor */}
+      {isEditingClip && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <div className="flex items-end space-x-3">
+            <div>
+              <label htmlFor={`clip-start-${entry.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+                Start
+              </label>
+              <input
+                id={`clip-start-${entry.id}`}
+                type="text"
+                value={clipStart}
+                onChange={(e) => setClipStart(e.target.value)}
+                placeholder="0:00"
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor={`clip-end-${entry.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+                End
+              </label>
+              <input
+                id={`clip-end-${entry.id}`}
+                type="text"
+                value={clipEnd}
+                onChange={(e) => setClipEnd(e.target.value)}
+                placeholder={getFormattedDuration()}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={handleClipSave}
+              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Save
+            </button>
+            {hasClip && (
+              <button
+                onClick={handleClipClear}
+                className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Play full video
+              </button>
+            )}
+            <button
+              onClick={() => setIsEditingClip(false)}
+              className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700 focus:outline-none"
+            >
+              Cancel
+            </button>
+          </div>
+          {clipError && (
+            <p className="mt-1 text-xs text-red-600">{clipError}</p>
           )}
         </div>
-      </div>
+      )}
+    </div>
+  );
+};
 
-      {/* Actions */}
-      <div className="flex items-center space-x-2">
-        <button
-          onClick={() => window.open(`https://www.youtube.com/watch?v=${video.videoId}`, '_blank')}
-          className="p-1 text-gray-400 hover:text-gray-600 focus:outline-none"
-          title="View on YouTube"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-          </svg>
-        </button>
-        <button
-          onClick={() => onRemove(video.videoId)}
-          className="p-1 text-red-400 hover:text-red-600 focus:outline-none"
-          title="Remove from playlist"
+interface SortableStepItemProps {
+  entry: StepEntry;
+  index: number;
+  onRemove: (entryId: string) => void;
+  onEdit: (entry: StepEntry) => void;
+}
+
+const SortableStepItem: React.FC<SortableStepItemProps> = ({ entry, index, onRemove, onEdit }) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: entry.id });
+  const { step } = entry;
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className="p-3 bg-indigo-50 border border-indigo-100 rounded-lg hover:border-indigo-200 transition-colors"
+    >
+      <div className="flex items-center space-x-3">
+        {/* Drag Handle */}
+        <div
+          {...attributes}
+          {...listeners}
+          className="cursor-grab active:cursor-grabbing p-1 text-gray-400 hover:text-gray-600"
         >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
           </svg>
-        </button>
+        </div>
+
+        {/* Order Number */}
+        <div className="flex-shrink-0 w-8 h-8 bg-white rounded-full flex items-center justify-center text-sm font-medium text-gray-600">
+          {index + 1}
+        </div>
+
+        {/* Step Type */}
+        <div className="flex-shrink-0 w-16 h-12 rounded bg-indigo-100 flex items-center justify-center text-xs font-medium text-indigo-700">
+          {getStepTypeLabel(step.type)}
+        </div>
+
+        {/* Step Info */}
+        <div className="flex-1 min-w-0">
+          <h4 className="text-sm font-medium text-gray-900 truncate" title={step.title}>
+            {step.title}
+          </h4>
+          {step.text && (
+            <p className="text-xs text-gray-500 truncate" title={step.text}>
+              {step.text}
+            </p>
+          )}
+          <p className="text-xs text-gray-400 mt-1">
+            {step.durationSeconds !== undefined ? formatTimeOffset(step.durationSeconds) : 'Waits for Next'}
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onEdit(entry)}
+            className="p-1 text-gray-400 hover:text-gray-600 focus:outline-none"
+            title="Edit step"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => onRemove(entry.id)}
+            className="p-1 text-red-400 hover:text-red-600 focus:outline-none"
+            title="Remove from playlist"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Droppable ids for section headers; entries dropped on a header move to the top of that section
+const SECTION_DROP_PREFIX = 'section:';
+const UNSECTIONED_DROP_ID = `${SECTION_DROP_PREFIX}none`;
+
+interface SectionHeaderProps {
+  section: PlaylistSection | null;
+  entryCount: number;
+  totalSeconds: number;
+  onRename: (sectionId: string, name: string) => void;
+  onTargetChange: (sectionId: string, targetSeconds?: number) => void;
+  onRemove: (sectionId: string) => void;
+}
+
+const SectionHeader: React.FC<SectionHeaderProps> = ({
+  section,
+  entryCount,
+  totalSeconds,
+  onRename,
+  onTargetChange,
+  onRemove,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: section ? `${SECTION_DROP_PREFIX}${section.id}` : UNSECTIONED_DROP_ID,
+  });
+  const [name, setName] = useState(section?.name || '');
+  const [target, setTarget] = useState(
+    section?.targetSeconds !== undefined ? formatTimeOffset(section.targetSeconds) : ''
+  );
+  const [targetError, setTargetError] = useState(false);
+
+  useEffect(() => {
+    setName(section?.name || '');
+    setTarget(section?.targetSeconds !== undefined ? formatTimeOffset(section.targetSeconds) : '');
+  }, [section?.name, section?.targetSeconds]);
+
+  const handleNameBlur = () => {
+    if (!section) return;
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(section.name);
+    } else if (trimmed !== section.name) {
+      onRename(section.id, trimmed);
+    }
+  };
+
+  const handleTargetBlur = () => {
+    if (!section) return;
+    if (!target.trim()) {
+      setTargetError(false);
+      if (section.targetSeconds !== undefined) onTargetChange(section.id, undefined);
+      return;
+    }
+
+    const seconds = parseTimeOffset(target);
+    setTargetError(seconds === null);
+    if (seconds !== null && seconds !== section.targetSeconds) {
+      onTargetChange(section.id, seconds);
+    }
+  };
+
+  const getTargetStatusClass = () => {
+    if (section?.targetSeconds === undefined) return 'text-gray-500';
+    const difference = totalSeconds - section.targetSeconds;
+    // Within a minute either way counts as on target
+    if (Math.abs(difference) <= 60) return 'text-green-600';
+    return difference > 0 ? 'text-red-600' : 'text-yellow-600';
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex items-center justify-between px-3 py-2 rounded-lg border ${
+        isOver ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-gray-50'
+      }`}
+    >
+      <div className="flex items-center space-x-3 min-w-0">
+        {section ? (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={handleNameBlur}
+            maxLength={50}
+            aria-label="Section name"
+            className="text-sm font-semibold text-gray-900 bg-transparent border border-transparent rounded px-1 py-0.5 hover:border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <span className="text-sm font-semibold text-gray-500 px-1">Unsectioned (plays first)</span>
+        )}
+        <span className="text-xs text-gray-500 whitespace-nowrap">
+          {entryCount} video{entryCount !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <span className={`text-xs font-medium whitespace-nowrap ${getTargetStatusClass()}`}>
+          {formatTimeOffset(totalSeconds)}
+          {section?.targetSeconds !== undefined && ` / ${formatTimeOffset(section.targetSeconds)} target`}
+        </span>
+        {section && (
+          <>
+            <input
+              type="text"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              onBlur={handleTargetBlur}
+              placeholder="Target"
+              aria-label={`Target duration for ${section.name}`}
+              title="Target duration, e.g. 5:00"
+              className={`w-16 px-2 py-0.5 border rounded-md text-xs text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                targetError ? 'border-red-400' : 'border-gray-300'
+              }`}
+            />
+            <button
+              onClick={() => onRemove(section.id)}
+              className="p-1 text-gray-400 hover:text-red-600 focus:outline-none"
+              title="Remove section (videos are kept)"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -147,6 +526,11 @@ const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ playlistId, onClose })
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'videos' | 'add'>('videos');
   const [isSaving, setIsSaving] = useState(false);
+  const [addSectionId, setAddSectionId] = useState('');
+  const [isStepModalOpen, setIsStepModalOpen] = useState(false);
+  const [editingStepEntry, setEditingStepEntry] = useState<StepEntry | null>(null);
+  const [inventory, setInventory] = useState<TubeInventory | null>(null);
+  const [playableOnly, setPlayableOnly] = useState(false);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -159,6 +543,12 @@ const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ playlistId, onClose })
     loadPlaylist();
   }, [playlistId]);
 
+  useEffect(() => {
+    if (user) {
+      getActiveTubeInventory(user.uid).then(setInventory);
+    }
+  }, [user]);
+
   const loadPlaylist = async () => {
     setIsLoading(true);
     try {
@@ -171,102 +561,194 @@ const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ playlistId, onClose })
     }
   };
 
-  const handleDragEnd = async (event: DragEndEvent) => {
-    const { active, over } = event;
-
-    if (!playlist || !over || active.id === over.id) return;
-
-    const oldIndex = playlist.videos.findIndex((video) => video.videoId === active.id);
-    const newIndex = playlist.videos.findIndex((video) => video.videoId === over.id);
+  const sections = playlist?.sections || [];
 
-    if (oldIndex !== -1 && newIndex !== -1) {
-      const newVideos = arrayMove(playlist.videos, oldIndex, newIndex);
-      const newVideoRefs = newVideos.map(video => video.videoId);
-      
-      setPlaylist({
-        ...playlist,
-        videos: newVideos,
-        videoRefs: newVideoRefs,
-      });
-
-      // Save to database
-      try {
-        await updatePlaylist(playlistId, { videoRefs: newVideoRefs });
-      } catch (error) {
-        console.error('Error updating playlist order:', error);
-        // Revert on error
-        loadPlaylist();
-      }
-    }
-  };
-
-  const handleRemoveVideo = async (videoId: string) => {
+  const saveEntries = async (
+    entries: PlaylistEntry[],
+    videos: Video[],
+    errorMessage: string,
+    updatedSections?: PlaylistSection[]
+  ) => {
     if (!playlist) return;
 
-    const newVideos = playlist.videos.filter(video => video.videoId !== videoId);
-    const newVideoRefs = newVideos.map(video => video.videoId);
-
     setPlaylist({
       ...playlist,
-      videos: newVideos,
-      videoRefs: newVideoRefs,
+      videos,
+      entries,
+      videoRefs: getVideoRefs(entries),
+      ...(updatedSections ? { sections: updatedSections } : {}),
     });
 
     // Save to database
     try {
-      await updatePlaylist(playlistId, { videoRefs: newVideoRefs });
+      await updatePlaylist(playlistId, updatedSections ? { entries, sections: updatedSections } : { entries });
     } catch (error) {
-      console.error('Error removing video from playlist:', error);
+      console.error(errorMessage, error);
       // Revert on error
       loadPlaylist();
     }
   };
 
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (!playlist || !over || active.id === over.id) return;
+
+    const orderedEntries = orderEntriesBySection(playlist.entries, sections);
+    const activeEntry = orderedEntries.find(entry => entry.id === active.id);
+    if (!activeEntry) return;
+
+    const overId = String(over.id);
+    if (overId.startsWith(SECTION_DROP_PREFIX)) {
+      // Dropped on a section header: move to the top of that section
+      const sectionId = overId === UNSECTIONED_DROP_ID ? undefined : overId.slice(SECTION_DROP_PREFIX.length);
+      const others = orderedEntries.filter(entry => entry.id !== activeEntry.id);
+      const newEntries = orderEntriesBySection([{ ...activeEntry, sectionId }, ...others], sections);
+      await saveEntries(newEntries, playlist.videos, 'Error moving video between sections:');
+      return;
+    }
+
+    const oldIndex = orderedEntries.findIndex((entry) => entry.id === active.id);
+    const newIndex = orderedEntries.findIndex((entry) => entry.id === over.id);
+
+    if (oldIndex !== -1 && newIndex !== -1) {
+      // Take on the section of the entry it was dropped onto
+      const sectionId = getEntrySectionId(orderedEntries[newIndex], sections) ?? undefined;
+      const newEntries = arrayMove(orderedEntries, oldIndex, newIndex).map(entry =>
+        entry.id === activeEntry.id ? { ...entry, sectionId } : entry
+      );
+      await saveEntries(orderEntriesBySection(newEntries, sections), playlist.videos, 'Error updating playlist order:');
+    }
+  };
+
+  const handleRemoveVideo = async (entryId: string) => {
+    if (!playlist) return;
+
+    const newEntries = playlist.entries.filter(entry => entry.id !== entryId);
+    await saveEntries(newEntries, playlist.videos, 'Error removing video from playlist:');
+  };
+
   const handleAddVideo = async (video: Video) => {
     if (!playlist) return;
 
     // Check if video already exists
-    if (playlist.videos.some(v => v.videoId === video.videoId)) {
+    if (playlist.entries.some(entry => entry.videoId === video.videoId)) {
       return; // Video already in playlist
     }
 
-    const newVideos = [...playlist.videos, video];
-    const newVideoRefs = newVideos.map(v => v.videoId);
+    const entry = createPlaylistEntry(video.videoId);
+    const sectionId = sections.some(section => section.id === addSectionId) ? addSectionId : undefined;
+    const newEntries = orderEntriesBySection([...playlist.entries, { ...entry, ...(sectionId ? { sectionId } : {}) }], sections);
+    const newVideos = playlist.videos.some(v => v.videoId === video.videoId)
+      ? playlist.videos
+      : [...playlist.videos, video];
 
-    setPlaylist({
-      ...playlist,
-      videos: newVideos,
-      videoRefs: newVideoRefs,
-    });
+    await saveEntries(newEntries, newVideos, 'Error adding video to playlist:');
+  };
 
-    // Save to database
-    try {
-      await updatePlaylist(playlistId, { videoRefs: newVideoRefs });
-    } catch (error) {
-      console.error('Error adding video to playlist:', error);
-      // Revert on error
-      loadPlaylist();
+  const handleClipChange = async (entryId: string, clip: EntryClip) => {
+    if (!playlist) return;
+
+    const newEntries = playlist.entries.map(entry =>
+      entry.id === entryId
+        ? { id: entry.id, videoId: entry.videoId, ...(entry.sectionId ? { sectionId: entry.sectionId } : {}), ...clip }
+        : entry
+    );
+    await saveEntries(newEntries, playlist.videos, 'Error updating clip times:');
+  };
+
+  const handleOpenStepModal = (entry: StepEntry | null = null) => {
+    setEditingStepEntry(entry);
+    setIsStepModalOpen(true);
+  };
+
+  const handleSaveStep = async (step: SessionStep) => {
+    if (!playlist) return;
+
+    setIsStepModalOpen(false);
+    if (editingStepEntry) {
+      const newEntries = playlist.entries.map(entry =>
+        entry.id === editingStepEntry.id ? { ...entry, step } : entry
+      );
+      await saveEntries(newEntries, playlist.videos, 'Error updating step:');
+    } else {
+      // New steps go to the end of the playlist, i.e. into the last section
+      const sectionId = sections[sections.length - 1]?.id;
+      const entry = { ...createStepEntry(step), ...(sectionId ? { sectionId } : {}) };
+      const newEntries = orderEntriesBySection([...playlist.entries, entry], sections);
+      await saveEntries(newEntries, playlist.videos, 'Error adding step:');
     }
+    setEditingStepEntry(null);
+  };
+
+  const handleAddDefaultSections = async () => {
+    if (!playlist) return;
+
+    const newSections = createDefaultSections();
+    await saveEntries(playlist.entries, playlist.videos, 'Error adding sections:', newSections);
+  };
+
+  const handleAddSection = async () => {
+    if (!playlist) return;
+
+    const newSections = [...sections, { id: createSectionId(), name: `Section ${sections.length + 1}` }];
+    await saveEntries(playlist.entries, playlist.videos, 'Error adding section:', newSections);
+  };
+
+  const handleRenameSection = async (sectionId: string, name: string) => {
+    if (!playlist) return;
+
+    const newSections = sections.map(section => (section.id === sectionId ? { ...section, name } : section));
+    await saveEntries(playlist.entries, playlist.videos, 'Error renaming section:', newSections);
+  };
+
+  const handleSectionTargetChange = async (sectionId: string, targetSeconds?: number) => {
+    if (!playlist) return;
+
+    const newSections = sections.map(section =>
+      section.id === sectionId ? { id: section.id, name: section.name, ...(targetSeconds !== undefined ? { targetSeconds } : {}) } : section
+    );
+    await saveEntries(playlist.entries, playlist.videos, 'Error updating section target:', newSections);
+  };
+
+  const handleRemoveSection = async (sectionId: string) => {
+    if (!playlist) return;
+
+    // Videos in the removed section stay in the playlist, unsectioned
+    const newSections = sections.filter(section => section.id !== sectionId);
+    const newEntries = orderEntriesBySection(
+      playlist.entries.map(entry => (entry.sectionId === sectionId ? { ...entry, sectionId: undefined } : entry)),
+      newSections
+    );
+    if (addSectionId === sectionId) setAddSectionId('');
+    await saveEntries(newEntries, playlist.videos, 'Error removing section:', newSections);
+  };
+
+  const getVideoForEntry = (entry: PlaylistEntry) => {
+    return playlist?.videos.find(video => video.videoId === entry.videoId);
+  };
+
+  const unavailableCount = playlist
+    ? playlist.entries.filter(entry => {
+        const video = getVideoForEntry(entry);
+        return video ? isVideoUnavailable(video) : false;
+      }).length
+    : 0;
+
+  const missingTubes = playlist && inventory ? getMissingTubesForVideos(playlist.videos, inventory) : null;
+
+  const getEntriesDuration = (entries: PlaylistEntry[]) => {
+    return entries.reduce((total, entry) => {
+      if (entry.step) return total + getStepDurationSeconds(entry.step);
+      const video = getVideoForEntry(entry);
+      return video ? total + getEntryDurationSeconds(entry, video) : total;
+    }, 0);
   };
 
   const getTotalDuration = () => {
     if (!playlist) return 0;
     
-    return playlist.videos.reduce((total, video) => {
-      try {
-        const duration = video.duration;
-        const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-        if (match) {
-          const hours = parseInt(match[1] || '0');
-          const minutes = parseInt(match[2] || '0');
-          const seconds = parseInt(match[3] || '0');
-          return total + (hours * 3600) + (minutes * 60) + seconds;
-        }
-      } catch (error) {
-        console.error('Error parsing duration:', error);
-      }
-      return total;
-    }, 0);
+    return getEntriesDuration(playlist.entries);
   };
 
   const formatTotalDuration = () => {
@@ -321,7 +803,13 @@ const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ playlistId, onClose })
         <div>
           <h1 className="text-2xl font-bold text-gray-900">{playlist.title}</h1>
           <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
-            <span>{playlist.videos.length} videos</span>
+            <span>{playlist.videoRefs.length} videos</span>
+            {playlist.entries.length > playlist.videoRefs.length && (
+              <>
+                <span>•</span>
+                <span>{playlist.entries.length - playlist.videoRefs.length} steps</span>
+              </>
+            )}
             <span>•</span>
             <span>Total duration: {formatTotalDuration()}</span>
             <span>•</span>
@@ -350,7 +838,7 @@ const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ playlistId, onClose })
               : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
           }`}
         >
-          Videos ({playlist.videos.length})
+          Videos ({playlist.entries.length})
         </button>
         <button
           onClick={() => setActiveTab('add')}
@@ -367,7 +855,31 @@ const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ playlistId, onClose })
       {/* Content */}
       {activeTab === 'videos' ? (
         <div className="space-y-4">
-          {playlist.videos.length === 0 ? (
+          {unavailableCount > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 flex items-start">
+              <svg className="h-5 w-5 text-yellow-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+              </svg>
+              <p className="ml-3 text-sm text-yellow-800">
+                {unavailableCount} video{unavailableCount !== 1 ? 's' : ''} in this playlist {unavailableCount !== 1 ? 'are' : 'is'} no
+                longer available on YouTube and will be skipped during sessions. Consider replacing {unavailableCount !== 1 ? 'them' : 'it'}.
+              </p>
+            </div>
+          )}
+
+          {inventory && missingTubes && hasMissingTubes(missingTubes) && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 flex items-start">
+              <svg className="h-5 w-5 text-yellow-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+              </svg>
+              <p className="ml-3 text-sm text-yellow-800">
+                This playlist needs tubes the {inventory.name} set doesn&rsquo;t have:
+                {' '}{[...missingTubes.notes, ...(missingTubes.octavators ? ['octavator caps'] : [])].join(', ')}.
+              </p>
+            </div>
+          )}
+
+          {playlist.entries.length === 0 ? (
             <div className="text-center py-12">
               <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
@@ -387,32 +899,147 @@ const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ playlistId, onClose })
               collisionDetection={closestCenter}
               onDragEnd={handleDragEnd}
             >
-              <SortableContext items={playlist.videos.map((v, i) => `${v.videoId}-${i}`)} strategy={verticalListSortingStrategy}>
+              <SortableContext items={orderEntriesBySection(playlist.entries, sections).map(entry => entry.id)} strategy={verticalListSortingStrategy}>
                 <div className="space-y-2">
-                  {playlist.videos
-                    .filter((video, index, self) => 
-                      index === self.findIndex(v => v.videoId === video.videoId)
-                    )
-                    .map((video, index) => (
-                      <SortableVideoItem
-                        key={`${video.videoId}-${index}`}
-                        video={video}
-                        index={index}
-                        onRemove={handleRemoveVideo}
-                      />
-                    ))}
+                  {groupEntriesBySection(playlist.entries, sections).map((group, groupIndex, groups) => {
+                    // Number entries continuously across sections
+                    const offset = groups.slice(0, groupIndex).reduce((count, previous) => count + previous.entries.length, 0);
+                    const showHeader = sections.length > 0 && (group.section !== null || group.entries.length > 0);
+
+                    return (
+                      <React.Fragment key={group.section?.id || 'unsectioned'}>
+                        {showHeader && (
+                          <div className={groupIndex > 0 ? 'pt-2' : ''}>
+                            <SectionHeader
+                              section={group.section}
+                              entryCount={group.entries.length}
+                              totalSeconds={getEntriesDuration(group.entries)}
+                              onRename={handleRenameSection}
+                              onTargetChange={handleSectionTargetChange}
+                              onRemove={handleRemoveSection}
+                            />
+                          </div>
+                        )}
+                        {group.entries.map((entry, index) => {
+                          if (isStepEntry(entry)) {
+                            return (
+                              <SortableStepItem
+                                key={entry.id}
+                                entry={entry}
+                                index={offset + index}
+                                onRemove={handleRemoveVideo}
+                                onEdit={handleOpenStepModal}
+                              />
+                            );
+                          }
+
+                          const video = getVideoForEntry(entry);
+                          if (!video) return null;
+
+                          return (
+                            <SortableVideoItem
+                              key={entry.id}
+                              entry={entry}
+                              video={video}
+                              index={offset + index}
+                              onRemove={handleRemoveVideo}
+                              onClipChange={handleClipChange}
+                            />
+                          );
+                        })}
+                        {group.section && group.entries.length === 0 && (
+                          <p className="px-3 py-2 text-xs text-gray-400">Drag videos onto this section&rsquo;s header to add them.</p>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
                 </div>
               </SortableContext>
             </DndContext>
           )}
+
+          {/* Step and Section Controls */}
+          <div className="flex items-center justify-end space-x-3">
+            <button
+              onClick={() => handleOpenStepModal()}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Step
+            </button>
+            {sections.length === 0 ? (
+              <button
+                onClick={handleAddDefaultSections}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Split into Warmup / Activity / Cooldown
+              </button>
+            ) : (
+              <button
+                onClick={handleAddSection}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Add Section
+              </button>
+            )}
+          </div>
         </div>
       ) : (
         <div className="space-y-6">
+          {sections.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <label htmlFor="add-section" className="text-sm font-medium text-gray-700">
+                Add videos to
+              </label>
+              <select
+                id="add-section"
+                value={addSectionId}
+                onChange={(e) => setAddSectionId(e.target.value)}
+                className="px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Unsectioned</option>
+                {sections.map(section => (
+                  <option key={section.id} value={section.id}>{section.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
           <VideoUploader
             onVideoAdded={handleAddVideo}
           />
+          {inventory && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={playableOnly}
+                onChange={(e) => setPlayableOnly(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Only suggest videos playable with our set ({inventory.name})</span>
+            </label>
+          )}
+          <RecommendedVideos
+            playlist={playlist}
+            onAdd={handleAddVideo}
+            playableWith={playableOnly ? inventory : null}
+          />
         </div>
       )}
+
+      <SessionStepModal
+        isOpen={isStepModalOpen}
+        step={editingStepEntry?.step}
+        onClose={() => {
+          setIsStepModalOpen(false);
+          setEditingStepEntry(null);
+        }}
+        onSave={handleSaveStep}
+      />
     </div>
   );
 };
@@ -15,6 +15,9 @@ interface PlaylistGridProps {
   onPlaylistPlay?: (playlist: Playlist) => void;
   onPlaylistView?: (playlist: Playlist) => void;
   onPlaylistShare?: (playlist: Playlist) => void;
+  onPlaylistSaveAsTemplate?: (playlist: Playlist) => void;
+  onPlaylistExport?: (playlist: Playlist) => void;
+  unavailableVideoIds?: string[];
   showActions?: boolean;
   emptyMessage?: string;
   emptyIcon?: React.ReactNode;
@@ -29,6 +32,9 @@ const PlaylistGrid: React.FC<PlaylistGridProps> = ({
   onPlaylistPlay,
   onPlaylistView,
   onPlaylistShare,
+  onPlaylistSaveAsTemplate,
+  onPlaylistExport,
+  unavailableVideoIds = [],
   showActions = true,
   emptyMessage = "No playlists found",
   emptyIcon,
@@ -195,6 +201,9 @@ const PlaylistGrid: React.FC<PlaylistGridProps> = ({
               onPlay={onPlaylistPlay}
               onView={onPlaylistView}
               onShare={onPlaylistShare}
+              onSaveAsTemplate={onPlaylistSaveAsTemplate}
+              onExport={onPlaylistExport}
+              unavailableCount={playlist.videoRefs.filter(videoId => unavailableVideoIds.includes(videoId)).length}
               showActions={showActions}
             />
           ))}
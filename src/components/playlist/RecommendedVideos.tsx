@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getVideoRecommendationsForPlaylist, RecommendedVideo } from '@/lib/recommendations';
+import { durationToSeconds, formatTimeOffset } from '@/lib/youtube';
+import { isVideoPlayableWith } from '@/lib/inventory';
+import { Playlist, TubeInventory, Video } from '@/types';
+
+interface RecommendedVideosProps {
+  playlist: Playlist;
+  onAdd: (video: Video) => void;
+  playableWith?: TubeInventory | null; // only suggest videos this tube set can play
+}
+
+const RecommendedVideos: React.FC<RecommendedVideosProps> = ({ playlist, onAdd, playableWith }) => {
+  const { user } = useAuth();
+  const [recommendations, setRecommendations] = useState<RecommendedVideo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadRecommendations();
+    }
+  }, [user, playlist.id]);
+
+  const loadRecommendations = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const results = await getVideoRecommendationsForPlaylist(user.uid, playlist);
+      setRecommendations(results);
+    } catch (error) {
+      console.error('Error loading recommended videos:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Hide anything added since the suggestions were loaded
+  const visibleRecommendations = recommendations.filter(
+    item => !playlist.videoRefs.includes(item.video.videoId)
+      && (!playableWith || isVideoPlayableWith(item.video, playableWith))
+  );
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-gray-900 mb-3">Suggested Videos</h3>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-14 bg-gray-100 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : visibleRecommendations.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {playableWith ? `No suggestions playable with the ${playableWith.name} set.` : 'No suggestions for this playlist yet.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {visibleRecommendations.map(({ video, recommendation }) => (
+            <div key={video.videoId} className="flex items-center space-x-3 p-2 rounded-md hover:bg-gray-50">
+              <img
+                src={video.thumbnail}
+                alt={video.title}
+                className="w-16 h-12 object-cover rounded flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <h4 className="text-sm font-medium text-gray-900 truncate" title={video.title}>
+                  {video.title}
+                </h4>
+                <p className="text-xs text-gray-500 truncate">
+                  {formatTimeOffset(durationToSeconds(video.duration))}
+                  {recommendation.reasons.length > 0 && ` • ${recommendation.reasons[0]}`}
+                </p>
+              </div>
+              <button
+                onClick={() => onAdd(video)}
+                className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Add
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecommendedVideos;
@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import { BoomwhackerNote } from '@/types';
+import { ColourScheme, getNoteTextColour } from '@/lib/boomwhackers';
+
+interface ColourNoteOverlayProps {
+  notes: BoomwhackerNote[]; // used in the current video
+  tubeSet: BoomwhackerNote[]; // used anywhere in the session
+  scheme: ColourScheme;
+}
+
+// Large colour legend for children who follow colours rather than note names
+const ColourNoteOverlay: React.FC<ColourNoteOverlayProps> = ({ notes, tubeSet, scheme }) => {
+  const renderNote = (note: BoomwhackerNote, size: 'large' | 'small') => {
+    const colour = scheme.colours[note];
+    return (
+      <span
+        key={note}
+        className={`inline-flex items-center justify-center rounded-full font-bold shadow ${
+          size === 'large' ? 'w-14 h-14 text-lg' : 'w-8 h-8 text-xs'
+        }`}
+        style={{ backgroundColor: colour, color: getNoteTextColour(colour) }}
+      >
+        {note}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-black/60 rounded-xl p-4 text-white space-y-3 max-w-xs">
+      {notes.length > 0 ? (
+        <div>
+          <p className="text-xs uppercase tracking-widest text-gray-300 mb-2">This song</p>
+          <div className="flex flex-wrap gap-2">
+            {notes.map(note => renderNote(note, 'large'))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-300">No colour notes for this song</p>
+      )}
+
+      {tubeSet.length > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-widest text-gray-300 mb-2">Tubes to hand out</p>
+          <div className="flex flex-wrap gap-1">
+            {tubeSet.map(note => renderNote(note, 'small'))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] text-gray-400">{scheme.name} colours</p>
+    </div>
+  );
+};
+
+export default ColourNoteOverlay;
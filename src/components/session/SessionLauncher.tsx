@@ -2,8 +2,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Playlist, Video } from '@/types';
-import { getPlaylist, getVideo } from '@/lib/firestore';
+import { Participant, Playlist, PlaylistEntry, Video } from '@/types';
+import { getPlaylist, getVideo, getEntryDurationSeconds } from '@/lib/firestore';
+import { isVideoUnavailable } from '@/lib/videoHealth';
+import { groupEntriesBySection } from '@/lib/playlistSections';
+import { getStepDurationSeconds, getStepTypeLabel } from '@/lib/sessionSteps';
+import { COLOUR_SCHEMES, ColourSchemeId, getColourScheme, getNoteTextColour, getTubeSet } from '@/lib/boomwhackers';
+import { getAgeBandLabel, getUserParticipants } from '@/lib/participants';
+import { REMOTE_TRANSPORT_OPTIONS, RemoteTransportKind } from '@/lib/remoteControl';
+import { getSessionLaunchParams, getSessionLaunchSettings } from '@/lib/preferences';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface SessionLauncherProps {
   playlist: Playlist;
@@ -14,40 +23,61 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
   const [videos, setVideos] = useState<Video[]>([]);
+  const [loadedEntries, setLoadedEntries] = useState<PlaylistEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [sessionSettings, setSessionSettings] = useState({
-    autoplay: true,
-    shuffle: false,
-    loop: false,
-    fullscreen: true,
-    volume: 0.8,
-  });
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [attendingIds, setAttendingIds] = useState<string[]>([]);
+  const { user } = useAuth();
+  const { preferences } = usePreferences();
+  const [sessionSettings, setSessionSettings] = useState(() => getSessionLaunchSettings(preferences));
 
   useEffect(() => {
     loadPlaylistVideos();
   }, [playlist]);
 
+  useEffect(() => {
+    if (user) {
+      getUserParticipants(user.uid).then(setParticipants);
+    }
+  }, [user]);
+
+  const toggleAttending = (participantId: string) => {
+    setAttendingIds(prev =>
+      prev.includes(participantId) ? prev.filter(id => id !== participantId) : [...prev, participantId]
+    );
+  };
+
   const loadPlaylistVideos = async () => {
     setIsLoading(true);
     setError(null);
     
     try {
       const videoData: Video[] = [];
+      const entryData: PlaylistEntry[] = [];
       
-      for (const videoId of playlist.videoRefs) {
+      for (const entry of playlist.entries) {
+        // Steps have no video to load but still count towards the running time
+        if (entry.step) {
+          entryData.push(entry);
+          continue;
+        }
+        if (!entry.videoId) continue;
+
         try {
-          const video = await getVideo(videoId);
+          const video = await getVideo(entry.videoId);
           if (video) {
             videoData.push(video);
+            entryData.push(entry);
           }
         } catch (videoError) {
-          console.error(`Error loading video ${videoId}:`, videoError);
+          console.error(`Error loading video ${entry.videoId}:`, videoError);
         }
       }
       
       setVideos(videoData);
+      setLoadedEntries(entryData);
       
-      if (videoData.length === 0) {
+      if (entryData.length === 0) {
         setError('No videos could be loaded from this playlist');
       }
     } catch (err) {
@@ -59,20 +89,13 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
   };
 
   const handleLaunchSession = () => {
-    if (videos.length === 0) {
+    if (loadedEntries.length === 0) {
       setError('Cannot start session with empty playlist');
       return;
     }
 
     // Create session URL with settings
-    const sessionParams = new URLSearchParams({
-      playlistId: playlist.id,
-      autoplay: sessionSettings.autoplay.toString(),
-      shuffle: sessionSettings.shuffle.toString(),
-      loop: sessionSettings.loop.toString(),
-      fullscreen: sessionSettings.fullscreen.toString(),
-      volume: sessionSettings.volume.toString(),
-    });
+    const sessionParams = getSessionLaunchParams(playlist.id, sessionSettings, attendingIds);
 
     // Navigate to session player
     router.push(`/session?${sessionParams.toString()}`);
@@ -90,16 +113,34 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
   };
 
   const calculateTotalDuration = (): number => {
-    return videos.reduce((total, video) => {
-      // Parse duration string like "3:45" to seconds
-      const parts = video.duration.split(':');
-      const minutes = parseInt(parts[0] || '0');
-      const seconds = parseInt(parts[1] || '0');
-      return total + (minutes * 60) + seconds;
-    }, 0);
+    return loadedEntries.reduce((total, entry) => total + (entryDurations.get(entry.id) || 0), 0);
   };
 
+  // Entries with clip times only count the trimmed section
+  const entryDurations = new Map(
+    loadedEntries.map(entry => {
+      const video = videos.find(candidate => candidate.videoId === entry.videoId);
+      const seconds = entry.step
+        ? getStepDurationSeconds(entry.step)
+        : video ? getEntryDurationSeconds(entry, video) : 0;
+      return [entry.id, seconds];
+    })
+  );
+
   const totalDuration = calculateTotalDuration();
+  const attending = participants.filter(participant => attendingIds.includes(participant.id));
+  const unavailableVideos = videos.filter(isVideoUnavailable);
+  const tubeSet = getTubeSet(videos);
+  const stepCount = loadedEntries.filter(entry => entry.step).length;
+  const sectionTotals = groupEntriesBySection(loadedEntries, playlist.sections)
+    .filter(group => group.section || group.entries.length > 0)
+    .map(group => ({
+      key: group.section?.id || 'unsectioned',
+      name: group.section?.name || 'Unsectioned',
+      count: group.entries.length,
+      seconds: group.entries.reduce((total, entry) => total + (entryDurations.get(entry.id) || 0), 0),
+      targetSeconds: group.section?.targetSeconds,
+    }));
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -132,6 +173,7 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
                 </svg>
                 {videos.length} videos
+                {stepCount > 0 && `, ${stepCount} step${stepCount !== 1 ? 's' : ''}`}
               </div>
               <div className="flex items-center">
                 <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -142,6 +184,39 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
             </div>
           </div>
 
+          {/* Section Totals */}
+          {!isLoading && !error && playlist.sections && playlist.sections.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-lg font-semibold text-gray-900">Sections</h4>
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {sectionTotals.map(section => (
+                  <div key={section.key} className="flex items-center justify-between px-4 py-2 text-sm">
+                    <div>
+                      <span className="font-medium text-gray-900">{section.name}</span>
+                      <span className="ml-2 text-gray-500">
+                        {section.count} video{section.count !== 1 ? 's' : ''}
+                      </span>
+                    </div>
+                    <div className="text-gray-700">
+                      {formatDuration(section.seconds)}
+                      {section.targetSeconds !== undefined && (
+                        <span
+                          className={`ml-2 text-xs ${
+                            Math.abs(section.seconds - section.targetSeconds) <= 60
+                              ? 'text-green-600'
+                              : section.seconds > section.targetSeconds ? 'text-red-600' : 'text-yellow-600'
+                          }`}
+                        >
+                          target {formatDuration(section.targetSeconds)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Loading State */}
           {isLoading && (
             <div className="text-center py-8">
@@ -165,6 +240,66 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
             </div>
           )}
 
+          {/* Unavailable Videos Warning */}
+          {!isLoading && !error && unavailableVideos.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <div className="flex">
+                <svg className="w-5 h-5 text-yellow-500 mr-3 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                </svg>
+                <div className="min-w-0">
+                  <h4 className="text-sm font-medium text-yellow-800">
+                    {unavailableVideos.length} video{unavailableVideos.length !== 1 ? 's' : ''} may not play
+                  </h4>
+                  <p className="text-sm text-yellow-700 mt-1">
+                    These were removed or made private on YouTube and will be skipped:
+                  </p>
+                  <ul className="mt-1 text-sm text-yellow-700 list-disc list-inside">
+                    {unavailableVideos.map(video => (
+                      <li key={video.videoId} className="truncate">{video.title}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Attendance */}
+          {!isLoading && !error && participants.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-lg font-semibold text-gray-900">Who&apos;s attending?</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {participants.map(participant => (
+                  <label
+                    key={participant.id}
+                    className="flex items-center p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={attendingIds.includes(participant.id)}
+                      onChange={() => toggleAttending(participant.id)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="ml-3 text-sm font-medium text-gray-700 truncate">{participant.displayName}</span>
+                    <span className="ml-auto pl-2 text-xs text-gray-500">{getAgeBandLabel(participant.ageBand)}</span>
+                  </label>
+                ))}
+              </div>
+              {attending.some(participant => participant.sensoryNotes) && (
+                <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
+                  <p className="text-sm font-medium text-purple-800 mb-1">Sensory notes</p>
+                  <ul className="space-y-1 text-sm text-purple-700">
+                    {attending.filter(participant => participant.sensoryNotes).map(participant => (
+                      <li key={participant.id}>
+                        <span className="font-medium">{participant.displayName}:</span> {participant.sensoryNotes}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Session Settings */}
           {!isLoading && !error && (
             <div className="space-y-4">
@@ -240,6 +375,112 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
                 </div>
               </div>
 
+              {/* Colour Notes */}
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Colour Notes</label>
+                    <p className="text-xs text-gray-500">Show which Boomwhacker colours each video uses</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={sessionSettings.colourNotes}
+                      onChange={(e) => setSessionSettings(prev => ({ ...prev, colourNotes: e.target.checked }))}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+                </div>
+                {sessionSettings.colourNotes && (
+                  <div className="mt-3 space-y-3">
+                    <select
+                      value={sessionSettings.colourScheme}
+                      onChange={(e) => setSessionSettings(prev => ({ ...prev, colourScheme: e.target.value as ColourSchemeId }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      aria-label="Colour chart"
+                    >
+                      {COLOUR_SCHEMES.map(scheme => (
+                        <option key={scheme.id} value={scheme.id}>{scheme.name} - {scheme.description}</option>
+                      ))}
+                    </select>
+                    {tubeSet.length > 0 ? (
+                      <div>
+                        <p className="text-xs text-gray-500 mb-1">Tubes to hand out</p>
+                        <div className="flex flex-wrap gap-1">
+                          {tubeSet.map(note => {
+                            const colour = getColourScheme(sessionSettings.colourScheme).colours[note];
+                            return (
+                              <span
+                                key={note}
+                                className="inline-flex items-center justify-center min-w-[2rem] h-7 px-1 rounded text-xs font-semibold"
+                                style={{ backgroundColor: colour, color: getNoteTextColour(colour) }}
+                              >
+                                {note}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-500">
+                        No videos in this playlist have colour notes yet. Add them from the video library.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Low-Sensory Mode */}
+              <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Low-Sensory Mode</label>
+                  <p className="text-xs text-gray-500">Fade volume between videos, hide controls and cover YouTube end screens</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={sessionSettings.lowSensory}
+                    onChange={(e) => setSessionSettings(prev => ({ ...prev, lowSensory: e.target.checked }))}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+
+              {/* Switch Scanning */}
+              <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Switch Scanning</label>
+                  <p className="text-xs text-gray-500">Large choices the participant picks with a switch. Keys and timing are in Settings.</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={sessionSettings.scanning}
+                    onChange={(e) => setSessionSettings(prev => ({ ...prev, scanning: e.target.checked }))}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+
+              {/* Remote Control */}
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <label htmlFor="remote-transport" className="text-sm font-medium text-gray-700">Remote Control</label>
+                <p className="text-xs text-gray-500 mb-2">Where the remote will be opened. The player shows a link to pair it.</p>
+                <select
+                  id="remote-transport"
+                  value={sessionSettings.remoteTransport}
+                  onChange={(e) => setSessionSettings(prev => ({ ...prev, remoteTransport: e.target.value as RemoteTransportKind }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {REMOTE_TRANSPORT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Volume */}
               <div className="p-3 bg-gray-50 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
@@ -260,30 +501,44 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
           )}
 
           {/* Video Preview */}
-          {!isLoading && !error && videos.length > 0 && (
+          {!isLoading && !error && loadedEntries.length > 0 && (
             <div className="space-y-3">
-              <h4 className="text-lg font-semibold text-gray-900">Video Preview</h4>
+              <h4 className="text-lg font-semibold text-gray-900">Session Preview</h4>
               <div className="bg-gray-50 rounded-lg p-4 max-h-64 overflow-y-auto">
                 <div className="space-y-2">
-                  {videos.slice(0, 5).map((video, index) => (
-                    <div key={video.videoId} className="flex items-center space-x-3">
-                      <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center">
-                        <span className="text-xs font-medium text-blue-600">{index + 1}</span>
-                      </div>
-                      <img
-                        src={video.thumbnail}
-                        alt={video.title}
-                        className="w-16 h-12 object-cover rounded"
-                      />
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate">{video.title}</p>
-                        <p className="text-xs text-gray-500">{video.duration}</p>
+                  {loadedEntries.slice(0, 5).map((entry, index) => {
+                    const video = videos.find(candidate => candidate.videoId === entry.videoId);
+
+                    return (
+                      <div key={entry.id} className="flex items-center space-x-3">
+                        <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center">
+                          <span className="text-xs font-medium text-blue-600">{index + 1}</span>
+                        </div>
+                        {entry.step ? (
+                          <div className="w-16 h-12 rounded bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600">
+                            {getStepTypeLabel(entry.step.type)}
+                          </div>
+                        ) : (
+                          <img
+                            src={video?.thumbnail}
+                            alt={video?.title}
+                            className="w-16 h-12 object-cover rounded"
+                          />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{entry.step?.title || video?.title}</p>
+                          <p className="text-xs text-gray-500">
+                            {entry.step
+                              ? (entry.step.durationSeconds ? formatDuration(entry.step.durationSeconds) : 'Waits for Next')
+                              : video?.duration}
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  ))}
-                  {videos.length > 5 && (
+                    );
+                  })}
+                  {loadedEntries.length > 5 && (
                     <div className="text-center text-sm text-gray-500 pt-2">
-                      And {videos.length - 5} more videos...
+                      And {loadedEntries.length - 5} more...
                     </div>
                   )}
                 </div>
@@ -302,10 +557,10 @@ const SessionLauncher: React.FC<SessionLauncherProps> = ({ playlist, onClose })
           </button>
           <button
             onClick={handleLaunchSession}
-            disabled={isLoading || !!error || videos.length === 0}
+            disabled={isLoading || !!error || loadedEntries.length === 0}
             className="px-6 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isLoading ? 'Loading...' : 'Start Session'}
+            {isLoading ? 'Loading...' : unavailableVideos.length > 0 ? 'Start Anyway' : 'Start Session'}
           </button>
         </div>
       </div>
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { SessionStep } from '@/types';
+import { formatTimeOffset } from '@/lib/youtube';
+import { isTimedStep } from '@/lib/sessionSteps';
+
+interface SessionStepViewProps {
+  step: SessionStep;
+  isPaused: boolean;
+  calm?: boolean; // low-sensory sessions: flat neutral backgrounds, no pulsing
+  onComplete: () => void;
+}
+
+// Full-screen card for a non-video step. Remount (via `key`) to restart the countdown.
+const SessionStepView: React.FC<SessionStepViewProps> = ({ step, isPaused, calm = false, onComplete }) => {
+  const isTimed = isTimedStep(step);
+  const [remainingSeconds, setRemainingSeconds] = useState(step.durationSeconds ?? 0);
+
+  useEffect(() => {
+    if (!isTimed || isPaused || remainingSeconds <= 0) return;
+
+    const timer = setTimeout(() => {
+      setRemainingSeconds(prev => prev - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [isTimed, isPaused, remainingSeconds]);
+
+  useEffect(() => {
+    if (isTimed && remainingSeconds <= 0) {
+      onComplete();
+    }
+  }, [isTimed, remainingSeconds]);
+
+  const progress = isTimed && step.durationSeconds
+    ? ((step.durationSeconds - remainingSeconds) / step.durationSeconds) * 100
+    : 0;
+
+  const countdown = isTimed && (
+    <p className={`font-mono tabular-nums ${step.type === 'timer' ? 'text-8xl font-bold' : 'text-2xl text-white/70'}`}>
+      {formatTimeOffset(Math.max(remainingSeconds, 0))}
+      {isPaused && <span className="block text-sm font-sans uppercase tracking-widest text-white/60 mt-2">Paused</span>}
+    </p>
+  );
+
+  if (step.type === 'picture') {
+    return (
+      <div className="absolute inset-0 bg-black flex flex-col items-center justify-center p-8">
+        <img
+          src={step.imageUrl}
+          alt={step.title}
+          className="max-h-[75vh] max-w-full object-contain rounded-lg"
+        />
+        <div className="mt-6 text-center text-white">
+          <h2 className="text-3xl font-semibold">{step.title}</h2>
+          {step.text && <p className="mt-2 text-xl text-white/80">{step.text}</p>}
+          {countdown && <div className="mt-4">{countdown}</div>}
+        </div>
+      </div>
+    );
+  }
+
+  if (step.type === 'pause') {
+    return (
+      <div className={`absolute inset-0 ${calm ? 'bg-stone-800' : 'bg-gradient-to-b from-sky-900 to-indigo-950'} flex flex-col items-center justify-center p-8 text-center text-white`}>
+        <div className={`w-40 h-40 rounded-full bg-white/10 mb-10 ${calm ? '' : 'animate-pulse [animation-duration:4s]'}`} aria-hidden="true"></div>
+        <h2 className="text-4xl font-light">{step.title}</h2>
+        {step.text && <p className="mt-4 text-xl text-white/70 max-w-2xl">{step.text}</p>}
+        {countdown && <div className="mt-8">{countdown}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`absolute inset-0 ${calm ? 'bg-stone-800' : 'bg-gradient-to-br from-blue-900 to-gray-900'} flex flex-col items-center justify-center p-8 text-center text-white`}>
+      <h2 className="text-5xl font-bold max-w-4xl">{step.title}</h2>
+      {step.text && <p className="mt-6 text-2xl text-white/80 max-w-3xl whitespace-pre-line">{step.text}</p>}
+      {countdown && <div className="mt-10">{countdown}</div>}
+      {isTimed && (
+        <div className="mt-8 w-full max-w-xl h-2 bg-white/20 rounded-full overflow-hidden">
+          <div className="h-full bg-white transition-all duration-1000 ease-linear" style={{ width: `${progress}%` }}></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionStepView;
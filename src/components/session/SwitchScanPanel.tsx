@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { SwitchScanMode } from '@/types';
+import { SWITCH_SCAN_CHOICES, SwitchScanChoice, getKeyLabel } from '@/lib/switchAccess';
+
+interface SwitchScanPanelProps {
+  mode: SwitchScanMode;
+  intervalSeconds: number;
+  selectKey: string;
+  stepKey: string;
+  isPlaying: boolean;
+  calm?: boolean; // low-sensory sessions: muted colours
+  onSelect: (choice: SwitchScanChoice) => void;
+}
+
+const CHOICE_ICONS: Record<SwitchScanChoice, React.ReactNode> = {
+  play: null, // depends on whether something is playing
+  next: (
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+  ),
+  again: (
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+  ),
+  stop: (
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 6h12v12H6z" />
+  ),
+};
+
+const PLAY_ICON = <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5v14l11-7z" />;
+const PAUSE_ICON = <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />;
+
+// Large choices a participant can drive with one or two assistive switches
+const SwitchScanPanel: React.FC<SwitchScanPanelProps> = ({
+  mode,
+  intervalSeconds,
+  selectKey,
+  stepKey,
+  isPlaying,
+  calm = false,
+  onSelect,
+}) => {
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [scanCycle, setScanCycle] = useState(0); // bumped on select to restart the timer
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  const select = (index: number) => {
+    onSelectRef.current(SWITCH_SCAN_CHOICES[index]);
+    setHighlightedIndex(0);
+    setScanCycle(prev => prev + 1);
+  };
+
+  // Single-switch scanning moves the highlight on by itself
+  useEffect(() => {
+    if (mode !== 'single') return;
+
+    const timer = setTimeout(() => {
+      setHighlightedIndex(prev => (prev + 1) % SWITCH_SCAN_CHOICES.length);
+    }, intervalSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [mode, intervalSeconds, highlightedIndex, scanCycle]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Holding a switch down shouldn't fire it again
+      if (e.repeat) return;
+
+      if (e.code === selectKey) {
+        e.preventDefault();
+        select(highlightedIndex);
+      } else if (mode === 'two-switch' && e.code === stepKey) {
+        e.preventDefault();
+        setHighlightedIndex(prev => (prev + 1) % SWITCH_SCAN_CHOICES.length);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [mode, selectKey, stepKey, highlightedIndex]);
+
+  const getLabel = (choice: SwitchScanChoice) => {
+    switch (choice) {
+      case 'play': return isPlaying ? 'Pause' : 'Play';
+      case 'next': return 'Next';
+      case 'again': return 'Again';
+      case 'stop': return 'Stop';
+    }
+  };
+
+  return (
+    <div className="absolute bottom-0 inset-x-0 z-20 p-6">
+      <div className="grid grid-cols-4 gap-4">
+        {SWITCH_SCAN_CHOICES.map((choice, index) => {
+          const isHighlighted = index === highlightedIndex;
+          const highlightClass = calm
+            ? 'bg-stone-300 text-stone-900 ring-8 ring-stone-100'
+            : 'bg-yellow-400 text-black ring-8 ring-white scale-105';
+          return (
+            <button
+              key={choice}
+              onClick={() => select(index)}
+              aria-current={isHighlighted}
+              className={`h-40 rounded-2xl flex flex-col items-center justify-center text-3xl font-bold transition-transform ${
+                isHighlighted ? highlightClass : calm ? 'bg-stone-700/90 text-stone-300' : 'bg-black/70 text-white'
+              }`}
+            >
+              <svg className="w-16 h-16 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                {choice === 'play' ? (isPlaying ? PAUSE_ICON : PLAY_ICON) : CHOICE_ICONS[choice]}
+              </svg>
+              {getLabel(choice)}
+            </button>
+          );
+        })}
+      </div>
+      <p className={`mt-3 text-center text-sm ${calm ? 'text-stone-400' : 'text-white/70'}`}>
+        {mode === 'two-switch'
+          ? `${getKeyLabel(stepKey)}: move, ${getKeyLabel(selectKey)}: choose`
+          : `${getKeyLabel(selectKey)}: choose the lit button`}
+      </p>
+    </div>
+  );
+};
+
+export default SwitchScanPanel;
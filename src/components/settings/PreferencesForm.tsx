@@ -0,0 +1,361 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { userPreferencesSchema } from '@/lib/validation';
+import { LANDING_PAGES } from '@/lib/preferences';
+import { COLOUR_SCHEMES, getColourScheme } from '@/lib/boomwhackers';
+import { getAllTags } from '@/lib/tags';
+import { SCAN_INTERVAL_OPTIONS, SWITCH_SCAN_MODES, getKeyLabel, isReservedKey } from '@/lib/switchAccess';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { Tag, UserPreferences } from '@/types';
+
+const SESSION_TOGGLES = [
+  { name: 'session.autoplay', label: 'Autoplay', description: 'Start playing immediately' },
+  { name: 'session.shuffle', label: 'Shuffle', description: 'Randomize video order' },
+  { name: 'session.loop', label: 'Loop Playlist', description: 'Repeat when finished' },
+  { name: 'session.fullscreen', label: 'Fullscreen Mode', description: 'Hide distractions' },
+  { name: 'session.colourNotes', label: 'Colour Notes', description: 'Show which Boomwhacker colours each video uses' },
+] as const;
+
+const ACCESSIBILITY_TOGGLES = [
+  { name: 'accessibility.highContrast', label: 'High contrast', description: 'Darker text and borders throughout the app' },
+  { name: 'accessibility.largeText', label: 'Large text', description: 'Make all text and controls bigger' },
+  { name: 'accessibility.lowSensory', label: 'Low-sensory mode', description: 'Start sessions in low-sensory mode: volume fades, no controls overlay, hidden end screens' },
+  { name: 'accessibility.reducedMotion', label: 'Reduced motion', description: 'Turn off animations and transitions' },
+] as const;
+
+const MAX_DEFAULT_TAGS = 5;
+
+interface KeyBindingButtonProps {
+  id: string;
+  value: string;
+  onChange: (code: string) => void;
+}
+
+// Click, then press the key or switch to bind
+const KeyBindingButton: React.FC<KeyBindingButtonProps> = ({ id, value, onChange }) => {
+  const [isListening, setIsListening] = useState(false);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isListening) return;
+    e.preventDefault();
+    if (!isReservedKey(e.code)) {
+      onChange(e.code);
+    }
+    setIsListening(false);
+  };
+
+  return (
+    <button
+      id={id}
+      type="button"
+      onClick={() => setIsListening(true)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => setIsListening(false)}
+      className={`w-full px-3 py-2 border rounded-md text-sm text-left bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+        isListening ? 'border-blue-500 text-blue-700' : 'border-gray-300 text-gray-700'
+      }`}
+    >
+      {isListening ? 'Press a key or switch... (Esc to cancel)' : getKeyLabel(value)}
+    </button>
+  );
+};
+
+const PreferencesForm: React.FC = () => {
+  const { preferences, savePreferences } = usePreferences();
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'error' | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    watch,
+    setValue,
+  } = useForm<UserPreferences>({
+    resolver: zodResolver(userPreferencesSchema),
+    defaultValues: {
+      ...preferences,
+      session: { ...preferences.session, colourScheme: getColourScheme(preferences.session.colourScheme).id },
+    },
+  });
+
+  useEffect(() => {
+    getAllTags().then(setAvailableTags);
+  }, []);
+
+  const volume = watch('session.volume');
+  const defaultTagFilters = watch('defaultTagFilters');
+  const switchAccess = watch('switchAccess');
+
+  const toggleDefaultTag = (tagName: string) => {
+    const updated = defaultTagFilters.includes(tagName)
+      ? defaultTagFilters.filter(tag => tag !== tagName)
+      : [...defaultTagFilters, tagName];
+    setValue('defaultTagFilters', updated, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const onSubmit = async (data: UserPreferences) => {
+    setIsSaving(true);
+    setSaveStatus(null);
+    try {
+      await savePreferences(data);
+      reset(data);
+      setSaveStatus('saved');
+    } catch (error) {
+      setSaveStatus('error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6"
+    >
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Preferences</h2>
+        <p className="text-sm text-gray-600">
+          Saved to your account, so they follow you to any device.
+        </p>
+      </div>
+
+      {/* Session defaults */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-900">Session defaults</h3>
+        <p className="text-xs text-gray-500">Starting values for the session launcher. Each session can still change them.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {SESSION_TOGGLES.map(toggle => (
+            <label key={toggle.name} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg cursor-pointer">
+              <input
+                type="checkbox"
+                {...register(toggle.name)}
+                className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">{toggle.label}</span>
+                <span className="block text-xs text-gray-500">{toggle.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="session-volume" className="text-sm font-medium text-gray-700">Volume</label>
+              <span className="text-sm text-gray-500">{Math.round((volume || 0) * 100)}%</span>
+            </div>
+            <input
+              id="session-volume"
+              type="range"
+              min="0"
+              max="1"
+              step="0.1"
+              {...register('session.volume', { valueAsNumber: true })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+            {errors.session?.volume && (
+              <p className="mt-2 text-sm text-red-600">{errors.session.volume.message}</p>
+            )}
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <label htmlFor="session-colour-scheme" className="block text-sm font-medium text-gray-700 mb-2">
+              Colour chart
+            </label>
+            <select
+              id="session-colour-scheme"
+              {...register('session.colourScheme')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {COLOUR_SCHEMES.map(scheme => (
+                <option key={scheme.id} value={scheme.id}>{scheme.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Accessibility */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-900">Accessibility</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {ACCESSIBILITY_TOGGLES.map(toggle => (
+            <label key={toggle.name} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg cursor-pointer">
+              <input
+                type="checkbox"
+                {...register(toggle.name)}
+                className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">{toggle.label}</span>
+                <span className="block text-xs text-gray-500">{toggle.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Switch access */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-900">Switch access</h3>
+        <label className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg cursor-pointer">
+          <input
+            type="checkbox"
+            {...register('switchAccess.enabled')}
+            className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-700">Start sessions in scanning mode</span>
+            <span className="block text-xs text-gray-500">Participants choose play, next, again or stop with their switches</span>
+          </span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <label htmlFor="switch-mode" className="block text-sm font-medium text-gray-700 mb-2">
+              Scanning
+            </label>
+            <select
+              id="switch-mode"
+              {...register('switchAccess.mode')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SWITCH_SCAN_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              {SWITCH_SCAN_MODES.find(mode => mode.value === switchAccess.mode)?.description}
+            </p>
+          </div>
+          {switchAccess.mode === 'single' && (
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <label htmlFor="switch-interval" className="block text-sm font-medium text-gray-700 mb-2">
+                Move to the next choice every
+              </label>
+              <select
+                id="switch-interval"
+                {...register('switchAccess.scanIntervalSeconds', { valueAsNumber: true })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SCAN_INTERVAL_OPTIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>{seconds} seconds</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <label htmlFor="switch-select-key" className="block text-sm font-medium text-gray-700 mb-2">
+              Select key
+            </label>
+            <KeyBindingButton
+              id="switch-select-key"
+              value={switchAccess.selectKey}
+              onChange={(code) => setValue('switchAccess.selectKey', code, { shouldDirty: true, shouldValidate: true })}
+            />
+          </div>
+          {switchAccess.mode === 'two-switch' && (
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <label htmlFor="switch-step-key" className="block text-sm font-medium text-gray-700 mb-2">
+                Step key
+              </label>
+              <KeyBindingButton
+                id="switch-step-key"
+                value={switchAccess.stepKey}
+                onChange={(code) => setValue('switchAccess.stepKey', code, { shouldDirty: true, shouldValidate: true })}
+              />
+              {errors.switchAccess?.stepKey && (
+                <p className="mt-2 text-sm text-red-600">{errors.switchAccess.stepKey.message}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Navigation and library */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="landing-page" className="block text-sm font-semibold text-gray-900 mb-2">
+            Open the app on
+          </label>
+          <select
+            id="landing-page"
+            {...register('landingPage')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {LANDING_PAGES.map(page => (
+              <option key={page.value} value={page.value}>{page.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <span className="block text-sm font-semibold text-gray-900 mb-2">
+            Default tag filters
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {defaultTagFilters.length}/{MAX_DEFAULT_TAGS}
+            </span>
+          </span>
+          {availableTags.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {availableTags.map(tag => {
+                const isSelected = defaultTagFilters.includes(tag.name);
+                return (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => toggleDefaultTag(tag.name)}
+                    aria-pressed={isSelected}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      isSelected
+                        ? 'bg-blue-100 text-blue-800 border border-blue-300'
+                        : 'bg-gray-100 text-gray-700 border border-gray-300 hover:bg-gray-200'
+                    }`}
+                  >
+                    {tag.name}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No tags available</p>
+          )}
+          {errors.defaultTagFilters && (
+            <p className="mt-2 text-sm text-red-600">{errors.defaultTagFilters.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+        {saveStatus === 'saved' && !isDirty && (
+          <span className="text-sm text-green-600">Preferences saved</span>
+        )}
+        {saveStatus === 'error' && (
+          <span className="text-sm text-red-600">Failed to save. Please try again.</span>
+        )}
+        <button
+          type="button"
+          onClick={() => reset()}
+          disabled={!isDirty || isSaving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Discard Changes
+        </button>
+        <button
+          type="submit"
+          disabled={!isDirty || isSaving}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Preferences'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PreferencesForm;
@@ -0,0 +1,325 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { BoomwhackerNote, TubeInventory } from '@/types';
+import {
+  TUBE_SET_PRESETS,
+  TubeInventoryDetails,
+  createTubeInventory,
+  deleteTubeInventory,
+  getActiveTubeInventory,
+  getUserTubeInventories,
+  setActiveTubeInventory,
+  updateTubeInventory,
+} from '@/lib/inventory';
+import { BOOMWHACKER_NOTES, getColourScheme, getNoteTextColour, sortNotes } from '@/lib/boomwhackers';
+
+interface InventoryFormProps {
+  initial: TubeInventoryDetails;
+  submitLabel: string;
+  onSubmit: (details: TubeInventoryDetails) => Promise<void>;
+  onCancel: () => void;
+}
+
+const InventoryForm: React.FC<InventoryFormProps> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initial.name);
+  const [notes, setNotes] = useState<BoomwhackerNote[]>(initial.notes);
+  const [hasOctavators, setHasOctavators] = useState(initial.hasOctavators);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scheme = getColourScheme(null);
+
+  const toggleNote = (note: BoomwhackerNote) => {
+    setNotes(prev => prev.includes(note) ? prev.filter(n => n !== note) : sortNotes([...prev, note]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Give this venue a name');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ name: name.trim(), notes, hasOctavators });
+    } catch (error) {
+      setError('Failed to save. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <div>
+        <label htmlFor="inventory-name" className="block text-sm font-medium text-gray-700 mb-1">
+          Venue
+        </label>
+        <input
+          id="inventory-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={60}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500"
+          placeholder="Community hall"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">Tubes</span>
+          <div className="space-x-3 text-xs">
+            {TUBE_SET_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => setNotes(preset.notes)}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-7 gap-2">
+          {BOOMWHACKER_NOTES.map(note => {
+            const isOwned = notes.includes(note);
+            const colour = scheme.colours[note];
+            return (
+              <button
+                key={note}
+                type="button"
+                onClick={() => toggleNote(note)}
+                aria-pressed={isOwned}
+                className={`h-10 rounded-md text-sm font-semibold border-2 transition-opacity ${
+                  isOwned ? 'border-gray-900' : 'border-transparent opacity-30 hover:opacity-60'
+                }`}
+                style={{ backgroundColor: colour, color: getNoteTextColour(colour) }}
+              >
+                {note}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={hasOctavators}
+          onChange={(e) => setHasOctavators(e.target.checked)}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>We have octavator caps</span>
+      </label>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const TubeInventoryManager: React.FC = () => {
+  const { user } = useAuth();
+  const [inventories, setInventories] = useState<TubeInventory[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding
+  const scheme = getColourScheme(null);
+
+  useEffect(() => {
+    if (user) {
+      loadInventories();
+    }
+  }, [user]);
+
+  const loadInventories = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const [userInventories, active] = await Promise.all([
+        getUserTubeInventories(user.uid),
+        getActiveTubeInventory(user.uid),
+      ]);
+      setInventories(userInventories);
+      setActiveId(active?.id || null);
+    } catch (error) {
+      console.error('Error loading tube inventories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (details: TubeInventoryDetails) => {
+    if (!user) return;
+
+    const inventoryId = await createTubeInventory(user.uid, details);
+    // The first venue becomes the active one
+    if (inventories.length === 0) {
+      await setActiveTubeInventory(user.uid, inventoryId);
+    }
+    setEditingId(null);
+    await loadInventories();
+  };
+
+  const handleUpdate = async (inventoryId: string, details: TubeInventoryDetails) => {
+    await updateTubeInventory(inventoryId, details);
+    setEditingId(null);
+    await loadInventories();
+  };
+
+  const handleDelete = async (inventory: TubeInventory) => {
+    if (!confirm(`Delete the tube inventory for "${inventory.name}"?`)) return;
+
+    try {
+      await deleteTubeInventory(inventory.id);
+      await loadInventories();
+    } catch (error) {
+      alert('Failed to delete inventory. Please try again.');
+    }
+  };
+
+  const handleSetActive = async (inventoryId: string) => {
+    if (!user) return;
+
+    const previousId = activeId;
+    setActiveId(inventoryId);
+    try {
+      await setActiveTubeInventory(user.uid, inventoryId);
+    } catch (error) {
+      setActiveId(previousId);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Tube Inventory</h2>
+          <p className="text-sm text-gray-600">
+            Record which Boomwhacker tubes each venue owns. Videos and playlists are checked against the active venue.
+          </p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => setEditingId('new')}
+            className="flex-shrink-0 ml-4 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Add Venue
+          </button>
+        )}
+      </div>
+
+      {editingId === 'new' && (
+        <InventoryForm
+          initial={{ name: '', notes: TUBE_SET_PRESETS[0].notes, hasOctavators: false }}
+          submitLabel="Add Venue"
+          onSubmit={handleCreate}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-14 bg-gray-200 rounded"></div>
+          <div className="h-14 bg-gray-200 rounded"></div>
+        </div>
+      ) : inventories.length === 0 && editingId !== 'new' ? (
+        <p className="text-sm text-gray-500">No venues yet. Add one to check which videos you can play.</p>
+      ) : (
+        <ul className="space-y-3">
+          {inventories.map(inventory => (
+            <li key={inventory.id}>
+              {editingId === inventory.id ? (
+                <InventoryForm
+                  initial={inventory}
+                  submitLabel="Save"
+                  onSubmit={(details) => handleUpdate(inventory.id, details)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                  <label className="flex items-start space-x-3 min-w-0 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="active-inventory"
+                      checked={activeId === inventory.id}
+                      onChange={() => handleSetActive(inventory.id)}
+                      className="mt-1 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {inventory.name}
+                        {activeId === inventory.id && (
+                          <span className="ml-2 text-xs font-normal text-blue-600">Active</span>
+                        )}
+                      </p>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {inventory.notes.map(note => {
+                          const colour = scheme.colours[note];
+                          return (
+                            <span
+                              key={note}
+                              className="inline-flex items-center justify-center min-w-[1.75rem] h-6 px-1 rounded text-xs font-semibold"
+                              style={{ backgroundColor: colour, color: getNoteTextColour(colour) }}
+                            >
+                              {note}
+                            </span>
+                          );
+                        })}
+                        {inventory.hasOctavators && (
+                          <span className="inline-flex items-center h-6 px-2 rounded bg-gray-100 text-xs text-gray-700">
+                            + octavators
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </label>
+                  <div className="flex-shrink-0 ml-4 space-x-3 text-sm">
+                    <button
+                      onClick={() => setEditingId(inventory.id)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(inventory)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TubeInventoryManager;
@@ -7,6 +7,7 @@ import { tagSchema } from '@/lib/validation';
 import { createTag, getAllTags, updateTag, deleteTag, getTagSuggestions } from '@/lib/tags';
 import { useAuth } from '@/contexts/AuthContext';
 import { Tag } from '@/types';
+import FlagContentModal, { FlagTarget } from '@/components/modals/FlagContentModal';
 
 interface TagManagerProps {
   isOpen: boolean;
@@ -20,12 +21,13 @@ interface TagFormData {
 }
 
 const TagManager: React.FC<TagManagerProps> = ({ isOpen, onClose, onTagsUpdated }) => {
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const [tags, setTags] = useState<Tag[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingTag, setEditingTag] = useState<Tag | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<Tag['category']>('custom');
+  const [flagTarget, setFlagTarget] = useState<FlagTarget | null>(null);
 
   const {
     register,
@@ -57,7 +59,7 @@ const TagManager: React.FC<TagManagerProps> = ({ isOpen, onClose, onTagsUpdated
   const loadTags = async () => {
     setIsLoading(true);
     try {
-      const allTags = await getAllTags();
+      const allTags = await getAllTags({ includeHidden: isAdmin });
       setTags(allTags);
     } catch (error) {
       console.error('Error loading tags:', error);
@@ -113,6 +115,10 @@ const TagManager: React.FC<TagManagerProps> = ({ isOpen, onClose, onTagsUpdated
     }
   };
 
+  const handleFlag = (tag: Tag) => {
+    setFlagTarget({ itemType: 'tag', itemId: tag.id, itemLabel: tag.name });
+  };
+
   const handleCancel = () => {
     reset();
     setEditingTag(null);
@@ -264,8 +270,19 @@ const TagManager: React.FC<TagManagerProps> = ({ isOpen, onClose, onTagsUpdated
                         <div className="space-y-1">
                           {categoryTags.map((tag) => (
                             <div key={tag.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                              <span className="text-sm text-gray-900">{tag.name}</span>
+                              <span className="text-sm text-gray-900">
+                                {tag.name}
+                                {tag.hidden && (
+                                  <span className="ml-2 text-xs font-medium text-red-600">Hidden</span>
+                                )}
+                              </span>
                               <div className="flex space-x-2">
+                                <button
+                                  onClick={() => handleFlag(tag)}
+                                  className="text-gray-500 hover:text-gray-700 text-sm"
+                                >
+                                  Report
+                                </button>
                                 <button
                                   onClick={() => handleEdit(tag)}
                                   className="text-blue-600 hover:text-blue-800 text-sm"
@@ -300,6 +317,12 @@ const TagManager: React.FC<TagManagerProps> = ({ isOpen, onClose, onTagsUpdated
           </div>
         </div>
       </div>
+
+      <FlagContentModal
+        isOpen={!!flagTarget}
+        target={flagTarget}
+        onClose={() => setFlagTarget(null)}
+      />
     </div>
   );
 };
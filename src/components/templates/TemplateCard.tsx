@@ -0,0 +1,170 @@
+'use client';
+
+import React from 'react';
+import { TemplatePlaylist } from '@/types';
+import { formatTimeOffset } from '@/lib/youtube';
+import { TEMPLATE_CATEGORIES, TEMPLATE_DIFFICULTIES } from '@/lib/templates';
+
+interface TemplateCardProps {
+  template: TemplatePlaylist;
+  currentUserId?: string;
+  isUsing?: boolean;
+  onUse?: (template: TemplatePlaylist) => void;
+  onRate?: (template: TemplatePlaylist, rating: number) => void;
+  onEdit?: (template: TemplatePlaylist) => void;
+  onDelete?: (template: TemplatePlaylist) => void;
+}
+
+const categoryColors: Record<TemplatePlaylist['category'], string> = {
+  warmup: 'bg-orange-100 text-orange-800',
+  activity: 'bg-blue-100 text-blue-800',
+  cooldown: 'bg-teal-100 text-teal-800',
+  seasonal: 'bg-pink-100 text-pink-800',
+  custom: 'bg-gray-100 text-gray-800',
+};
+
+const TemplateCard: React.FC<TemplateCardProps> = ({
+  template,
+  currentUserId,
+  isUsing = false,
+  onUse,
+  onRate,
+  onEdit,
+  onDelete,
+}) => {
+  const isOwner = !!currentUserId && template.createdBy === currentUserId;
+  const userRating = currentUserId ? template.ratingsByUser[currentUserId] : undefined;
+
+  const getCategoryLabel = () => {
+    return TEMPLATE_CATEGORIES.find(c => c.value === template.category)?.label || template.category;
+  };
+
+  const getDifficultyLabel = () => {
+    return TEMPLATE_DIFFICULTIES.find(d => d.value === template.difficulty)?.label || template.difficulty;
+  };
+
+  const getVideoCountText = () => {
+    const count = template.videoRefs.length;
+    return count === 1 ? '1 video' : `${count} videos`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 hover:border-gray-300 transition-all duration-200 flex flex-col">
+      <div className="p-4 flex-1">
+        <div className="flex items-center justify-between mb-2">
+          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${categoryColors[template.category]}`}>
+            {getCategoryLabel()}
+          </span>
+          <span className="text-xs text-gray-500">{getDifficultyLabel()}</span>
+        </div>
+
+        <h3 className="text-sm font-medium text-gray-900 line-clamp-2 mb-1" title={template.title}>
+          {template.title}
+        </h3>
+
+        {template.description && (
+          <p className="text-xs text-gray-500 line-clamp-2 mb-3" title={template.description}>
+            {template.description}
+          </p>
+        )}
+
+        <div className="flex items-center space-x-2 text-xs text-gray-500 mb-3">
+          <span>{getVideoCountText()}</span>
+          <span>•</span>
+          <span>{formatTimeOffset(template.duration)}</span>
+          <span>•</span>
+          <span>Used {template.usageCount} {template.usageCount === 1 ? 'time' : 'times'}</span>
+          {!template.isPublic && (
+            <>
+              <span>•</span>
+              <span>Private</span>
+            </>
+          )}
+        </div>
+
+        {template.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {template.tags.slice(0, 4).map(tag => (
+              <span key={tag} className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">
+                {tag}
+              </span>
+            ))}
+            {template.tags.length > 4 && (
+              <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">
+                +{template.tags.length - 4}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Rating */}
+        <div className="flex items-center space-x-1">
+          {[1, 2, 3, 4, 5].map(star => (
+            <button
+              key={star}
+              onClick={() => onRate?.(template, star)}
+              disabled={!onRate}
+              className={`focus:outline-none ${
+                star <= Math.round(userRating ?? template.rating) ? 'text-yellow-400' : 'text-gray-300'
+              } ${onRate ? 'hover:text-yellow-500' : ''}`}
+              title={onRate ? `Rate ${star} out of 5` : undefined}
+              aria-label={`Rate ${star} out of 5`}
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z" />
+              </svg>
+            </button>
+          ))}
+          <span className="text-xs text-gray-500 ml-1">
+            {template.ratingCount > 0
+              ? `${template.rating.toFixed(1)} (${template.ratingCount})`
+              : 'Not rated yet'}
+          </span>
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="px-4 py-3 border-t border-gray-100 flex items-center justify-between">
+        <button
+          onClick={() => onUse?.(template)}
+          disabled={isUsing || template.videoRefs.length === 0}
+          className="inline-flex items-center px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          {isUsing ? 'Creating...' : 'Use Template'}
+        </button>
+
+        {isOwner && (
+          <div className="flex items-center space-x-2">
+            {onEdit && (
+              <button
+                onClick={() => onEdit(template)}
+                className="p-1 text-gray-400 hover:text-gray-600 focus:outline-none"
+                title="Edit template"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={() => onDelete(template)}
+                className="p-1 text-red-400 hover:text-red-600 focus:outline-none"
+                title="Delete template"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateCard;
@@ -0,0 +1,249 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getUserPlaylists } from '@/lib/firestore';
+import { parseImportInput, runBulkImport, BulkImportRow, BulkImportStatus } from '@/lib/bulkImport';
+import { Playlist, Video } from '@/types';
+
+interface BulkVideoImportProps {
+  onVideosImported: (videos: Video[]) => void;
+  onClose?: () => void;
+}
+
+const statusLabels: Record<BulkImportStatus, string> = {
+  added: 'Added',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+  'not-found': 'Not found',
+  error: 'Error',
+};
+
+const statusColors: Record<BulkImportStatus, string> = {
+  added: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-red-100 text-red-800',
+  'not-found': 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+const BulkVideoImport: React.FC<BulkVideoImportProps> = ({ onVideosImported, onClose }) => {
+  const { user } = useAuth();
+  const [text, setText] = useState('');
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [playlistId, setPlaylistId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [processingStep, setProcessingStep] = useState('');
+  const [results, setResults] = useState<BulkImportRow[] | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      getUserPlaylists(user.uid).then(setPlaylists);
+    }
+  }, [user]);
+
+  const inputs = parseImportInput(text);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const contents = await file.text();
+    setText(prev => (prev.trim() ? `${prev.trim()}\n${contents}` : contents));
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!user || inputs.length === 0) return;
+
+    setIsImporting(true);
+    setResults(null);
+    try {
+      const rows = await runBulkImport(inputs, user.uid, {
+        playlistId: playlistId || undefined,
+        onProgress: setProcessingStep,
+      });
+      setResults(rows);
+
+      const imported = rows
+        .filter(row => row.status === 'added' && row.video)
+        .map(row => row.video as Video);
+      if (imported.length > 0) {
+        onVideosImported(imported);
+      }
+    } catch (error) {
+      console.error('Error importing videos:', error);
+    } finally {
+      setIsImporting(false);
+      setProcessingStep('');
+    }
+  };
+
+  const handleReset = () => {
+    setText('');
+    setResults(null);
+  };
+
+  const countByStatus = (status: BulkImportStatus) => {
+    return results ? results.filter(row => row.status === status).length : 0;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-gray-900">Bulk Import Videos</h3>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 focus:outline-none"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {results ? (
+        <div className="space-y-4">
+          {/* Summary */}
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(statusLabels) as BulkImportStatus[]).map(status => (
+              countByStatus(status) > 0 && (
+                <span key={status} className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[status]}`}>
+                  {countByStatus(status)} {statusLabels[status].toLowerCase()}
+                </span>
+              )
+            ))}
+          </div>
+
+          {/* Per-row results */}
+          <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Input</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Video</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {results.map((row, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2 text-xs text-gray-500 max-w-[12rem] truncate" title={row.input}>{row.input}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900 max-w-[16rem] truncate" title={row.video?.title}>
+                      {row.video?.title || '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[row.status]}`}>
+                        {statusLabels[row.status]}
+                      </span>
+                      {row.message && (
+                        <span className="block text-xs text-gray-500 mt-0.5">{row.message}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={handleReset}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Import More
+            </button>
+            {onClose && (
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Done
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="bulk-urls" className="block text-sm font-medium text-gray-700 mb-1">
+              YouTube URLs
+            </label>
+            <textarea
+              id="bulk-urls"
+              rows={8}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              disabled={isImporting}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-500 font-mono text-sm"
+              placeholder={'https://www.youtube.com/watch?v=...\nhttps://youtu.be/...'}
+            />
+            <div className="mt-1 flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                One URL per line. {inputs.length > 0 && `${inputs.length} found.`}
+              </p>
+              <label className="text-sm text-blue-600 hover:text-blue-500 cursor-pointer">
+                Upload CSV or text file
+                <input
+                  type="file"
+                  accept=".csv,.txt,text/csv,text/plain"
+                  onChange={handleFileChange}
+                  disabled={isImporting}
+                  className="sr-only"
+                />
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="bulk-playlist" className="block text-sm font-medium text-gray-700 mb-1">
+              Add to playlist (optional)
+            </label>
+            <select
+              id="bulk-playlist"
+              value={playlistId}
+              onChange={(e) => setPlaylistId(e.target.value)}
+              disabled={isImporting}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+            >
+              <option value="">Don&apos;t add to a playlist</option>
+              {playlists.map(playlist => (
+                <option key={playlist.id} value={playlist.id}>{playlist.title}</option>
+              ))}
+            </select>
+          </div>
+
+          {isImporting && processingStep && (
+            <div className="flex items-center text-sm text-gray-600">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+              {processingStep}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            {onClose && (
+              <button
+                onClick={onClose}
+                disabled={isImporting}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleImport}
+              disabled={isImporting || inputs.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : `Import ${inputs.length || ''} Video${inputs.length !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkVideoImport;
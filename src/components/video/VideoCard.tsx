@@ -3,13 +3,16 @@
 import React, { useState } from 'react';
 import { Video } from '@/types';
 import { formatDuration } from '@/lib/youtube';
+import { getColourScheme, getNoteTextColour } from '@/lib/boomwhackers';
 
 interface VideoCardProps {
   video: Video;
   onSelect?: (video: Video) => void;
   onEdit?: (video: Video) => void;
+  onEditNotes?: (video: Video) => void;
   onDelete?: (video: Video) => void;
   onAddToPlaylist?: (video: Video) => void;
+  onFlag?: (video: Video) => void;
   isSelected?: boolean;
   showActions?: boolean;
   isPlaylistView?: boolean;
@@ -19,8 +22,10 @@ const VideoCard: React.FC<VideoCardProps> = ({
   video,
   onSelect,
   onEdit,
+  onEditNotes,
   onDelete,
   onAddToPlaylist,
+  onFlag,
   isSelected = false,
   showActions = true,
   isPlaylistView = false,
@@ -77,6 +82,13 @@ const VideoCard: React.FC<VideoCardProps> = ({
           {getFormattedDuration()}
         </div>
         
+        {/* Hidden badge (only admins receive hidden videos) */}
+        {video.hidden && (
+          <div className="absolute top-2 right-2 bg-red-600 text-white text-xs font-medium px-2 py-1 rounded">
+            Hidden
+          </div>
+        )}
+        
         {/* Selection indicator */}
         {isSelected && (
           <div className="absolute top-2 left-2 bg-blue-500 text-white rounded-full p-1">
@@ -116,6 +128,24 @@ const VideoCard: React.FC<VideoCardProps> = ({
           </div>
         )}
         
+        {/* Colour notes */}
+        {video.boomwhackerNotes && video.boomwhackerNotes.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3" aria-label="Colour notes">
+            {video.boomwhackerNotes.map(note => {
+              const colour = getColourScheme(null).colours[note];
+              return (
+                <span
+                  key={note}
+                  className="inline-flex items-center justify-center min-w-[1.75rem] h-6 px-1 rounded text-xs font-semibold"
+                  style={{ backgroundColor: colour, color: getNoteTextColour(colour) }}
+                >
+                  {note}
+                </span>
+              );
+            })}
+          </div>
+        )}
+        
         {/* Actions */}
         {showActions && (
           <div className="flex items-center justify-between">
@@ -172,6 +202,22 @@ const VideoCard: React.FC<VideoCardProps> = ({
                       </button>
                     )}
                     
+                    {onEditNotes && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEditNotes(video);
+                          setIsMenuOpen(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                      >
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+                        </svg>
+                        Edit Colour Notes
+                      </button>
+                    )}
+                    
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -186,6 +232,22 @@ const VideoCard: React.FC<VideoCardProps> = ({
                       View on YouTube
                     </button>
                     
+                    {onFlag && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onFlag(video);
+                          setIsMenuOpen(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                      >
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+                        </svg>
+                        Report
+                      </button>
+                    )}
+                    
                     {onDelete && (
                       <button
                         onClick={(e) => {
@@ -1,33 +1,78 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Video } from '@/types';
+import { TubeInventory, Video, VideoFilters } from '@/types';
 import VideoCard from './VideoCard';
 import VideoSearch from './VideoSearch';
 import { getUserPlaylists } from '@/lib/firestore';
+import { getActiveTubeInventory, isVideoPlayableWith } from '@/lib/inventory';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 
 interface VideoGridProps {
   videos: Video[];
   isLoading?: boolean;
   onVideoSelect?: (video: Video) => void;
   onVideoEdit?: (video: Video) => void;
+  onVideoEditNotes?: (video: Video) => void;
   onVideoDelete?: (video: Video) => void;
   onAddToPlaylist?: (video: Video) => void;
+  onVideoFlag?: (video: Video) => void;
   selectedVideos?: Video[];
   showSearch?: boolean;
-  onSearch?: (query: string, filters: any) => void;
+  onSearch?: (query: string, filters: VideoFilters) => void;
   emptyMessage?: string;
   emptyIcon?: React.ReactNode;
 }
 
+// Default client-side filtering, used when the parent doesn't handle searching
+const filterVideos = (videos: Video[], query: string, filters: VideoFilters): Video[] => {
+  let filtered = videos;
+  
+  if (query) {
+    filtered = filtered.filter(video => 
+      video.title.toLowerCase().includes(query.toLowerCase()) ||
+      video.channelName.toLowerCase().includes(query.toLowerCase()) ||
+      video.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase()))
+    );
+  }
+  
+  if (filters.tags.length > 0) {
+    filtered = filtered.filter(video => 
+      filters.tags.some(tag => video.tags.includes(tag))
+    );
+  }
+  
+  if (filters.duration !== 'all') {
+    filtered = filtered.filter(video => {
+      const duration = video.duration;
+      // This is a simplified duration check - you might want to improve this
+      const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+      if (match) {
+        const totalMinutes = (parseInt(match[1] || '0') * 60) + parseInt(match[2] || '0');
+        switch (filters.duration) {
+          case 'short': return totalMinutes <= 3;
+          case 'medium': return totalMinutes > 3 && totalMinutes <= 10;
+          case 'long': return totalMinutes > 10;
+          default: return true;
+        }
+      }
+      return true;
+    });
+  }
+  
+  return filtered;
+};
+
 const VideoGrid: React.FC<VideoGridProps> = ({
   videos,
   isLoading = false,
   onVideoSelect,
   onVideoEdit,
+  onVideoEditNotes,
   onVideoDelete,
   onAddToPlaylist,
+  onVideoFlag,
   selectedVideos = [],
   showSearch = true,
   onSearch,
@@ -35,59 +80,51 @@ const VideoGrid: React.FC<VideoGridProps> = ({
   emptyIcon,
 }) => {
   const { user } = useAuth();
+  const { preferences } = usePreferences();
+  // The library opens filtered by the user's default tags
+  const [initialFilters] = useState<VideoFilters>({
+    tags: preferences.defaultTagFilters,
+    duration: 'all',
+    sortBy: 'recent',
+    sortOrder: 'desc',
+    playableOnly: false,
+  });
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredVideos, setFilteredVideos] = useState<Video[]>(videos);
+  const [searchFilters, setSearchFilters] = useState<VideoFilters>(initialFilters);
+  const [filteredVideos, setFilteredVideos] = useState<Video[]>(
+    onSearch ? videos : filterVideos(videos, '', initialFilters)
+  );
+  const [inventory, setInventory] = useState<TubeInventory | null>(null);
+  const [playableOnly, setPlayableOnly] = useState(false);
 
   useEffect(() => {
-    setFilteredVideos(videos);
+    if (user) {
+      getActiveTubeInventory(user.uid).then(setInventory);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setFilteredVideos(onSearch ? videos : filterVideos(videos, searchQuery, searchFilters));
   }, [videos]);
 
-  const handleSearch = (query: string, filters: any) => {
+  const handleSearch = (query: string, filters: VideoFilters) => {
     setSearchQuery(query);
+    setSearchFilters(filters);
+    setPlayableOnly(filters.playableOnly);
     
     if (onSearch) {
       onSearch(query, filters);
       return;
     }
     
-    // Default client-side filtering
-    let filtered = videos;
-    
-    if (query) {
-      filtered = filtered.filter(video => 
-        video.title.toLowerCase().includes(query.toLowerCase()) ||
-        video.channelName.toLowerCase().includes(query.toLowerCase()) ||
-        video.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase()))
-      );
-    }
-    
-    if (filters.tags && filters.tags.length > 0) {
-      filtered = filtered.filter(video => 
-        filters.tags.some((tag: string) => video.tags.includes(tag))
-      );
-    }
-    
-    if (filters.duration && filters.duration !== 'all') {
-      filtered = filtered.filter(video => {
-        const duration = video.duration;
-        // This is a simplified duration check - you might want to improve this
-        const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-        if (match) {
-          const totalMinutes = (parseInt(match[1] || '0') * 60) + parseInt(match[2] || '0');
-          switch (filters.duration) {
-            case 'short': return totalMinutes <= 3;
-            case 'medium': return totalMinutes > 3 && totalMinutes <= 10;
-            case 'long': return totalMinutes > 10;
-            default: return true;
-          }
-        }
-        return true;
-      });
-    }
-    
-    setFilteredVideos(filtered);
+    setFilteredVideos(filterVideos(videos, query, filters));
   };
 
+  // Applied on top of the search results, including when a parent handles searching
+  const visibleVideos = playableOnly && inventory
+    ? filteredVideos.filter(video => isVideoPlayableWith(video, inventory))
+    : filteredVideos;
+
   const isVideoSelected = (video: Video) => {
     return selectedVideos.some(selected => selected.videoId === video.videoId);
   };
@@ -123,10 +160,10 @@ const VideoGrid: React.FC<VideoGridProps> = ({
   return (
     <div className="space-y-6">
       {showSearch && (
-        <VideoSearch onSearch={handleSearch} />
+        <VideoSearch onSearch={handleSearch} initialFilters={initialFilters} inventoryName={inventory?.name} />
       )}
       
-      {filteredVideos.length === 0 ? (
+      {visibleVideos.length === 0 ? (
         <div className="text-center py-12">
           <div className="mx-auto w-12 h-12 text-gray-400 mb-4">
             {emptyIcon || (
@@ -147,6 +184,7 @@ const VideoGrid: React.FC<VideoGridProps> = ({
             onClick={() => {
               setSearchQuery('');
               setFilteredVideos(videos);
+              setPlayableOnly(false);
             }}
             className="text-sm text-blue-600 hover:text-blue-500"
           >
@@ -157,7 +195,7 @@ const VideoGrid: React.FC<VideoGridProps> = ({
         <>
           <div className="flex items-center justify-between">
             <p className="text-sm text-gray-600">
-              {filteredVideos.length} video{filteredVideos.length !== 1 ? 's' : ''}
+              {visibleVideos.length} video{visibleVideos.length !== 1 ? 's' : ''}
               {searchQuery && ` matching ${searchQuery}`}
             </p>
             
@@ -172,7 +210,7 @@ const VideoGrid: React.FC<VideoGridProps> = ({
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredVideos
+            {visibleVideos
               .filter((video, index, self) => 
                 index === self.findIndex(v => v.videoId === video.videoId)
               )
@@ -182,8 +220,10 @@ const VideoGrid: React.FC<VideoGridProps> = ({
                   video={video}
                   onSelect={onVideoSelect}
                 onEdit={onVideoEdit}
+                onEditNotes={onVideoEditNotes}
                 onDelete={onVideoDelete}
                 onAddToPlaylist={onAddToPlaylist}
+                onFlag={onVideoFlag}
                 isSelected={isVideoSelected(video)}
                 showActions={true}
               />
@@ -2,19 +2,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { getAllTags } from '@/lib/tags';
-import { Tag } from '@/types';
+import { Tag, VideoFilters } from '@/types';
 
 interface VideoSearchProps {
-  onSearch: (query: string, filters: SearchFilters) => void;
+  onSearch: (query: string, filters: VideoFilters) => void;
   initialQuery?: string;
-  initialFilters?: SearchFilters;
-}
-
-interface SearchFilters {
-  tags: string[];
-  duration: 'all' | 'short' | 'medium' | 'long';
-  sortBy: 'recent' | 'title' | 'duration' | 'channel';
-  sortOrder: 'asc' | 'desc';
+  initialFilters?: VideoFilters;
+  inventoryName?: string; // active venue; enables the "playable with our set" filter
 }
 
 const VideoSearch: React.FC<VideoSearchProps> = ({
@@ -25,10 +19,12 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
     duration: 'all',
     sortBy: 'recent',
     sortOrder: 'desc',
+    playableOnly: false,
   },
+  inventoryName,
 }) => {
   const [query, setQuery] = useState(initialQuery);
-  const [filters, setFilters] = useState<SearchFilters>(initialFilters);
+  const [filters, setFilters] = useState<VideoFilters>(initialFilters);
   const [showFilters, setShowFilters] = useState(false);
   const [availableTags, setAvailableTags] = useState<Tag[]>([]);
   const [isLoadingTags, setIsLoadingTags] = useState(false);
@@ -53,7 +49,7 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
     onSearch(query, filters);
   };
 
-  const handleFilterChange = (newFilters: Partial<SearchFilters>) => {
+  const handleFilterChange = (newFilters: Partial<VideoFilters>) => {
     const updatedFilters = { ...filters, ...newFilters };
     setFilters(updatedFilters);
     onSearch(query, updatedFilters);
@@ -68,18 +64,20 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
   };
 
   const clearAllFilters = () => {
-    const defaultFilters = {
+    const defaultFilters: VideoFilters = {
       tags: [],
-      duration: 'all' as const,
-      sortBy: 'recent' as const,
-      sortOrder: 'desc' as const,
+      duration: 'all',
+      sortBy: 'recent',
+      sortOrder: 'desc',
+      playableOnly: false,
     };
     setFilters(defaultFilters);
     setQuery('');
     onSearch('', defaultFilters);
   };
 
-  const hasActiveFilters = filters.tags.length > 0 || filters.duration !== 'all' || query;
+  const hasActiveFilters = filters.tags.length > 0 || filters.duration !== 'all' || filters.playableOnly || query;
+  const activeFilterCount = filters.tags.length + (filters.duration !== 'all' ? 1 : 0) + (filters.playableOnly ? 1 : 0) + (query ? 1 : 0);
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
@@ -125,7 +123,7 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
             Filters
             {hasActiveFilters && (
               <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                {filters.tags.length + (filters.duration !== 'all' ? 1 : 0) + (query ? 1 : 0)}
+                {activeFilterCount}
               </span>
             )}
           </button>
@@ -140,7 +138,7 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
                 <label className="block text-sm font-medium text-gray-700 mb-2">Duration</label>
                 <select
                   value={filters.duration}
-                  onChange={(e) => handleFilterChange({ duration: e.target.value as SearchFilters['duration'] })}
+                  onChange={(e) => handleFilterChange({ duration: e.target.value as VideoFilters['duration'] })}
                   className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900"
                 >
                   <option value="all">All Durations</option>
@@ -155,7 +153,7 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
                 <label className="block text-sm font-medium text-gray-700 mb-2">Sort By</label>
                 <select
                   value={filters.sortBy}
-                  onChange={(e) => handleFilterChange({ sortBy: e.target.value as SearchFilters['sortBy'] })}
+                  onChange={(e) => handleFilterChange({ sortBy: e.target.value as VideoFilters['sortBy'] })}
                   className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900"
                 >
                   <option value="recent">Most Recent</option>
@@ -170,7 +168,7 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
                 <label className="block text-sm font-medium text-gray-700 mb-2">Order</label>
                 <select
                   value={filters.sortOrder}
-                  onChange={(e) => handleFilterChange({ sortOrder: e.target.value as SearchFilters['sortOrder'] })}
+                  onChange={(e) => handleFilterChange({ sortOrder: e.target.value as VideoFilters['sortOrder'] })}
                   className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900"
                 >
                   <option value="desc">Descending</option>
@@ -179,6 +177,22 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
               </div>
             </div>
 
+            {/* Playable Filter */}
+            {inventoryName && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={filters.playableOnly}
+                  onChange={(e) => handleFilterChange({ playableOnly: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span>
+                  Playable with our set ({inventoryName})
+                  <span className="block text-xs text-gray-500">Videos without colour notes are hidden</span>
+                </span>
+              </label>
+            )}
+
             {/* Tags Filter */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Tags</label>
@@ -217,7 +231,7 @@ const VideoSearch: React.FC<VideoSearchProps> = ({
             {hasActiveFilters && (
               <div className="flex justify-between items-center pt-2 border-t border-gray-200">
                 <span className="text-sm text-gray-500">
-                  {filters.tags.length + (filters.duration !== 'all' ? 1 : 0) + (query ? 1 : 0)} filter(s) active
+                  {activeFilterCount} filter(s) active
                 </span>
                 <button
                   onClick={clearAllFilters}
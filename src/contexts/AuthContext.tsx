@@ -2,15 +2,22 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User } from 'firebase/auth';
-import { onAuthStateChange } from '@/lib/auth';
+import { onAuthStateChange, getUserProfile, subscribeToUserProfile } from '@/lib/auth';
+import { User as AppUser, UserRole } from '@/types';
 
 interface AuthContextType {
   user: User | null;
+  profile: AppUser | null;
+  role: UserRole;
+  isAdmin: boolean;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  profile: null,
+  role: 'worker',
+  isAdmin: false,
   loading: true,
 });
 
@@ -24,21 +31,42 @@ export const useAuth = () => {
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<AppUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
     setMounted(true);
-    const unsubscribe = onAuthStateChange((user) => {
+    let unsubscribeProfile: (() => void) | null = null;
+
+    const unsubscribe = onAuthStateChange(async (user) => {
+      unsubscribeProfile?.();
+      unsubscribeProfile = null;
+
+      // The profile holds the role, so resolve it before clearing the loading state
+      setProfile(user ? await getUserProfile(user.uid) : null);
       setUser(user);
       setLoading(false);
+
+      // Then keep it live, so disabling an account locks it out straight away
+      if (user) {
+        unsubscribeProfile = subscribeToUserProfile(user.uid, setProfile);
+      }
     });
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      unsubscribeProfile?.();
+    };
   }, []);
 
+  const role = profile?.role || 'worker';
+
   const value = {
     user,
+    profile,
+    role,
+    isAdmin: role === 'admin',
     loading: loading || !mounted,
   };
 
@@ -47,4 +75,4 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
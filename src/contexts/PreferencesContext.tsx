@@ -0,0 +1,73 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { DEFAULT_USER_PREFERENCES, getUserPreferences, saveUserPreferences } from '@/lib/preferences';
+import { UserPreferences } from '@/types';
+
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  loading: boolean;
+  savePreferences: (preferences: UserPreferences) => Promise<void>;
+}
+
+const PreferencesContext = createContext<PreferencesContextType>({
+  preferences: DEFAULT_USER_PREFERENCES,
+  loading: true,
+  savePreferences: async () => {},
+});
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+};
+
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, loading: authLoading } = useAuth();
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_USER_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      setPreferences(DEFAULT_USER_PREFERENCES);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    getUserPreferences(user.uid).then(stored => {
+      if (cancelled) return;
+      setPreferences(stored);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading]);
+
+  const savePreferences = async (updated: UserPreferences) => {
+    if (!user) return;
+
+    await saveUserPreferences(user.uid, updated);
+    setPreferences(updated);
+  };
+
+  const value = {
+    preferences,
+    loading: loading || authLoading,
+    savePreferences,
+  };
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
@@ -1,12 +1,16 @@
 import { 
   SessionAnalytics, 
+  PartialSessionAnalytics,
+  GoalProgress,
+  SessionResumeState,
   VideoPlaybackData, 
+  PracticeLoop,
+  StepPlaybackData,
+  SessionStep,
   UsageMetrics, 
   VideoAnalytics, 
   PlaylistAnalytics, 
   DeviceInfo,
-  RecommendationData,
-  TemplatePlaylist,
   SessionSettings 
 } from '@/types';
 import { 
@@ -14,6 +18,7 @@ import {
   doc, 
   setDoc, 
   updateDoc, 
+  deleteDoc,
   getDocs, 
   getDoc, 
   query, 
@@ -32,8 +37,19 @@ const ANALYTICS_SESSIONS = 'analytics_sessions';
 const ANALYTICS_VIDEOS = 'analytics_videos';
 const ANALYTICS_PLAYLISTS = 'analytics_playlists';
 const USAGE_METRICS = 'usage_metrics';
-const RECOMMENDATIONS = 'recommendations';
-const TEMPLATES = 'templates';
+const ANALYTICS_SESSIONS_PARTIAL = `${ANALYTICS_SESSIONS}_partial`;
+
+// Sessions left longer than this are not offered for resuming
+const RESUME_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+// Post-session engagement scale, lowest first
+export const ENGAGEMENT_LEVELS: { value: number; label: string }[] = [
+  { value: 1, label: 'Not engaged' },
+  { value: 2, label: 'A little' },
+  { value: 3, label: 'Somewhat' },
+  { value: 4, label: 'Engaged' },
+  { value: 5, label: 'Fully engaged' },
+];
 
 // Device Info Detection
 export const getDeviceInfo = (): DeviceInfo => {
@@ -79,29 +95,73 @@ export class SessionTracker {
   private settings: SessionSettings;
   private deviceInfo: DeviceInfo;
   private currentVideoData: Partial<VideoPlaybackData> | null = null;
+  private stepsCompleted: StepPlaybackData[] = [];
+  private currentStep: { entryId: string; step: SessionStep; startTime: Date } | null = null;
   private saveInterval: NodeJS.Timeout | null = null;
+  private resumeState: SessionResumeState | null = null;
+  private participantIds: string[] = [];
+  private plannedSession: { plannedSessionId: string; plannedDate: string } | null = null;
+  private hasEnded = false;
 
   constructor(
     userId: string, 
     playlistId: string, 
-    settings: SessionSettings
+    settings: SessionSettings,
+    resumeFrom?: PartialSessionAnalytics
   ) {
-    this.sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.sessionId = resumeFrom?.id || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     this.userId = userId;
     this.playlistId = playlistId;
-    this.startTime = new Date();
+    this.startTime = resumeFrom ? new Date(resumeFrom.startTime) : new Date();
     this.settings = settings;
     this.deviceInfo = getDeviceInfo();
+
+    // Carry on the interrupted session record instead of starting a new one
+    if (resumeFrom) {
+      this.videosPlayed = [...resumeFrom.videosPlayed];
+      this.stepsCompleted = [...(resumeFrom.stepsCompleted || [])];
+      this.resumeState = resumeFrom.resume || null;
+      this.participantIds = [...(resumeFrom.participantIds || [])];
+      if (resumeFrom.plannedSessionId && resumeFrom.plannedDate) {
+        this.plannedSession = { plannedSessionId: resumeFrom.plannedSessionId, plannedDate: resumeFrom.plannedDate };
+      }
+    }
     
     this.startAutoSave();
   }
 
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  // Record where playback is; kept locally straight away and in Firestore with the next save
+  setResumeState(resumeState: SessionResumeState): void {
+    if (this.hasEnded) return;
+    this.resumeState = resumeState;
+    writeLocalPartialSession(this.buildPartialSession());
+  }
+
+  // Record who attended; saved with the session so reports can be filtered per participant
+  setParticipants(participantIds: string[]): void {
+    if (this.hasEnded) return;
+    this.participantIds = [...participantIds];
+  }
+
+  // Link the session to the schedule entry it was launched from, for planned vs delivered
+  setPlannedSession(plannedSessionId: string, plannedDate: string): void {
+    if (this.hasEnded) return;
+    this.plannedSession = { plannedSessionId, plannedDate };
+  }
+
   // Start tracking a video
   startVideo(videoId: string): void {
-    // End previous video if exists
+    // End previous video or step if exists
     if (this.currentVideoData) {
       this.endVideo();
     }
+    if (this.currentStep) {
+      this.endStep();
+    }
 
     this.currentVideoData = {
       videoId,
@@ -141,6 +201,32 @@ export class SessionTracker {
     }
   }
 
+  // Record a practice speed change
+  recordRateChange(rate: number, positionSeconds: number): void {
+    if (this.currentVideoData) {
+      this.currentVideoData.rateChanges = [
+        ...(this.currentVideoData.rateChanges || []),
+        { rate, positionSeconds: Math.round(positionSeconds), changedAt: new Date().toISOString() },
+      ];
+    }
+  }
+
+  // Record a new A-B practice loop
+  recordLoop(startSeconds: number, endSeconds: number): void {
+    if (this.currentVideoData) {
+      const loop: PracticeLoop = { startSeconds: Math.round(startSeconds), endSeconds: Math.round(endSeconds), repeats: 0 };
+      this.currentVideoData.loops = [...(this.currentVideoData.loops || []), loop];
+    }
+  }
+
+  // Record playback jumping back to the start of the current A-B loop
+  recordLoopRepeat(): void {
+    const loops = this.currentVideoData?.loops;
+    if (loops && loops.length > 0) {
+      loops[loops.length - 1].repeats += 1;
+    }
+  }
+
   // Record video skip
   recordSkip(): void {
     if (this.currentVideoData) {
@@ -160,6 +246,8 @@ export class SessionTracker {
         skipped: this.currentVideoData.skipped || false,
         rewound: this.currentVideoData.rewound || false,
         pauseCount: this.currentVideoData.pauseCount || 0,
+        ...(this.currentVideoData.rateChanges ? { rateChanges: this.currentVideoData.rateChanges } : {}),
+        ...(this.currentVideoData.loops ? { loops: this.currentVideoData.loops } : {}),
       };
 
       this.videosPlayed.push(videoData);
@@ -170,6 +258,38 @@ export class SessionTracker {
     }
   }
 
+  // Start timing a non-video step (instruction, timer, picture or pause)
+  startStep(entryId: string, step: SessionStep): void {
+    if (this.currentVideoData) {
+      this.endVideo();
+    }
+    if (this.currentStep) {
+      this.endStep();
+    }
+
+    this.currentStep = { entryId, step, startTime: new Date() };
+  }
+
+  // End the current step; timed steps left before the countdown finished count as skipped
+  endStep(): void {
+    if (!this.currentStep) return;
+
+    const { entryId, step, startTime } = this.currentStep;
+    const endTime = new Date();
+    const duration = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
+
+    this.stepsCompleted.push({
+      entryId,
+      type: step.type,
+      title: step.title,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration,
+      skipped: step.durationSeconds !== undefined && duration < step.durationSeconds,
+    });
+    this.currentStep = null;
+  }
+
   // Calculate session completion rate
   private calculateCompletionRate(): number {
     if (this.videosPlayed.length === 0) return 0;
@@ -184,12 +304,19 @@ export class SessionTracker {
 
   // End session and save to database
   async endSession(exitReason: 'completed' | 'manual' | 'error' = 'manual'): Promise<void> {
-    // End current video if exists
+    // Exiting ends the session and unmounting the player tries again; only the first call counts
+    if (this.hasEnded) return;
+
+    // End current video or step if exists
     if (this.currentVideoData) {
       this.endVideo();
     }
+    if (this.currentStep) {
+      this.endStep();
+    }
 
     // Stop auto-save
+    this.hasEnded = true;
     if (this.saveInterval) {
       clearInterval(this.saveInterval);
     }
@@ -206,16 +333,22 @@ export class SessionTracker {
       endTime: endTime.toISOString(),
       duration,
       videosPlayed: this.videosPlayed,
+      stepsCompleted: this.stepsCompleted,
       settings: this.settings,
       deviceInfo: this.deviceInfo,
       completionRate,
       exitReason,
+      ...(this.participantIds.length > 0 ? { participantIds: this.participantIds } : {}),
+      ...(this.plannedSession || {}),
     };
 
     try {
       // Save session analytics
       await setDoc(doc(db, ANALYTICS_SESSIONS, this.sessionId), sessionData);
 
+      // Nothing left to resume once the session has been recorded
+      await discardPartialSession(this.userId, this.playlistId, this.sessionId);
+
       // Update playlist analytics
       await this.updatePlaylistAnalytics(duration, completionRate);
 
@@ -235,26 +368,36 @@ export class SessionTracker {
     }, 30000); // 30 seconds
   }
 
-  // Save partial session data (for recovery purposes)
-  private async savePartialSession(): Promise<void> {
+  private buildPartialSession(): PartialSessionAnalytics {
     const currentTime = new Date();
     const duration = Math.round((currentTime.getTime() - this.startTime.getTime()) / 1000);
 
-    const partialData = {
+    return {
       id: this.sessionId,
       userId: this.userId,
       playlistId: this.playlistId,
       startTime: this.startTime.toISOString(),
       duration,
       videosPlayed: this.videosPlayed,
+      stepsCompleted: this.stepsCompleted,
       settings: this.settings,
       deviceInfo: this.deviceInfo,
       completionRate: this.calculateCompletionRate(),
       lastUpdated: currentTime.toISOString(),
+      ...(this.participantIds.length > 0 ? { participantIds: this.participantIds } : {}),
+      ...(this.plannedSession || {}),
+      ...(this.resumeState ? { resume: this.resumeState } : {}),
     };
+  }
+
+  // Save partial session data (for recovery purposes)
+  async savePartialSession(): Promise<void> {
+    if (this.hasEnded) return;
+    const partialData = this.buildPartialSession();
+    writeLocalPartialSession(partialData);
 
     try {
-      await setDoc(doc(db, `${ANALYTICS_SESSIONS}_partial`, this.sessionId), partialData);
+      await setDoc(doc(db, ANALYTICS_SESSIONS_PARTIAL, this.sessionId), partialData);
     } catch (error) {
       console.error('Error saving partial session:', error);
     }
@@ -405,6 +548,81 @@ export class SessionTracker {
   }
 }
 
+// Local copy of the partial session, which survives a crash even when the last Firestore save didn't happen
+const getLocalPartialSessionKey = (userId: string, playlistId: string) => {
+  return `musicnme-session-${userId}-${playlistId}`;
+};
+
+const writeLocalPartialSession = (partialData: PartialSessionAnalytics): void => {
+  try {
+    localStorage.setItem(
+      getLocalPartialSessionKey(partialData.userId, partialData.playlistId),
+      JSON.stringify(partialData)
+    );
+  } catch (error) {
+    console.error('Error saving local session progress:', error);
+  }
+};
+
+const readLocalPartialSession = (userId: string, playlistId: string): PartialSessionAnalytics | null => {
+  try {
+    const stored = localStorage.getItem(getLocalPartialSessionKey(userId, playlistId));
+    return stored ? JSON.parse(stored) as PartialSessionAnalytics : null;
+  } catch (error) {
+    console.error('Error reading local session progress:', error);
+    return null;
+  }
+};
+
+// Find an interrupted session for this playlist, preferring whichever copy was saved last
+export const getResumableSession = async (
+  userId: string,
+  playlistId: string
+): Promise<PartialSessionAnalytics | null> => {
+  const candidates: PartialSessionAnalytics[] = [];
+
+  const localSession = readLocalPartialSession(userId, playlistId);
+  if (localSession) {
+    candidates.push(localSession);
+  }
+
+  try {
+    const q = query(
+      collection(db, ANALYTICS_SESSIONS_PARTIAL),
+      where('userId', '==', userId),
+      where('playlistId', '==', playlistId)
+    );
+    const querySnapshot = await getDocs(q);
+    candidates.push(...querySnapshot.docs.map(doc => doc.data() as PartialSessionAnalytics));
+  } catch (error) {
+    console.error('Error fetching partial sessions:', error);
+  }
+
+  const cutoff = Date.now() - RESUME_MAX_AGE_MS;
+  const resumable = candidates
+    .filter(session => session.resume && new Date(session.lastUpdated).getTime() >= cutoff)
+    .sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+
+  return resumable[0] || null;
+};
+
+export const discardPartialSession = async (
+  userId: string,
+  playlistId: string,
+  sessionId: string
+): Promise<void> => {
+  const localSession = readLocalPartialSession(userId, playlistId);
+  if (localSession?.id === sessionId) {
+    localStorage.removeItem(getLocalPartialSessionKey(userId, playlistId));
+  }
+
+  try {
+    await deleteDoc(doc(db, ANALYTICS_SESSIONS_PARTIAL, sessionId));
+  } catch (error) {
+    console.error('Error discarding partial session:', error);
+  }
+};
+
 // Analytics Query Functions
 export const getSessionAnalytics = async (userId: string, limitCount?: number): Promise<SessionAnalytics[]> => {
   try {
@@ -426,6 +644,63 @@ export const getSessionAnalytics = async (userId: string, limitCount?: number):
   }
 };
 
+export const getSessionRecord = async (sessionId: string): Promise<SessionAnalytics | null> => {
+  try {
+    const sessionDoc = await getDoc(doc(db, ANALYTICS_SESSIONS, sessionId));
+    return sessionDoc.exists() ? sessionDoc.data() as SessionAnalytics : null;
+  } catch (error) {
+    console.error('Error fetching session record:', error);
+    return null;
+  }
+};
+
+// Post-session notes, 1-5 engagement ratings and goal progress. Saving again replaces earlier
+// ratings rather than counting them twice in the video totals.
+export const saveSessionReview = async (
+  sessionId: string,
+  notes: string,
+  engagementRatings: Record<string, number>,
+  goalProgress: GoalProgress[] = []
+): Promise<void> => {
+  try {
+    const sessionRef = doc(db, ANALYTICS_SESSIONS, sessionId);
+    const sessionDoc = await getDoc(sessionRef);
+    if (!sessionDoc.exists()) {
+      throw new Error('Session not found');
+    }
+    const previousRatings = (sessionDoc.data() as SessionAnalytics).engagementRatings || {};
+
+    // Ratings can be changed but not withdrawn, so the video totals stay in step with the session
+    await updateDoc(sessionRef, {
+      notes,
+      engagementRatings: { ...previousRatings, ...engagementRatings },
+      goalProgress,
+    });
+
+    for (const [videoId, rating] of Object.entries(engagementRatings)) {
+      const previousRating = previousRatings[videoId];
+      if (previousRating === rating) continue;
+
+      const videoAnalyticsRef = doc(db, ANALYTICS_VIDEOS, videoId);
+      const videoDoc = await getDoc(videoAnalyticsRef);
+      if (!videoDoc.exists()) continue;
+
+      const currentData = videoDoc.data() as VideoAnalytics;
+      const engagementRatingCount = (currentData.engagementRatingCount || 0) + (previousRating === undefined ? 1 : 0);
+      const engagementRatingTotal = (currentData.engagementRatingTotal || 0) + rating - (previousRating || 0);
+
+      await updateDoc(videoAnalyticsRef, {
+        engagementRatingCount,
+        engagementRatingTotal,
+        averageEngagement: Math.round((engagementRatingTotal / engagementRatingCount) * 10) / 10,
+      });
+    }
+  } catch (error) {
+    console.error('Error saving session review:', error);
+    throw error;
+  }
+};
+
 export const getVideoAnalytics = async (videoId: string): Promise<VideoAnalytics | null> => {
   try {
     const videoDoc = await getDoc(doc(db, ANALYTICS_VIDEOS, videoId));
@@ -436,6 +711,16 @@ export const getVideoAnalytics = async (videoId: string): Promise<VideoAnalytics
   }
 };
 
+export const getAllVideoAnalytics = async (): Promise<VideoAnalytics[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, ANALYTICS_VIDEOS));
+    return querySnapshot.docs.map(doc => doc.data() as VideoAnalytics);
+  } catch (error) {
+    console.error('Error fetching all video analytics:', error);
+    return [];
+  }
+};
+
 export const getPlaylistAnalytics = async (playlistId: string): Promise<PlaylistAnalytics | null> => {
   try {
     const playlistDoc = await getDoc(doc(db, ANALYTICS_PLAYLISTS, playlistId));
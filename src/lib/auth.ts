@@ -5,7 +5,7 @@ import {
   User,
   onAuthStateChanged 
 } from 'firebase/auth';
-import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, setDoc, getDoc, onSnapshot, serverTimestamp, DocumentData } from 'firebase/firestore';
 import { auth, db } from './firebase';
 import { User as AppUser } from '@/types';
 
@@ -24,6 +24,7 @@ export const signInWithGoogle = async (): Promise<AppUser | null> => {
       uid: user.uid,
       name: user.displayName || '',
       email: user.email || '',
+      role: userDoc.exists() ? userDoc.data().role || 'worker' : 'worker',
       createdAt: userDoc.exists() ? userDoc.data().createdAt : new Date().toISOString(),
     };
     
@@ -41,6 +42,37 @@ export const signInWithGoogle = async (): Promise<AppUser | null> => {
   }
 };
 
+const toAppUser = (uid: string, data: DocumentData): AppUser => ({
+  ...data,
+  uid,
+  role: data.role || 'worker',
+  disabled: !!data.disabled,
+  createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+} as AppUser);
+
+// Load the Firestore profile for a signed-in user. Accounts created before
+// roles existed have no role field and are treated as workers.
+export const getUserProfile = async (uid: string): Promise<AppUser | null> => {
+  try {
+    const userDoc = await getDoc(doc(db, 'users', uid));
+    if (!userDoc.exists()) return null;
+    
+    return toAppUser(uid, userDoc.data());
+  } catch (error) {
+    console.error('Error getting user profile:', error);
+    return null;
+  }
+};
+
+// Follow profile changes so a role change or disabled account applies without a reload
+export const subscribeToUserProfile = (uid: string, callback: (profile: AppUser | null) => void) => {
+  return onSnapshot(
+    doc(db, 'users', uid),
+    (userDoc) => callback(userDoc.exists() ? toAppUser(uid, userDoc.data()) : null),
+    (error) => console.error('Error watching user profile:', error)
+  );
+};
+
 export const signOut = async (): Promise<void> => {
   try {
     await firebaseSignOut(auth);
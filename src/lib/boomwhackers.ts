@@ -0,0 +1,110 @@
+import { BoomwhackerNote, Video } from '@/types';
+
+// Low to high, matching the order tubes are laid out
+export const BOOMWHACKER_NOTES: BoomwhackerNote[] = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B', "C'"];
+
+export const DIATONIC_NOTES: BoomwhackerNote[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B', "C'"];
+
+export type ColourSchemeId = 'boomwhackers' | 'figurenotes' | 'rainbow';
+
+export interface ColourScheme {
+  id: ColourSchemeId;
+  name: string;
+  description: string;
+  colours: Record<BoomwhackerNote, string>;
+}
+
+// Several colour standards are in use, so the overlay lets workers pick the one matching their tubes
+export const COLOUR_SCHEMES: ColourScheme[] = [
+  {
+    id: 'boomwhackers',
+    name: 'Boomwhackers',
+    description: 'The standard chart printed on Boomwhackers tubes',
+    colours: {
+      'C': '#E21C2A',
+      'C#': '#F25C2A',
+      'D': '#F7941D',
+      'D#': '#FBB040',
+      'E': '#FFE600',
+      'F': '#9BCB3C',
+      'F#': '#3FAE49',
+      'G': '#00853E',
+      'G#': '#00A3AD',
+      'A': '#6A3E98',
+      'A#': '#A14D9E',
+      'B': '#E7489A',
+      "C'": '#E21C2A',
+    },
+  },
+  {
+    id: 'figurenotes',
+    name: 'Figurenotes',
+    description: 'Figurenotes colours; sharps share the colour of the note below',
+    colours: {
+      'C': '#D7261E',
+      'C#': '#D7261E',
+      'D': '#8B5A2B',
+      'D#': '#8B5A2B',
+      'E': '#9E9E9E',
+      'F': '#1E63C6',
+      'F#': '#1E63C6',
+      'G': '#1A1A1A',
+      'G#': '#1A1A1A',
+      'A': '#FFD600',
+      'A#': '#FFD600',
+      'B': '#2E9E44',
+      "C'": '#D7261E',
+    },
+  },
+  {
+    id: 'rainbow',
+    name: 'Rainbow',
+    description: 'Red to violet up the scale, as used by many bell and chime sets',
+    colours: {
+      'C': '#E53935',
+      'C#': '#F4511E',
+      'D': '#FB8C00',
+      'D#': '#FDD835',
+      'E': '#FFEB3B',
+      'F': '#43A047',
+      'F#': '#00897B',
+      'G': '#1E88E5',
+      'G#': '#3949AB',
+      'A': '#3F51B5',
+      'A#': '#5E35B1',
+      'B': '#8E24AA',
+      "C'": '#E53935',
+    },
+  },
+];
+
+export const DEFAULT_COLOUR_SCHEME_ID: ColourSchemeId = 'boomwhackers';
+
+export const getColourScheme = (id: string | null | undefined): ColourScheme => {
+  return COLOUR_SCHEMES.find(scheme => scheme.id === id)
+    || COLOUR_SCHEMES.find(scheme => scheme.id === DEFAULT_COLOUR_SCHEME_ID)!;
+};
+
+export const isBoomwhackerNote = (value: string): value is BoomwhackerNote => {
+  return (BOOMWHACKER_NOTES as string[]).includes(value);
+};
+
+// Deduplicate and put notes in tube order
+export const sortNotes = (notes: BoomwhackerNote[]): BoomwhackerNote[] => {
+  return BOOMWHACKER_NOTES.filter(note => notes.includes(note));
+};
+
+// Every tube needed across a set of videos, so they can be handed out once at the start
+export const getTubeSet = (videos: Video[]): BoomwhackerNote[] => {
+  return sortNotes(videos.flatMap(video => video.boomwhackerNotes || []));
+};
+
+// Dark text on light colours (yellow, lime) and white text elsewhere
+export const getNoteTextColour = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const r = (value >> 16) & 0xff;
+  const g = (value >> 8) & 0xff;
+  const b = value & 0xff;
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? '#111827' : '#FFFFFF';
+};
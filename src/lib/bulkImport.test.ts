@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { addVideo, createPlaylist, getAllVideos } from './firestore';
+import { importYouTubePlaylist } from './bulkImport';
+import { YouTubeTransport } from './youtube';
+import { Video } from '@/types';
+
+vi.mock('./firestore', () => ({
+  addVideo: vi.fn(),
+  getAllVideos: vi.fn(),
+  getPlaylist: vi.fn(),
+  createPlaylist: vi.fn(),
+  updatePlaylist: vi.fn(),
+  createPlaylistEntry: (videoId: string) => ({ id: `entry_${videoId}`, videoId }),
+}));
+
+const STUB_BASE_URL = 'http://localhost:9999/youtube/v3';
+const PLAYLIST_ID = 'PLstubplaylist01';
+
+// 11-character ids, as extractVideoId expects
+const FIRST = 'firstvideo1';
+const SECOND = 'secondvide2';
+const THIRD = 'thirdvideo3';
+const REMOVED = 'removedvid4';
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+// Stands in for the Data API: two pages of playlist items, then one videos lookup
+const createStubTransport = (): YouTubeTransport & { urls: string[] } => {
+  const urls: string[] = [];
+  const transport = async (url: string) => {
+    urls.push(url);
+    const { pathname, searchParams } = new URL(url);
+    const endpoint = pathname.split('/').pop();
+
+    if (endpoint === 'playlists') {
+      return json({ items: [{ id: PLAYLIST_ID, snippet: { title: 'Warm-up songs', description: '' } }] });
+    }
+
+    if (endpoint === 'playlistItems') {
+      return searchParams.get('pageToken') === 'page-2'
+        ? json({ items: [{ contentDetails: { videoId: FIRST } }, { contentDetails: { videoId: THIRD } }] })
+        : json({
+          items: [{ contentDetails: { videoId: SECOND } }, { contentDetails: { videoId: REMOVED } }, { contentDetails: { videoId: FIRST } }],
+          nextPageToken: 'page-2',
+        });
+    }
+
+    if (endpoint === 'videos') {
+      const ids = (searchParams.get('id') || '').split(',').filter(id => id !== REMOVED);
+      return json({
+        items: ids.map(id => ({
+          id,
+          snippet: { title: `Song ${id}`, channelTitle: 'Stub Channel', description: '' },
+          contentDetails: { duration: 'PT2M30S' },
+          status: { embeddable: true },
+        })),
+      });
+    }
+
+    return new Response(null, { status: 404 });
+  };
+  return Object.assign(transport, { urls });
+};
+
+describe('importYouTubePlaylist', () => {
+  beforeEach(() => {
+    vi.mocked(addVideo).mockReset().mockResolvedValue('video-doc');
+    vi.mocked(getAllVideos).mockReset().mockResolvedValue([]);
+    vi.mocked(createPlaylist).mockReset().mockResolvedValue('new-playlist');
+  });
+
+  it('pages through the playlist and creates videos and the playlist in source order', async () => {
+    const transport = createStubTransport();
+
+    const result = await importYouTubePlaylist(
+      `https://www.youtube.com/playlist?list=${PLAYLIST_ID}`,
+      'user-1',
+      { youtube: { transport, baseUrl: STUB_BASE_URL, apiKey: 'stub-key' } }
+    );
+
+    expect(transport.urls.every(url => url.startsWith(STUB_BASE_URL))).toBe(true);
+    expect(transport.urls.filter(url => url.includes('/playlistItems?'))).toHaveLength(2);
+
+    // Repeats are reported as duplicates rather than added twice
+    expect(vi.mocked(addVideo).mock.calls.map(([video]) => video.videoId)).toEqual([SECOND, FIRST, THIRD]);
+    expect(result.rows.map(row => row.status)).toEqual(['added', 'not-found', 'added', 'duplicate', 'added']);
+
+    expect(result).toMatchObject({ playlistId: 'new-playlist', title: 'Warm-up songs' });
+    const playlistData = vi.mocked(createPlaylist).mock.calls[0][0];
+    expect(playlistData.userId).toBe('user-1');
+    expect(playlistData.entries.map(entry => entry.videoId)).toEqual([SECOND, FIRST, FIRST, THIRD]);
+  });
+
+  it('keeps videos already in the library in the new playlist', async () => {
+    const existing: Video = {
+      videoId: SECOND,
+      title: 'Already here',
+      duration: '1:00',
+      thumbnail: '',
+      tags: [],
+      channelName: 'Channel',
+      createdBy: 'someone-else',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+    vi.mocked(getAllVideos).mockResolvedValue([existing]);
+
+    const result = await importYouTubePlaylist(PLAYLIST_ID, 'user-1', {
+      youtube: { transport: createStubTransport(), baseUrl: STUB_BASE_URL, apiKey: 'stub-key' },
+    });
+
+    expect(vi.mocked(addVideo).mock.calls.map(([video]) => video.videoId)).toEqual([FIRST, THIRD]);
+    expect(result.rows[0]).toMatchObject({ videoId: SECOND, status: 'duplicate', video: existing });
+    expect(vi.mocked(createPlaylist).mock.calls[0][0].entries.map(entry => entry.videoId))
+      .toEqual([SECOND, FIRST, FIRST, THIRD]);
+  });
+});
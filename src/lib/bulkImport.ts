@@ -0,0 +1,199 @@
+import {
+  extractVideoId,
+  extractPlaylistId,
+  fetchVideoMetadataBatch,
+  fetchPlaylistDetails,
+  generateAutoTags,
+  YouTubeClientOptions,
+} from './youtube';
+import { addVideo, getAllVideos, getPlaylist, createPlaylist, updatePlaylist, createPlaylistEntry } from './firestore';
+import { Video } from '@/types';
+
+export type BulkImportStatus = 'added' | 'duplicate' | 'invalid' | 'not-found' | 'error';
+
+export interface BulkImportRow {
+  input: string;
+  videoId?: string;
+  status: BulkImportStatus;
+  video?: Video;
+  message?: string;
+}
+
+export interface BulkImportOptions {
+  playlistId?: string;
+  onProgress?: (step: string) => void;
+  youtube?: YouTubeClientOptions;
+}
+
+export interface PlaylistImportResult {
+  playlistId: string;
+  title: string;
+  rows: BulkImportRow[];
+}
+
+// Pull one URL/ID per line out of pasted text or a CSV/text file. For CSV rows
+// the first cell that contains a video ID wins; a header row is skipped.
+export const parseImportInput = (text: string): string[] => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  return lines
+    .map(line => {
+      const cells = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^["']|["']$/g, ''));
+      return cells.find(cell => extractVideoId(cell) !== null) || cells[0];
+    })
+    .filter((value, index) => {
+      const looksLikeHeader = index === 0 && extractVideoId(value) === null && !/youtu|\//i.test(value);
+      return value.length > 0 && !looksLikeHeader;
+    });
+};
+
+export const runBulkImport = async (
+  inputs: string[],
+  userId: string,
+  options: BulkImportOptions = {}
+): Promise<BulkImportRow[]> => {
+  const { playlistId, onProgress, youtube } = options;
+
+  const rows: BulkImportRow[] = inputs.map(input => {
+    const videoId = extractVideoId(input);
+    return videoId
+      ? { input, videoId, status: 'added' }
+      : { input, status: 'invalid', message: 'Not a YouTube video URL' };
+  });
+
+  // De-duplicate against the input itself and the shared library
+  onProgress?.('Checking for duplicates...');
+  const existingVideos = await getAllVideos({ includeHidden: true });
+  const existingById = new Map(existingVideos.map(video => [video.videoId, video]));
+  const seenIds = new Set<string>();
+
+  rows.forEach(row => {
+    if (row.status !== 'added' || !row.videoId) return;
+
+    if (seenIds.has(row.videoId)) {
+      row.status = 'duplicate';
+      row.message = 'Listed more than once';
+    } else if (existingById.has(row.videoId)) {
+      row.status = 'duplicate';
+      row.message = 'Already in the library';
+      row.video = existingById.get(row.videoId);
+    }
+    seenIds.add(row.videoId);
+  });
+
+  const pendingRows = rows.filter(row => row.status === 'added');
+
+  if (pendingRows.length > 0) {
+    onProgress?.(`Fetching details for ${pendingRows.length} video${pendingRows.length !== 1 ? 's' : ''}...`);
+    try {
+      const metadata = await fetchVideoMetadataBatch(pendingRows.map(row => row.videoId as string), youtube);
+
+      for (const [index, row] of pendingRows.entries()) {
+        const details = metadata.get(row.videoId as string);
+        if (!details) {
+          row.status = 'not-found';
+          row.message = 'Removed, private or does not exist';
+          continue;
+        }
+
+        onProgress?.(`Adding videos... ${index + 1} of ${pendingRows.length}`);
+        const videoData: Omit<Video, 'createdAt'> = {
+          videoId: details.id,
+          title: details.title,
+          duration: details.duration,
+          thumbnail: details.thumbnails.high.url || details.thumbnails.medium.url || details.thumbnails.default.url || '',
+          tags: generateAutoTags(details),
+          channelName: details.channelTitle,
+          createdBy: userId,
+        };
+
+        try {
+          await addVideo(videoData);
+          row.video = { ...videoData, createdAt: new Date().toISOString() };
+        } catch (error) {
+          console.error(`Error importing video ${row.videoId}:`, error);
+          row.status = 'error';
+          row.message = 'Could not be saved';
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching metadata for bulk import:', error);
+      pendingRows.forEach(row => {
+        if (row.status === 'added' && !row.video) {
+          row.status = 'error';
+          row.message = 'Could not reach YouTube';
+        }
+      });
+    }
+  }
+
+  if (playlistId) {
+    onProgress?.('Adding videos to playlist...');
+    await addRowsToPlaylist(playlistId, rows);
+  }
+
+  return rows;
+};
+
+// Append imported and already-in-library videos that the playlist doesn't have yet
+const addRowsToPlaylist = async (playlistId: string, rows: BulkImportRow[]) => {
+  try {
+    const playlist = await getPlaylist(playlistId);
+    if (!playlist) return;
+
+    const videoIds = rows
+      .filter(row => row.video)
+      .map(row => row.videoId as string)
+      .filter(videoId => !playlist.videoRefs.includes(videoId));
+
+    if (videoIds.length === 0) return;
+
+    await updatePlaylist(playlistId, {
+      entries: [...playlist.entries, ...videoIds.map(createPlaylistEntry)],
+    });
+  } catch (error) {
+    console.error('Error adding imported videos to playlist:', error);
+  }
+};
+
+// Import every video from a YouTube playlist URL and create a matching playlist,
+// keeping the YouTube order (including repeats). Throws if the playlist can't be read.
+export const importYouTubePlaylist = async (
+  url: string,
+  userId: string,
+  options: Omit<BulkImportOptions, 'playlistId'> & { title?: string } = {}
+): Promise<PlaylistImportResult> => {
+  const youtubePlaylistId = extractPlaylistId(url);
+  if (!youtubePlaylistId) {
+    throw new Error('Not a YouTube playlist URL');
+  }
+
+  options.onProgress?.('Reading YouTube playlist...');
+  const details = await fetchPlaylistDetails(youtubePlaylistId, options.youtube);
+  if (!details) {
+    throw new Error('Playlist not found or is private');
+  }
+
+  const rows = await runBulkImport(details.videoIds, userId, {
+    onProgress: options.onProgress,
+    youtube: options.youtube,
+  });
+
+  const availableIds = new Set(rows.filter(row => row.video).map(row => row.videoId as string));
+  const title = options.title?.trim() || details.title;
+
+  options.onProgress?.('Creating playlist...');
+  const playlistId = await createPlaylist({
+    userId,
+    title,
+    notes: `Imported from YouTube playlist ${youtubePlaylistId}`,
+    entries: details.videoIds
+      .filter(videoId => availableIds.has(videoId))
+      .map(videoId => createPlaylistEntry(videoId)),
+  });
+
+  return { playlistId, title, rows };
+};
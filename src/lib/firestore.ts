@@ -13,9 +13,12 @@ import {
   limit,
   serverTimestamp,
   Timestamp,
+  writeBatch,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { Video, Playlist, PlaylistWithVideos } from '@/types';
+import { durationToSeconds } from './youtube';
+import type { SharedPlaylist } from './sharing';
+import { Video, VideoAvailability, BoomwhackerNote, Playlist, PlaylistEntry, PlaylistSection, PlaylistWithVideos, SessionStep, TemplatePlaylist } from '@/types';
 
 // Video operations
 export const addVideo = async (video: Omit<Video, 'createdAt'>): Promise<string> => {
@@ -75,7 +78,12 @@ export const getVideo = async (videoId: string): Promise<Video | null> => {
   }
 };
 
-export const getAllVideos = async (): Promise<Video[]> => {
+// Hidden videos are only returned to admins (moderation queue, admin panel)
+export interface VideoQueryOptions {
+  includeHidden?: boolean;
+}
+
+export const getAllVideos = async (options: VideoQueryOptions = {}): Promise<Video[]> => {
   try {
     const videosRef = collection(db, 'videos');
     const querySnapshot = await getDocs(videosRef);
@@ -90,14 +98,14 @@ export const getAllVideos = async (): Promise<Video[]> => {
       index === self.findIndex(v => v.videoId === video.videoId)
     );
     
-    return uniqueVideos;
+    return options.includeHidden ? uniqueVideos : uniqueVideos.filter(video => !video.hidden);
   } catch (error) {
     console.error('Error getting all videos:', error);
     return [];
   }
 };
 
-export const getVideosByTags = async (tags: string[]): Promise<Video[]> => {
+export const getVideosByTags = async (tags: string[], options: VideoQueryOptions = {}): Promise<Video[]> => {
   try {
     const videosRef = collection(db, 'videos');
     const q = query(videosRef, where('tags', 'array-contains-any', tags));
@@ -113,18 +121,232 @@ export const getVideosByTags = async (tags: string[]): Promise<Video[]> => {
       index === self.findIndex(v => v.videoId === video.videoId)
     );
     
-    return uniqueVideos;
+    return options.includeHidden ? uniqueVideos : uniqueVideos.filter(video => !video.hidden);
   } catch (error) {
     console.error('Error getting videos by tags:', error);
     return [];
   }
 };
 
+export const setVideoHidden = async (videoId: string, hidden: boolean): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'videos', videoId), { hidden });
+  } catch (error) {
+    console.error('Error updating video visibility:', error);
+    throw error;
+  }
+};
+
+export const setVideoAvailability = async (videoId: string, availability: VideoAvailability): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'videos', videoId), {
+      availability,
+      availabilityCheckedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating video availability:', error);
+    throw error;
+  }
+};
+
+export const setVideoBoomwhackerNotes = async (
+  videoId: string,
+  notes: BoomwhackerNote[],
+  needsOctavators: boolean
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'videos', videoId), { boomwhackerNotes: notes, needsOctavators });
+  } catch (error) {
+    console.error('Error updating video notes:', error);
+    throw error;
+  }
+};
+
+export const getUnavailableVideoIds = async (): Promise<string[]> => {
+  try {
+    const q = query(collection(db, 'videos'), where('availability', '==', 'unavailable'));
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(doc => doc.id);
+  } catch (error) {
+    console.error('Error getting unavailable videos:', error);
+    return [];
+  }
+};
+
+// Everything that still points at a video, shown to its owner before deleting it
+export interface VideoReferences {
+  playlists: Playlist[];
+  templates: TemplatePlaylist[];
+  shares: SharedPlaylist[]; // active share links for the affected playlists
+}
+
+// Throws rather than returning empty results, so a failed lookup is never
+// mistaken for "safe to delete"
+export const getVideoReferences = async (videoId: string): Promise<VideoReferences> => {
+  try {
+    const [playlistsSnapshot, templatesSnapshot] = await Promise.all([
+      getDocs(query(collection(db, 'playlists'), where('videoRefs', 'array-contains', videoId))),
+      getDocs(query(collection(db, 'templates'), where('videoRefs', 'array-contains', videoId))),
+    ]);
+    
+    const playlists = playlistsSnapshot.docs.map(doc => {
+      const entries = normalizePlaylistEntries(doc.data());
+      return {
+        id: doc.id,
+        ...doc.data(),
+        entries,
+        videoRefs: getVideoRefs(entries),
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+      };
+    }) as Playlist[];
+    
+    const templates = templatesSnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+      createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+    })) as TemplatePlaylist[];
+    
+    // Shares point at playlists rather than videos; Firestore caps `in` filters at 30 values
+    const playlistIds = playlists.map(playlist => playlist.id);
+    const shares: SharedPlaylist[] = [];
+    for (let i = 0; i < playlistIds.length; i += 30) {
+      const sharesSnapshot = await getDocs(query(
+        collection(db, 'sharedPlaylists'),
+        where('playlistId', 'in', playlistIds.slice(i, i + 30)),
+        where('isActive', '==', true)
+      ));
+      shares.push(...sharesSnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+      })) as SharedPlaylist[]);
+    }
+    
+    return { playlists, templates, shares };
+  } catch (error) {
+    console.error('Error getting video references:', error);
+    throw error;
+  }
+};
+
+// Removes the video from every playlist and template that uses it, then deletes it.
+// Shared links load their playlist live, so they drop the video with the playlist.
+export const deleteVideo = async (videoId: string): Promise<void> => {
+  try {
+    const [{ playlists, templates }, video] = await Promise.all([
+      getVideoReferences(videoId),
+      getVideo(videoId),
+    ]);
+    const videoSeconds = video ? durationToSeconds(video.duration) : 0;
+    
+    const batch = writeBatch(db);
+    
+    playlists.forEach(playlist => {
+      const entries = sanitizeEntries(playlist.entries.filter(entry => entry.videoId !== videoId));
+      batch.update(doc(db, 'playlists', playlist.id), {
+        entries,
+        videoRefs: getVideoRefs(entries),
+      });
+    });
+    
+    templates.forEach(template => {
+      const videoRefs = template.videoRefs.filter(ref => ref !== videoId);
+      const removedCount = template.videoRefs.length - videoRefs.length;
+      batch.update(doc(db, 'templates', template.id), {
+        videoRefs,
+        duration: Math.max((template.duration || 0) - removedCount * videoSeconds, 0),
+      });
+    });
+    
+    batch.delete(doc(db, 'videos', videoId));
+    await batch.commit();
+  } catch (error) {
+    console.error('Error deleting video:', error);
+    throw error;
+  }
+};
+
+// Playlist entry helpers
+export const createEntryId = (): string => {
+  return `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const createPlaylistEntry = (videoId: string): PlaylistEntry => ({
+  id: createEntryId(),
+  videoId,
+});
+
+// Build entries from stored playlist data. Playlists saved before clip support
+// only have `videoRefs` as a plain string array, so those are converted here.
+export const normalizePlaylistEntries = (data: { entries?: unknown; videoRefs?: unknown }): PlaylistEntry[] => {
+  if (Array.isArray(data.entries)) {
+    return data.entries as PlaylistEntry[];
+  }
+
+  if (!Array.isArray(data.videoRefs)) {
+    return [];
+  }
+
+  return data.videoRefs
+    .filter((ref): ref is string => typeof ref === 'string' && ref.length > 0)
+    .map((videoId, index) => ({
+      id: `legacy_${index}_${videoId}`,
+      videoId,
+    }));
+};
+
+// Firestore rejects undefined values, so drop unset clip offsets before writing
+const sanitizeEntries = (entries: PlaylistEntry[]) => {
+  return entries.map(entry => {
+    const sanitized: PlaylistEntry = { id: entry.id };
+    if (entry.videoId) sanitized.videoId = entry.videoId;
+    if (entry.step) sanitized.step = sanitizeStep(entry.step);
+    if (typeof entry.startSeconds === 'number') sanitized.startSeconds = entry.startSeconds;
+    if (typeof entry.endSeconds === 'number') sanitized.endSeconds = entry.endSeconds;
+    if (entry.sectionId) sanitized.sectionId = entry.sectionId;
+    return sanitized;
+  });
+};
+
+const sanitizeStep = (step: SessionStep): SessionStep => {
+  const sanitized: SessionStep = { type: step.type, title: step.title };
+  if (step.text) sanitized.text = step.text;
+  if (step.imageUrl) sanitized.imageUrl = step.imageUrl;
+  if (typeof step.durationSeconds === 'number') sanitized.durationSeconds = step.durationSeconds;
+  return sanitized;
+};
+
+const sanitizeSections = (sections: PlaylistSection[]) => {
+  return sections.map(section => {
+    const sanitized: PlaylistSection = { id: section.id, name: section.name };
+    if (typeof section.targetSeconds === 'number') sanitized.targetSeconds = section.targetSeconds;
+    return sanitized;
+  });
+};
+
+// Seconds an entry plays for, honouring its clip offsets
+export const getEntryDurationSeconds = (entry: PlaylistEntry, video: Video): number => {
+  const videoSeconds = durationToSeconds(video.duration);
+  const start = entry.startSeconds ?? 0;
+  const end = entry.endSeconds !== undefined ? Math.min(entry.endSeconds, videoSeconds || entry.endSeconds) : videoSeconds;
+  return Math.max(end - start, 0);
+};
+
+// Video IDs in play order; non-video steps have no videoId and are left out
+export const getVideoRefs = (entries: PlaylistEntry[]): string[] => {
+  return entries.flatMap(entry => (entry.videoId ? [entry.videoId] : []));
+};
+
 // Playlist operations
-export const createPlaylist = async (playlist: Omit<Playlist, 'id' | 'createdAt'>): Promise<string> => {
+export const createPlaylist = async (playlist: Omit<Playlist, 'id' | 'createdAt' | 'videoRefs'>): Promise<string> => {
   try {
+    const entries = sanitizeEntries(playlist.entries);
     const playlistRef = await addDoc(collection(db, 'playlists'), {
       ...playlist,
+      ...(playlist.sections ? { sections: sanitizeSections(playlist.sections) } : {}),
+      entries,
+      videoRefs: getVideoRefs(entries),
       createdAt: serverTimestamp(),
     });
     return playlistRef.id;
@@ -141,9 +363,12 @@ export const getPlaylist = async (playlistId: string): Promise<Playlist | null>
     
     if (playlistDoc.exists()) {
       const data = playlistDoc.data();
+      const entries = normalizePlaylistEntries(data);
       return {
         id: playlistDoc.id,
         ...data,
+        entries,
+        videoRefs: getVideoRefs(entries),
         createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
       } as Playlist;
     }
@@ -190,11 +415,16 @@ export const getUserPlaylists = async (userId: string): Promise<Playlist[]> => {
       try {
         const querySnapshot = await getDocs(q);
         
-        const playlists = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-          createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        })) as Playlist[];
+        const playlists = querySnapshot.docs.map(doc => {
+          const entries = normalizePlaylistEntries(doc.data());
+          return {
+            id: doc.id,
+            ...doc.data(),
+            entries,
+            videoRefs: getVideoRefs(entries),
+            createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          };
+        }) as Playlist[];
         
         // Sort by createdAt in JavaScript since we can't use orderBy without index
         return playlists.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -216,9 +446,45 @@ export const getUserPlaylists = async (userId: string): Promise<Playlist[]> => {
   }
 };
 
+export const getAllPlaylists = async (): Promise<Playlist[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'playlists'));
+    
+    return querySnapshot.docs.map(doc => {
+      const entries = normalizePlaylistEntries(doc.data());
+      return {
+        id: doc.id,
+        ...doc.data(),
+        entries,
+        videoRefs: getVideoRefs(entries),
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+      };
+    }) as Playlist[];
+  } catch (error) {
+    console.error('Error getting all playlists:', error);
+    return [];
+  }
+};
+
 export const updatePlaylist = async (playlistId: string, updates: Partial<Playlist>): Promise<void> => {
   try {
     const playlistRef = doc(db, 'playlists', playlistId);
+    
+    if (updates.sections) {
+      updates = { ...updates, sections: sanitizeSections(updates.sections) };
+    }
+    
+    // Keep videoRefs in sync whenever the entry list changes
+    if (updates.entries) {
+      const entries = sanitizeEntries(updates.entries);
+      await updateDoc(playlistRef, {
+        ...updates,
+        entries,
+        videoRefs: getVideoRefs(entries),
+      });
+      return;
+    }
+    
     await updateDoc(playlistRef, updates);
   } catch (error) {
     console.error('Error updating playlist:', error);
@@ -226,6 +492,33 @@ export const updatePlaylist = async (playlistId: string, updates: Partial<Playli
   }
 };
 
+// Persist entries for playlists that were stored with plain string videoRefs
+export const migrateLegacyPlaylists = async (userId: string): Promise<number> => {
+  try {
+    const q = query(collection(db, 'playlists'), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+    
+    let migratedCount = 0;
+    
+    for (const playlistDoc of querySnapshot.docs) {
+      const data = playlistDoc.data();
+      if (Array.isArray(data.entries)) continue;
+      
+      const entries = getVideoRefs(normalizePlaylistEntries(data)).map(createPlaylistEntry);
+      await updateDoc(playlistDoc.ref, {
+        entries,
+        videoRefs: getVideoRefs(entries),
+      });
+      migratedCount++;
+    }
+    
+    return migratedCount;
+  } catch (error) {
+    console.error('Error migrating legacy playlists:', error);
+    return 0;
+  }
+};
+
 export const deletePlaylist = async (playlistId: string): Promise<void> => {
   try {
     const playlistRef = doc(db, 'playlists', playlistId);
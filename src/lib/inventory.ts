@@ -0,0 +1,146 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { BOOMWHACKER_NOTES, DIATONIC_NOTES, sortNotes } from './boomwhackers';
+import { BoomwhackerNote, TubeInventory, Video } from '@/types';
+
+const INVENTORIES = 'tubeInventories';
+
+export type TubeInventoryDetails = Pick<TubeInventory, 'name' | 'notes' | 'hasOctavators'>;
+
+// Common starting points; notes can still be adjusted tube by tube
+export const TUBE_SET_PRESETS: { id: string; name: string; notes: BoomwhackerNote[] }[] = [
+  { id: 'diatonic', name: 'Diatonic set (C to C\')', notes: DIATONIC_NOTES },
+  { id: 'chromatic', name: 'Diatonic set + chromatic extension', notes: BOOMWHACKER_NOTES },
+  { id: 'pentatonic', name: 'Pentatonic (C D E G A)', notes: ['C', 'D', 'E', 'G', 'A'] },
+];
+
+export interface MissingTubes {
+  notes: BoomwhackerNote[];
+  octavators: boolean;
+}
+
+const toInventory = (id: string, data: DocumentData): TubeInventory => ({
+  id,
+  userId: data.userId,
+  name: data.name,
+  notes: data.notes || [],
+  hasOctavators: !!data.hasOctavators,
+  createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+});
+
+// Inventory operations
+export const createTubeInventory = async (userId: string, details: TubeInventoryDetails): Promise<string> => {
+  try {
+    const inventoryRef = await addDoc(collection(db, INVENTORIES), {
+      ...details,
+      notes: sortNotes(details.notes),
+      userId,
+      createdAt: serverTimestamp(),
+    });
+    return inventoryRef.id;
+  } catch (error) {
+    console.error('Error creating tube inventory:', error);
+    throw error;
+  }
+};
+
+export const getUserTubeInventories = async (userId: string): Promise<TubeInventory[]> => {
+  try {
+    const q = query(collection(db, INVENTORIES), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(doc => toInventory(doc.id, doc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting tube inventories:', error);
+    return [];
+  }
+};
+
+export const updateTubeInventory = async (inventoryId: string, details: TubeInventoryDetails): Promise<void> => {
+  try {
+    await updateDoc(doc(db, INVENTORIES, inventoryId), {
+      ...details,
+      notes: sortNotes(details.notes),
+    });
+  } catch (error) {
+    console.error('Error updating tube inventory:', error);
+    throw error;
+  }
+};
+
+export const deleteTubeInventory = async (inventoryId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, INVENTORIES, inventoryId));
+  } catch (error) {
+    console.error('Error deleting tube inventory:', error);
+    throw error;
+  }
+};
+
+// The venue the user is currently working at, stored on their profile
+export const setActiveTubeInventory = async (userId: string, inventoryId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'users', userId), { activeInventoryId: inventoryId });
+  } catch (error) {
+    console.error('Error setting active tube inventory:', error);
+    throw error;
+  }
+};
+
+// Falls back to the first venue when none has been picked (or the picked one was deleted)
+export const getActiveTubeInventory = async (userId: string): Promise<TubeInventory | null> => {
+  try {
+    const [userDoc, inventories] = await Promise.all([
+      getDoc(doc(db, 'users', userId)),
+      getUserTubeInventories(userId),
+    ]);
+    const activeId = userDoc.exists() ? userDoc.data().activeInventoryId : undefined;
+
+    return inventories.find(inventory => inventory.id === activeId) || inventories[0] || null;
+  } catch (error) {
+    console.error('Error getting active tube inventory:', error);
+    return null;
+  }
+};
+
+export const getMissingTubes = (
+  notes: BoomwhackerNote[],
+  needsOctavators: boolean,
+  inventory: TubeInventory
+): MissingTubes => ({
+  notes: notes.filter(note => !inventory.notes.includes(note)),
+  octavators: needsOctavators && !inventory.hasOctavators,
+});
+
+export const hasMissingTubes = (missing: MissingTubes): boolean => {
+  return missing.notes.length > 0 || missing.octavators;
+};
+
+// Only videos with their notes filled in can be confirmed as playable
+export const isVideoPlayableWith = (video: Video, inventory: TubeInventory): boolean => {
+  if (!video.boomwhackerNotes || video.boomwhackerNotes.length === 0) return false;
+  return !hasMissingTubes(getMissingTubes(video.boomwhackerNotes, !!video.needsOctavators, inventory));
+};
+
+// Tubes a set of videos needs that the venue doesn't have
+export const getMissingTubesForVideos = (videos: Video[], inventory: TubeInventory): MissingTubes => {
+  return getMissingTubes(
+    sortNotes(videos.flatMap(video => video.boomwhackerNotes || [])),
+    videos.some(video => video.needsOctavators),
+    inventory
+  );
+};
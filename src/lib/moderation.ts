@@ -0,0 +1,177 @@
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  serverTimestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { setVideoHidden, deleteVideo } from './firestore';
+import { updateTag, deleteTag } from './tags';
+import { ContentFlag, FlagReason, FlagStatus } from '@/types';
+
+const FLAGS = 'contentFlags';
+
+export const FLAG_REASONS: { value: FlagReason; label: string }[] = [
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'broken', label: 'Broken or unavailable' },
+  { value: 'wrong-content', label: 'Not a Boomwhacker / music activity' },
+  { value: 'duplicate', label: 'Duplicate' },
+  { value: 'other', label: 'Other' },
+];
+
+export const getFlagReasonLabel = (reason: FlagReason): string => {
+  return FLAG_REASONS.find(r => r.value === reason)?.label || reason;
+};
+
+export type NewContentFlag = Pick<ContentFlag, 'itemType' | 'itemId' | 'itemLabel' | 'reason' | 'flaggedBy' | 'flaggedByName'> & {
+  details?: string;
+};
+
+// All open flags raised against one video or tag, shown as a single queue row
+export interface ModerationItem {
+  itemType: ContentFlag['itemType'];
+  itemId: string;
+  itemLabel: string;
+  flags: ContentFlag[];
+}
+
+const toFlag = (id: string, data: DocumentData): ContentFlag => ({
+  id,
+  itemType: data.itemType,
+  itemId: data.itemId,
+  itemLabel: data.itemLabel,
+  reason: data.reason,
+  details: data.details,
+  flaggedBy: data.flaggedBy,
+  flaggedByName: data.flaggedByName,
+  status: data.status,
+  createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+  resolvedBy: data.resolvedBy,
+  resolvedAt: data.resolvedAt?.toDate?.()?.toISOString(),
+});
+
+// Flag operations
+export const flagContent = async (flag: NewContentFlag): Promise<string> => {
+  try {
+    const details = flag.details?.trim();
+    const flagRef = await addDoc(collection(db, FLAGS), {
+      itemType: flag.itemType,
+      itemId: flag.itemId,
+      itemLabel: flag.itemLabel,
+      reason: flag.reason,
+      ...(details ? { details } : {}),
+      flaggedBy: flag.flaggedBy,
+      flaggedByName: flag.flaggedByName,
+      status: 'open',
+      createdAt: serverTimestamp(),
+    });
+    return flagRef.id;
+  } catch (error) {
+    console.error('Error flagging content:', error);
+    throw error;
+  }
+};
+
+export const getOpenFlags = async (): Promise<ContentFlag[]> => {
+  try {
+    const q = query(collection(db, FLAGS), where('status', '==', 'open'));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(doc => toFlag(doc.id, doc.data()))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  } catch (error) {
+    console.error('Error getting open flags:', error);
+    return [];
+  }
+};
+
+export const groupFlagsByItem = (flags: ContentFlag[]): ModerationItem[] => {
+  const items = new Map<string, ModerationItem>();
+
+  flags.forEach(flag => {
+    const key = `${flag.itemType}_${flag.itemId}`;
+    const item = items.get(key);
+    if (item) {
+      item.flags.push(flag);
+    } else {
+      items.set(key, {
+        itemType: flag.itemType,
+        itemId: flag.itemId,
+        itemLabel: flag.itemLabel,
+        flags: [flag],
+      });
+    }
+  });
+
+  // Most-reported items first
+  return Array.from(items.values()).sort((a, b) => b.flags.length - a.flags.length);
+};
+
+// Close every open flag for the item in one go
+const resolveOpenFlags = async (item: ModerationItem, status: FlagStatus, adminId: string) => {
+  const q = query(
+    collection(db, FLAGS),
+    where('itemType', '==', item.itemType),
+    where('itemId', '==', item.itemId),
+    where('status', '==', 'open')
+  );
+  const querySnapshot = await getDocs(q);
+
+  const batch = writeBatch(db);
+  querySnapshot.docs.forEach(flagDoc => {
+    batch.update(flagDoc.ref, {
+      status,
+      resolvedBy: adminId,
+      resolvedAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+};
+
+// Moderation actions (admin only)
+export const approveFlaggedItem = async (item: ModerationItem, adminId: string): Promise<void> => {
+  try {
+    if (item.itemType === 'video') {
+      await setVideoHidden(item.itemId, false);
+    } else {
+      await updateTag(item.itemId, { hidden: false });
+    }
+    await resolveOpenFlags(item, 'approved', adminId);
+  } catch (error) {
+    console.error('Error approving flagged item:', error);
+    throw error;
+  }
+};
+
+export const hideFlaggedItem = async (item: ModerationItem, adminId: string): Promise<void> => {
+  try {
+    if (item.itemType === 'video') {
+      await setVideoHidden(item.itemId, true);
+    } else {
+      await updateTag(item.itemId, { hidden: true });
+    }
+    await resolveOpenFlags(item, 'hidden', adminId);
+  } catch (error) {
+    console.error('Error hiding flagged item:', error);
+    throw error;
+  }
+};
+
+export const deleteFlaggedItem = async (item: ModerationItem, adminId: string): Promise<void> => {
+  try {
+    if (item.itemType === 'video') {
+      await deleteVideo(item.itemId);
+    } else {
+      await deleteTag(item.itemId);
+    }
+    await resolveOpenFlags(item, 'deleted', adminId);
+  } catch (error) {
+    console.error('Error deleting flagged item:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,107 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { AgeBand, Participant, Tag } from '@/types';
+
+const PARTICIPANTS = 'participants';
+
+export type ParticipantDetails = Pick<Participant, 'displayName' | 'ageBand' | 'sensoryNotes' | 'favouriteVideoIds' | 'goals'>;
+
+export const AGE_BANDS: { value: AgeBand; label: string }[] = [
+  { value: 'under-7', label: 'Under 7' },
+  { value: '7-12', label: '7-12' },
+  { value: '13-17', label: '13-17' },
+  { value: '18-25', label: '18-25' },
+  { value: '26-plus', label: '26+' },
+];
+
+export const getAgeBandLabel = (ageBand: AgeBand): string => {
+  return AGE_BANDS.find(band => band.value === ageBand)?.label || ageBand;
+};
+
+// Tag categories a goal can be linked to
+export const GOAL_TAG_CATEGORIES: Tag['category'][] = ['activity', 'difficulty'];
+
+export const createGoalId = (): string => {
+  return `goal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const toParticipant = (id: string, data: DocumentData): Participant => ({
+  id,
+  userId: data.userId,
+  displayName: data.displayName,
+  ageBand: data.ageBand,
+  sensoryNotes: data.sensoryNotes || '',
+  favouriteVideoIds: data.favouriteVideoIds || [],
+  goals: data.goals || [],
+  createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+});
+
+// Participant operations
+export const createParticipant = async (userId: string, details: ParticipantDetails): Promise<string> => {
+  try {
+    const participantRef = await addDoc(collection(db, PARTICIPANTS), {
+      ...details,
+      userId,
+      createdAt: serverTimestamp(),
+    });
+    return participantRef.id;
+  } catch (error) {
+    console.error('Error creating participant:', error);
+    throw error;
+  }
+};
+
+export const getParticipant = async (participantId: string): Promise<Participant | null> => {
+  try {
+    const participantDoc = await getDoc(doc(db, PARTICIPANTS, participantId));
+    return participantDoc.exists() ? toParticipant(participantDoc.id, participantDoc.data()) : null;
+  } catch (error) {
+    console.error('Error getting participant:', error);
+    return null;
+  }
+};
+
+export const getUserParticipants = async (userId: string): Promise<Participant[]> => {
+  try {
+    const q = query(collection(db, PARTICIPANTS), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(doc => toParticipant(doc.id, doc.data()))
+      .sort((a, b) => a.displayName.localeCompare(b.displayName));
+  } catch (error) {
+    console.error('Error getting participants:', error);
+    return [];
+  }
+};
+
+export const updateParticipant = async (participantId: string, details: ParticipantDetails): Promise<void> => {
+  try {
+    await updateDoc(doc(db, PARTICIPANTS, participantId), { ...details });
+  } catch (error) {
+    console.error('Error updating participant:', error);
+    throw error;
+  }
+};
+
+// Session records keep the participant's id, so past attendance survives as an unknown id
+export const deleteParticipant = async (participantId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, PARTICIPANTS, participantId));
+  } catch (error) {
+    console.error('Error deleting participant:', error);
+    throw error;
+  }
+};
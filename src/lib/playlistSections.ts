@@ -0,0 +1,64 @@
+import { PlaylistEntry, PlaylistSection } from '@/types';
+
+export interface SectionGroup<T extends PlaylistEntry = PlaylistEntry> {
+  section: PlaylistSection | null; // null holds entries that aren't in any section
+  entries: T[];
+}
+
+// The warmup → activity → cooldown structure most sessions follow
+export const DEFAULT_SECTION_NAMES = ['Warmup', 'Activity', 'Cooldown'];
+
+export const createSectionId = (): string => {
+  return `section_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const createDefaultSections = (): PlaylistSection[] => {
+  return DEFAULT_SECTION_NAMES.map(name => ({ id: createSectionId(), name }));
+};
+
+// Entries whose section was removed (or never set) fall into the leading unsectioned group
+export const getEntrySectionId = (entry: PlaylistEntry, sections: PlaylistSection[]): string | null => {
+  return entry.sectionId && sections.some(section => section.id === entry.sectionId) ? entry.sectionId : null;
+};
+
+export const groupEntriesBySection = <T extends PlaylistEntry>(
+  entries: T[],
+  sections: PlaylistSection[] = []
+): SectionGroup<T>[] => {
+  const groups: SectionGroup<T>[] = [
+    { section: null, entries: [] },
+    ...sections.map(section => ({ section, entries: [] as T[] })),
+  ];
+
+  entries.forEach(entry => {
+    const sectionId = getEntrySectionId(entry, sections);
+    const group = groups.find(candidate => (candidate.section?.id ?? null) === sectionId);
+    group?.entries.push(entry);
+  });
+
+  return groups;
+};
+
+// Stable-sort entries into section order so play order always matches the grouping
+export const orderEntriesBySection = <T extends PlaylistEntry>(entries: T[], sections: PlaylistSection[] = []): T[] => {
+  if (sections.length === 0) return entries;
+  return groupEntriesBySection(entries, sections).flatMap(group => group.entries);
+};
+
+// Section that starts at `index` in an ordered entry list, or null if the section continues
+export const getSectionStartingAt = (
+  entries: PlaylistEntry[],
+  index: number,
+  sections: PlaylistSection[] = []
+): PlaylistSection | null => {
+  const entry = entries[index];
+  if (!entry) return null;
+
+  const sectionId = getEntrySectionId(entry, sections);
+  if (!sectionId) return null;
+
+  const previous = entries[index - 1];
+  if (previous && getEntrySectionId(previous, sections) === sectionId) return null;
+
+  return sections.find(section => section.id === sectionId) || null;
+};
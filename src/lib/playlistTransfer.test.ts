@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parsePlaylistFile } from './playlistTransfer';
+
+vi.mock('./firestore', () => ({
+  addVideo: vi.fn(),
+  getAllVideos: vi.fn(),
+  createPlaylist: vi.fn(),
+  createEntryId: () => 'entry',
+}));
+
+const GOOD = 'goodvideo01';
+const BAD = 'badclipvid2';
+
+describe('parsePlaylistFile', () => {
+  it('skips CSV rows whose clip ends before it starts and reports them', () => {
+    const csv = [
+      'position,videoId,startSeconds,endSeconds',
+      `1,${GOOD},10,40`,
+      `2,${BAD},60,30`,
+    ].join('\n');
+
+    const { data, rejectedRows } = parsePlaylistFile(csv, 'warm-up.csv');
+
+    expect(data.playlist.entries).toEqual([{ videoId: GOOD, startSeconds: 10, endSeconds: 40 }]);
+    expect(rejectedRows).toEqual([`Row 2 (${BAD}): End time must be after start time`]);
+  });
+
+  it('skips M3U entries with invalid stop times and reports them', () => {
+    const m3u = [
+      '#EXTM3U',
+      '#EXTVLCOPT:start-time=20',
+      '#EXTVLCOPT:stop-time=20',
+      `https://www.youtube.com/watch?v=${BAD}`,
+      `https://www.youtube.com/watch?v=${GOOD}`,
+    ].join('\n');
+
+    const { data, rejectedRows } = parsePlaylistFile(m3u, 'warm-up.m3u');
+
+    expect(data.playlist.entries).toEqual([{ videoId: GOOD }]);
+    expect(rejectedRows).toEqual([`Line 4 (${BAD}): End time must be after start time`]);
+  });
+
+  it('rejects a file whose only rows have invalid clips', () => {
+    const csv = `videoId,startSeconds,endSeconds\n${BAD},60,30`;
+
+    expect(() => parsePlaylistFile(csv, 'broken.csv')).toThrow('No valid rows found in this file');
+  });
+
+  it('rejects JSON exports with invalid clips', () => {
+    const json = JSON.stringify({
+      version: 1,
+      exportedAt: '2024-01-01T00:00:00.000Z',
+      playlist: { title: 'Warm-up', entries: [{ videoId: BAD, startSeconds: 60, endSeconds: 30 }] },
+      videos: [],
+    });
+
+    expect(() => parsePlaylistFile(json, 'warm-up.json')).toThrow('End time must be after start time');
+  });
+});
@@ -0,0 +1,386 @@
+import { extractVideoId, durationToSeconds } from './youtube';
+import { addVideo, getAllVideos, createPlaylist, createEntryId } from './firestore';
+import { runBulkImport } from './bulkImport';
+import { playlistEntryClipSchema, playlistExportSchema, PlaylistExport } from './validation';
+import { PlaylistEntry, PlaylistWithVideos, Video } from '@/types';
+
+export type PlaylistExportFormat = 'json' | 'csv' | 'm3u';
+
+export const PLAYLIST_EXPORT_VERSION = 1;
+
+export const PLAYLIST_EXPORT_FORMATS: { value: PlaylistExportFormat; label: string; description: string }[] = [
+  { value: 'json', label: 'JSON', description: 'Full backup that can be imported into any account' },
+  { value: 'csv', label: 'CSV', description: 'Spreadsheet with one row per video (session steps are left out)' },
+  { value: 'm3u', label: 'M3U', description: 'YouTube links for VLC and other players (session steps are left out)' },
+];
+
+const MIME_TYPES: Record<PlaylistExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  m3u: 'audio/x-mpegurl',
+};
+
+const CSV_COLUMNS = ['position', 'videoId', 'url', 'title', 'channelName', 'duration', 'startSeconds', 'endSeconds', 'tags'];
+
+export interface PlaylistFileImportResult {
+  playlistId: string;
+  title: string;
+  entryCount: number;
+  createdVideos: number;
+  skippedVideoIds: string[];
+}
+
+// A readable file, plus the rows left out because they failed validation
+export interface ParsedPlaylistFile {
+  data: PlaylistExport;
+  rejectedRows: string[];
+}
+
+const getWatchUrl = (videoId: string) => `https://www.youtube.com/watch?v=${videoId}`;
+
+export const buildPlaylistExport = (playlist: PlaylistWithVideos): PlaylistExport => {
+  const videosById = new Map(playlist.videos.map(video => [video.videoId, video]));
+
+  return {
+    version: PLAYLIST_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    playlist: {
+      title: playlist.title,
+      ...(playlist.notes ? { notes: playlist.notes } : {}),
+      entries: playlist.entries.map(entry => ({
+        ...(entry.videoId ? { videoId: entry.videoId } : {}),
+        ...(entry.step ? { step: entry.step } : {}),
+        ...(entry.startSeconds !== undefined ? { startSeconds: entry.startSeconds } : {}),
+        ...(entry.endSeconds !== undefined ? { endSeconds: entry.endSeconds } : {}),
+        ...(entry.sectionId ? { sectionId: entry.sectionId } : {}),
+      })),
+      ...(playlist.sections?.length ? { sections: playlist.sections } : {}),
+    },
+    videos: Array.from(videosById.values()).map(video => ({
+      videoId: video.videoId,
+      title: video.title,
+      duration: video.duration,
+      thumbnail: video.thumbnail,
+      tags: video.tags,
+      channelName: video.channelName,
+    })),
+  };
+};
+
+const escapeCsvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV and M3U only carry videos; session steps need the JSON format
+const getVideoEntries = (data: PlaylistExport) => {
+  return data.playlist.entries.flatMap(entry => (entry.videoId ? [{ ...entry, videoId: entry.videoId }] : []));
+};
+
+const toCsv = (data: PlaylistExport): string => {
+  const videosById = new Map(data.videos.map(video => [video.videoId, video]));
+  const rows = getVideoEntries(data).map((entry, index) => {
+    const video = videosById.get(entry.videoId);
+    return [
+      index + 1,
+      entry.videoId,
+      getWatchUrl(entry.videoId),
+      video?.title,
+      video?.channelName,
+      video?.duration,
+      entry.startSeconds,
+      entry.endSeconds,
+      video?.tags.join('|'),
+    ].map(escapeCsvCell).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// Extended M3U with VLC clip options so start/end offsets survive the round trip
+const toM3u = (data: PlaylistExport): string => {
+  const videosById = new Map(data.videos.map(video => [video.videoId, video]));
+  const lines = ['#EXTM3U', `#PLAYLIST:${data.playlist.title}`];
+
+  getVideoEntries(data).forEach(entry => {
+    const video = videosById.get(entry.videoId);
+    const seconds = video ? durationToSeconds(video.duration) : -1;
+    lines.push(`#EXTINF:${seconds},${video?.title || entry.videoId}`);
+    if (entry.startSeconds !== undefined) lines.push(`#EXTVLCOPT:start-time=${entry.startSeconds}`);
+    if (entry.endSeconds !== undefined) lines.push(`#EXTVLCOPT:stop-time=${entry.endSeconds}`);
+    lines.push(getWatchUrl(entry.videoId));
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+export const exportPlaylist = (
+  playlist: PlaylistWithVideos,
+  format: PlaylistExportFormat
+): { content: string; mimeType: string; filename: string } => {
+  const data = buildPlaylistExport(playlist);
+  const slug = playlist.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'playlist';
+
+  const content = format === 'json'
+    ? JSON.stringify(data, null, 2)
+    : format === 'csv' ? toCsv(data) : toM3u(data);
+
+  return { content, mimeType: MIME_TYPES[format], filename: `${slug}.${format}` };
+};
+
+export const downloadPlaylistExport = (playlist: PlaylistWithVideos, format: PlaylistExportFormat) => {
+  const { content, mimeType, filename } = exportPlaylist(playlist, format);
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight after click can cancel the download in Safari and older Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Split CSV text into rows, honouring quoted cells that contain commas or newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+const parseOffset = (value: string | undefined): number | undefined => {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// Same clip rules as the playlist editor, so an import can't save a clip that ends before it starts
+const getClipError = (clip: Pick<PlaylistEntry, 'startSeconds' | 'endSeconds'>): string | null => {
+  const result = playlistEntryClipSchema.safeParse(clip);
+  return result.success ? null : result.error.issues[0]?.message || 'Invalid clip times';
+};
+
+const parseCsvExport = (text: string, title: string): ParsedPlaylistFile => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(column => column.trim());
+  const column = (cells: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? cells[index]?.trim() : undefined;
+  };
+
+  const entries: PlaylistExport['playlist']['entries'] = [];
+  const videos: PlaylistExport['videos'] = [];
+  const rejectedRows: string[] = [];
+
+  rows.forEach((cells, index) => {
+    const videoId = extractVideoId(column(cells, 'videoId') || column(cells, 'url') || '');
+    if (!videoId) return;
+
+    const startSeconds = parseOffset(column(cells, 'startSeconds'));
+    const endSeconds = parseOffset(column(cells, 'endSeconds'));
+    const clipError = getClipError({ startSeconds, endSeconds });
+    if (clipError) {
+      rejectedRows.push(`Row ${index + 1} (${videoId}): ${clipError}`);
+      return;
+    }
+
+    entries.push({
+      videoId,
+      ...(startSeconds !== undefined ? { startSeconds } : {}),
+      ...(endSeconds !== undefined ? { endSeconds } : {}),
+    });
+
+    const videoTitle = column(cells, 'title');
+    if (videoTitle && !videos.some(video => video.videoId === videoId)) {
+      videos.push({
+        videoId,
+        title: videoTitle,
+        duration: column(cells, 'duration') || '0:00',
+        thumbnail: '',
+        tags: (column(cells, 'tags') || '').split('|').map(tag => tag.trim()).filter(Boolean),
+        channelName: column(cells, 'channelName') || '',
+      });
+    }
+  });
+
+  return {
+    data: { version: PLAYLIST_EXPORT_VERSION, exportedAt: new Date().toISOString(), playlist: { title, entries }, videos },
+    rejectedRows,
+  };
+};
+
+// M3U carries no channel or tags, so missing videos are looked up on YouTube
+const parseM3uExport = (text: string, fallbackTitle: string): ParsedPlaylistFile => {
+  let title = fallbackTitle;
+  let pending: Pick<PlaylistEntry, 'startSeconds' | 'endSeconds'> = {};
+  const entries: PlaylistExport['playlist']['entries'] = [];
+  const rejectedRows: string[] = [];
+
+  text.split(/\r?\n/).map(line => line.trim()).forEach((line, index) => {
+    if (line.startsWith('#PLAYLIST:')) {
+      title = line.slice('#PLAYLIST:'.length).trim() || title;
+    } else if (line.startsWith('#EXTVLCOPT:start-time=')) {
+      pending = { ...pending, startSeconds: parseOffset(line.split('=')[1]) };
+    } else if (line.startsWith('#EXTVLCOPT:stop-time=')) {
+      pending = { ...pending, endSeconds: parseOffset(line.split('=')[1]) };
+    } else if (line && !line.startsWith('#')) {
+      const videoId = extractVideoId(line);
+      const clipError = videoId ? getClipError(pending) : null;
+      if (videoId && clipError) {
+        rejectedRows.push(`Line ${index + 1} (${videoId}): ${clipError}`);
+      } else if (videoId) {
+        entries.push({
+          videoId,
+          ...(pending.startSeconds !== undefined ? { startSeconds: pending.startSeconds } : {}),
+          ...(pending.endSeconds !== undefined ? { endSeconds: pending.endSeconds } : {}),
+        });
+      }
+      pending = {};
+    }
+  });
+
+  return {
+    data: { version: PLAYLIST_EXPORT_VERSION, exportedAt: new Date().toISOString(), playlist: { title, entries }, videos: [] },
+    rejectedRows,
+  };
+};
+
+// Read an exported file back into the JSON export shape. Throws with a readable
+// message when the file isn't a playlist export we understand; CSV and M3U rows
+// with invalid clip times are left out and listed in `rejectedRows`.
+export const parsePlaylistFile = (text: string, filename: string): ParsedPlaylistFile => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  const fallbackTitle = filename.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Imported Playlist';
+
+  let parsed: ParsedPlaylistFile;
+  if (extension === 'json') {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    const result = playlistExportSchema.safeParse(json);
+    if (!result.success) {
+      throw new Error(`Not a supported playlist export: ${result.error.issues[0]?.message || 'invalid format'}`);
+    }
+    parsed = { data: result.data, rejectedRows: [] };
+  } else if (extension === 'csv') {
+    parsed = parseCsvExport(text, fallbackTitle);
+  } else if (extension === 'm3u' || extension === 'm3u8') {
+    parsed = parseM3uExport(text, fallbackTitle);
+  } else {
+    throw new Error('Unsupported file type. Use a .json, .csv or .m3u export');
+  }
+
+  if (parsed.data.playlist.entries.length === 0) {
+    throw new Error(parsed.rejectedRows.length > 0
+      ? `No valid rows found in this file. ${parsed.rejectedRows[0]}`
+      : 'No videos or session steps found in this file');
+  }
+  return parsed;
+};
+
+// Recreate a playlist from an export: videos missing from the library are added
+// from the exported details, or fetched from YouTube when the file has none.
+export const importPlaylistExport = async (
+  data: PlaylistExport,
+  userId: string,
+  options: { title?: string; onProgress?: (step: string) => void } = {}
+): Promise<PlaylistFileImportResult> => {
+  const { onProgress } = options;
+
+  onProgress?.('Checking library...');
+  const existingVideos = await getAllVideos({ includeHidden: true });
+  const availableIds = new Set(existingVideos.map(video => video.videoId));
+  const exportedById = new Map(data.videos.map(video => [video.videoId, video]));
+  const missingIds = Array.from(new Set(getVideoEntries(data).map(entry => entry.videoId)))
+    .filter(videoId => !availableIds.has(videoId));
+
+  let createdVideos = 0;
+  const lookupIds: string[] = [];
+
+  for (const videoId of missingIds) {
+    const exported = exportedById.get(videoId);
+    if (!exported || !exported.channelName) {
+      lookupIds.push(videoId);
+      continue;
+    }
+
+    onProgress?.(`Adding ${exported.title}...`);
+    const videoData: Omit<Video, 'createdAt'> = {
+      ...exported,
+      thumbnail: exported.thumbnail || `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`,
+      createdBy: userId,
+    };
+    try {
+      await addVideo(videoData);
+      availableIds.add(videoId);
+      createdVideos++;
+    } catch (error) {
+      console.error(`Error recreating video ${videoId}:`, error);
+    }
+  }
+
+  if (lookupIds.length > 0) {
+    const rows = await runBulkImport(lookupIds, userId, { onProgress });
+    rows.forEach(row => {
+      if (row.video && row.videoId) {
+        availableIds.add(row.videoId);
+        if (row.status === 'added') createdVideos++;
+      }
+    });
+  }
+
+  const entries = data.playlist.entries.filter(entry => !entry.videoId || availableIds.has(entry.videoId));
+  const skippedVideoIds = missingIds.filter(videoId => !availableIds.has(videoId));
+  const title = options.title?.trim() || data.playlist.title;
+
+  onProgress?.('Creating playlist...');
+  const playlistId = await createPlaylist({
+    userId,
+    title,
+    ...(data.playlist.notes ? { notes: data.playlist.notes } : {}),
+    ...(data.playlist.sections ? { sections: data.playlist.sections } : {}),
+    entries: entries.map(entry => ({
+      id: createEntryId(),
+      ...entry,
+    })),
+  });
+
+  return { playlistId, title, entryCount: entries.length, createdVideos, skippedVideoIds };
+};
@@ -0,0 +1,116 @@
+import { doc, getDoc, setDoc, serverTimestamp, DocumentData } from 'firebase/firestore';
+import { db } from './firebase';
+import { ColourSchemeId, DEFAULT_COLOUR_SCHEME_ID, getColourScheme } from './boomwhackers';
+import { RemoteTransportKind } from './remoteControl';
+import { LandingPage, SessionDefaults, UserPreferences } from '@/types';
+
+const USER_PREFERENCES = 'userPreferences';
+
+export const LANDING_PAGES: { value: LandingPage; label: string }[] = [
+  { value: '/dashboard', label: 'Dashboard' },
+  { value: '/playlists', label: 'Playlists' },
+  { value: '/videos', label: 'Videos' },
+  { value: '/templates', label: 'Templates' },
+];
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  session: {
+    autoplay: true,
+    shuffle: false,
+    loop: false,
+    fullscreen: true,
+    volume: 0.8,
+    colourNotes: false,
+    colourScheme: DEFAULT_COLOUR_SCHEME_ID,
+  },
+  accessibility: {
+    highContrast: false,
+    largeText: false,
+    lowSensory: false,
+    reducedMotion: false,
+  },
+  switchAccess: {
+    enabled: false,
+    mode: 'single',
+    scanIntervalSeconds: 2,
+    selectKey: 'Space',
+    stepKey: 'Enter',
+  },
+  landingPage: '/dashboard',
+  defaultTagFilters: [],
+};
+
+// Everything the session player reads from its URL
+export interface SessionLaunchSettings extends SessionDefaults {
+  colourScheme: ColourSchemeId;
+  lowSensory: boolean;
+  scanning: boolean;
+  remoteTransport: RemoteTransportKind;
+}
+
+export const getSessionLaunchSettings = (preferences: UserPreferences): SessionLaunchSettings => ({
+  ...preferences.session,
+  colourScheme: getColourScheme(preferences.session.colourScheme).id,
+  lowSensory: preferences.accessibility.lowSensory,
+  scanning: preferences.switchAccess.enabled,
+  remoteTransport: 'firestore',
+});
+
+// Every setting goes in the URL so reloading a session keeps the ones it started with
+export const getSessionLaunchParams = (
+  playlistId: string,
+  settings: SessionLaunchSettings,
+  participantIds: string[] = []
+): URLSearchParams => {
+  const params = new URLSearchParams({
+    playlistId,
+    autoplay: settings.autoplay.toString(),
+    shuffle: settings.shuffle.toString(),
+    loop: settings.loop.toString(),
+    fullscreen: settings.fullscreen.toString(),
+    volume: settings.volume.toString(),
+    colourNotes: settings.colourNotes.toString(),
+    colourScheme: settings.colourScheme,
+    lowSensory: settings.lowSensory.toString(),
+    scanning: settings.scanning.toString(),
+    transport: settings.remoteTransport,
+  });
+  if (participantIds.length > 0) {
+    params.set('participants', participantIds.join(','));
+  }
+  return params;
+};
+
+// Stored documents may predate newer fields, so fill the gaps from the defaults
+const toPreferences = (data: DocumentData): UserPreferences => ({
+  session: { ...DEFAULT_USER_PREFERENCES.session, ...data.session },
+  accessibility: { ...DEFAULT_USER_PREFERENCES.accessibility, ...data.accessibility },
+  switchAccess: { ...DEFAULT_USER_PREFERENCES.switchAccess, ...data.switchAccess },
+  landingPage: LANDING_PAGES.some(page => page.value === data.landingPage)
+    ? data.landingPage
+    : DEFAULT_USER_PREFERENCES.landingPage,
+  defaultTagFilters: data.defaultTagFilters || [],
+});
+
+export const getUserPreferences = async (userId: string): Promise<UserPreferences> => {
+  try {
+    const preferencesDoc = await getDoc(doc(db, USER_PREFERENCES, userId));
+    return preferencesDoc.exists() ? toPreferences(preferencesDoc.data()) : DEFAULT_USER_PREFERENCES;
+  } catch (error) {
+    console.error('Error getting user preferences:', error);
+    return DEFAULT_USER_PREFERENCES;
+  }
+};
+
+export const saveUserPreferences = async (userId: string, preferences: UserPreferences): Promise<void> => {
+  try {
+    await setDoc(doc(db, USER_PREFERENCES, userId), {
+      ...preferences,
+      userId,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error saving user preferences:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,177 @@
+import { getSessionAnalytics } from './analytics';
+import { Participant, ParticipantGoal, SessionAnalytics, SessionStepType } from '@/types';
+
+export interface ReportPlaylistUsage {
+  playlistId: string;
+  sessionCount: number;
+}
+
+export interface ReportVideoUsage {
+  videoId: string;
+  plays: number;
+  skips: number;
+  averageCompletion: number; // 0-100%
+}
+
+export interface ReportActivity {
+  title: string;
+  type: SessionStepType;
+  count: number;
+}
+
+export interface ReportTrendPoint {
+  weekStart: string; // YYYY-MM-DD, Monday
+  sessionCount: number;
+  averageCompletion: number; // 0-100%
+}
+
+export interface GoalProgressPoint {
+  sessionId: string;
+  startTime: string;
+  value: number;
+}
+
+export interface GoalProgressSeries {
+  goal: ParticipantGoal;
+  points: GoalProgressPoint[]; // oldest first, only sessions where progress was recorded
+}
+
+export interface ReportNote {
+  sessionId: string;
+  startTime: string;
+  notes: string;
+}
+
+export interface ProgressReport {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  sessionCount: number;
+  totalMinutes: number;
+  averageCompletion: number; // 0-100%
+  playlists: ReportPlaylistUsage[];
+  activities: ReportActivity[];
+  videos: ReportVideoUsage[];
+  trend: ReportTrendPoint[];
+  goals: GoalProgressSeries[];
+  notes: ReportNote[];
+}
+
+// Local calendar date, which is what a <input type="date"> holds
+export const toDateInputValue = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Both ends are whole local days, so a report "to" today includes this afternoon's session
+const getRangeBounds = (from: string, to: string): { start: Date; end: Date } => ({
+  start: new Date(`${from}T00:00:00`),
+  end: new Date(`${to}T23:59:59.999`),
+});
+
+const getWeekStart = (date: Date): string => {
+  const weekStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+  return toDateInputValue(weekStart);
+};
+
+const average = (values: number[]): number => {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+};
+
+// Sessions the participant attended in the range, oldest first
+export const getParticipantSessions = async (
+  userId: string,
+  participantId: string,
+  from: string,
+  to: string
+): Promise<SessionAnalytics[]> => {
+  const { start, end } = getRangeBounds(from, to);
+  const sessions = await getSessionAnalytics(userId);
+
+  return sessions
+    .filter(session => {
+      const startTime = new Date(session.startTime);
+      return session.participantIds?.includes(participantId) && startTime >= start && startTime <= end;
+    })
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+};
+
+export const getGoalProgressSeries = (sessions: SessionAnalytics[], participant: Participant): GoalProgressSeries[] => {
+  const ordered = [...sessions].sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  return participant.goals.map(goal => ({
+    goal,
+    points: ordered.flatMap(session => {
+      const progress = session.goalProgress?.find(entry =>
+        entry.participantId === participant.id && entry.goalId === goal.id
+      );
+      return progress ? [{ sessionId: session.id, startTime: session.startTime, value: progress.value }] : [];
+    }),
+  }));
+};
+
+export const buildProgressReport = (
+  participant: Participant,
+  sessions: SessionAnalytics[],
+  from: string,
+  to: string
+): ProgressReport => {
+  const playlists = new Map<string, ReportPlaylistUsage>();
+  const activities = new Map<string, ReportActivity>();
+  const videos = new Map<string, { plays: number; skips: number; completions: number[] }>();
+  const weeks = new Map<string, number[]>();
+
+  sessions.forEach(session => {
+    const playlist = playlists.get(session.playlistId) || { playlistId: session.playlistId, sessionCount: 0 };
+    playlist.sessionCount += 1;
+    playlists.set(session.playlistId, playlist);
+
+    (session.stepsCompleted || []).forEach(step => {
+      const key = `${step.type}:${step.title}`;
+      const activity = activities.get(key) || { title: step.title, type: step.type, count: 0 };
+      activity.count += 1;
+      activities.set(key, activity);
+    });
+
+    session.videosPlayed.forEach(playback => {
+      const video = videos.get(playback.videoId) || { plays: 0, skips: 0, completions: [] };
+      video.plays += 1;
+      video.skips += playback.skipped ? 1 : 0;
+      video.completions.push(playback.completionRate);
+      videos.set(playback.videoId, video);
+    });
+
+    const weekStart = getWeekStart(new Date(session.startTime));
+    weeks.set(weekStart, [...(weeks.get(weekStart) || []), session.completionRate]);
+  });
+
+  return {
+    from,
+    to,
+    sessionCount: sessions.length,
+    totalMinutes: Math.round(sessions.reduce((sum, session) => sum + (session.duration || 0), 0) / 60),
+    averageCompletion: average(sessions.map(session => session.completionRate)),
+    playlists: Array.from(playlists.values()).sort((a, b) => b.sessionCount - a.sessionCount),
+    activities: Array.from(activities.values()).sort((a, b) => b.count - a.count),
+    videos: Array.from(videos.entries())
+      .map(([videoId, video]) => ({
+        videoId,
+        plays: video.plays,
+        skips: video.skips,
+        averageCompletion: average(video.completions),
+      }))
+      .sort((a, b) => b.plays - a.plays),
+    trend: Array.from(weeks.entries())
+      .map(([weekStart, completions]) => ({
+        weekStart,
+        sessionCount: completions.length,
+        averageCompletion: average(completions),
+      }))
+      .sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+    goals: getGoalProgressSeries(sessions, participant),
+    notes: sessions
+      .filter(session => session.notes?.trim())
+      .map(session => ({ sessionId: session.id, startTime: session.startTime, notes: (session.notes || '').trim() })),
+  };
+};
@@ -0,0 +1,421 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { getAllVideos, getAllPlaylists, getUserPlaylists } from './firestore';
+import { getAllVideoAnalytics, getPlaylistAnalytics } from './analytics';
+import { getTemplates } from './templates';
+import { getUserParticipants } from './participants';
+import {
+  ParticipantGoal,
+  Playlist,
+  PlaylistAnalytics,
+  RecommendationData,
+  TemplatePlaylist,
+  Video,
+  VideoAnalytics,
+} from '@/types';
+
+const RECOMMENDATIONS = 'recommendations';
+
+// Relative weight of each signal in a video's final score
+const VIDEO_WEIGHTS = {
+  tags: 0.4,
+  time: 0.2,
+  collaborative: 0.4,
+};
+
+// Playlist weights; goals only take a share once some participant goal is linked to tags
+const PLAYLIST_WEIGHTS = { time: 0.7, usage: 0.3, goals: 0 };
+const PLAYLIST_WEIGHTS_WITH_GOALS = { time: 0.5, usage: 0.2, goals: 0.3 };
+
+const MIN_SCORE = 0.1;
+const MIN_PLAYS_FOR_TIME_PATTERN = 3;
+const MIN_SESSIONS_FOR_DAY_PATTERN = 2;
+const MAX_VIDEO_RECOMMENDATIONS = 20;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface RecommendedVideo {
+  recommendation: RecommendationData;
+  video: Video;
+}
+
+interface VideoScoringInput {
+  userId: string;
+  candidates: Video[];
+  seedVideos: Video[]; // videos the recommendations should resemble
+  playlists: Playlist[]; // every playlist, used for co-occurrence
+  videoAnalytics: VideoAnalytics[];
+  now: Date;
+}
+
+const roundScore = (score: number): number => Math.round(score * 100) / 100;
+
+const buildTagProfile = (videos: Video[]): Map<string, number> => {
+  const profile = new Map<string, number>();
+  videos.forEach(video => {
+    video.tags.forEach(tag => profile.set(tag, (profile.get(tag) || 0) + 1));
+  });
+  return profile;
+};
+
+// Cosine similarity between a candidate's tags and the weighted tag profile
+const getTagOverlap = (tags: string[], profile: Map<string, number>) => {
+  const sharedTags = tags.filter(tag => profile.has(tag));
+  if (sharedTags.length === 0) return { score: 0, sharedTags };
+
+  const dot = sharedTags.reduce((total, tag) => total + (profile.get(tag) || 0), 0);
+  const profileMagnitude = Math.sqrt(Array.from(profile.values()).reduce((total, weight) => total + weight * weight, 0));
+  const score = dot / (Math.sqrt(tags.length) * profileMagnitude);
+
+  // Most relevant shared tags first, for the reason text
+  sharedTags.sort((a, b) => (profile.get(b) || 0) - (profile.get(a) || 0));
+  return { score: Math.min(score, 1), sharedTags };
+};
+
+// How far a share of usage sits above an even spread, scaled to 0-1
+const getConcentration = (share: number, evenShare: number): number => {
+  return Math.max(0, Math.min(1, (share - evenShare) / (1 - evenShare)));
+};
+
+// Share of a video's plays that fall within an hour either side of now
+const getTimeOfDayScore = (analytics: VideoAnalytics | undefined, hour: number): number => {
+  if (!analytics?.usageByHour) return 0;
+
+  const totalPlays = Object.values(analytics.usageByHour).reduce((total, count) => total + count, 0);
+  if (totalPlays < MIN_PLAYS_FOR_TIME_PATTERN) return 0;
+
+  const windowPlays = [hour - 1, hour, hour + 1]
+    .map(h => (h + 24) % 24)
+    .reduce((total, h) => total + (analytics.usageByHour[h] || 0), 0);
+
+  return getConcentration(windowPlays / totalPlays, 3 / 24);
+};
+
+const getDayOfWeekScore = (analytics: PlaylistAnalytics | null, day: number): number => {
+  if (!analytics?.usageByDayOfWeek) return 0;
+
+  const totalSessions = Object.values(analytics.usageByDayOfWeek).reduce((total, count) => total + count, 0);
+  if (totalSessions < MIN_SESSIONS_FOR_DAY_PATTERN) return 0;
+
+  return getConcentration((analytics.usageByDayOfWeek[day] || 0) / totalSessions, 1 / 7);
+};
+
+const getPeriodOfDay = (hour: number): string => {
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+};
+
+// Score videos the seed set doesn't already contain
+export const scoreVideoRecommendations = ({
+  userId,
+  candidates,
+  seedVideos,
+  playlists,
+  videoAnalytics,
+  now,
+}: VideoScoringInput): RecommendedVideo[] => {
+  const seedIds = new Set(seedVideos.map(video => video.videoId));
+  const tagProfile = buildTagProfile(seedVideos);
+  const analyticsById = new Map(videoAnalytics.map(analytics => [analytics.videoId, analytics]));
+  const hour = now.getHours();
+
+  // Other people's playlists that share at least one video with the seed set
+  const relatedPlaylists = playlists.filter(playlist =>
+    playlist.userId !== userId && playlist.videoRefs.some(videoId => seedIds.has(videoId))
+  );
+
+  const results: RecommendedVideo[] = [];
+
+  candidates
+    .filter(video => !seedIds.has(video.videoId))
+    .forEach(video => {
+      const { score: tagScore, sharedTags } = getTagOverlap(video.tags, tagProfile);
+      const timeScore = getTimeOfDayScore(analyticsById.get(video.videoId), hour);
+      const coOccurrences = relatedPlaylists.filter(playlist => playlist.videoRefs.includes(video.videoId)).length;
+      const collaborativeScore = relatedPlaylists.length > 0 ? coOccurrences / relatedPlaylists.length : 0;
+
+      const contributions = {
+        tags: tagScore * VIDEO_WEIGHTS.tags,
+        time: timeScore * VIDEO_WEIGHTS.time,
+        collaborative: collaborativeScore * VIDEO_WEIGHTS.collaborative,
+      };
+      const score = contributions.tags + contributions.time + contributions.collaborative;
+      if (score < MIN_SCORE) return;
+
+      const reasons: string[] = [];
+      if (sharedTags.length > 0) {
+        reasons.push(`Shares tags you use: ${sharedTags.slice(0, 3).join(', ')}`);
+      }
+      if (coOccurrences > 0) {
+        reasons.push(`In ${coOccurrences} other ${coOccurrences === 1 ? 'playlist' : 'playlists'} alongside your videos`);
+      }
+      if (timeScore > 0) {
+        reasons.push(`Often played in the ${getPeriodOfDay(hour)}`);
+      }
+
+      const basedOn = (Object.keys(contributions) as (keyof typeof contributions)[])
+        .reduce<keyof typeof contributions>((best, key) => (contributions[key] > contributions[best] ? key : best), 'tags');
+
+      results.push({
+        video,
+        recommendation: {
+          userId,
+          type: 'video',
+          itemId: video.videoId,
+          score: roundScore(score),
+          reasons,
+          basedOn,
+          createdAt: now.toISOString(),
+        },
+      });
+    });
+
+  return results.sort((a, b) => b.recommendation.score - a.recommendation.score);
+};
+
+// Suggest the user's own playlists that suit today and the participants' goals
+export const scorePlaylistRecommendations = (
+  userId: string,
+  playlists: Playlist[],
+  analyticsByPlaylist: Map<string, PlaylistAnalytics | null>,
+  now: Date,
+  goals: ParticipantGoal[] = [],
+  videosById: Map<string, Video> = new Map()
+): RecommendationData[] => {
+  const day = now.getDay();
+  const taggedGoals = goals.filter(goal => goal.tags && goal.tags.length > 0);
+  const weights = taggedGoals.length > 0 ? PLAYLIST_WEIGHTS_WITH_GOALS : PLAYLIST_WEIGHTS;
+  const maxSessions = Math.max(
+    1,
+    ...Array.from(analyticsByPlaylist.values()).map(analytics => analytics?.totalSessions || 0)
+  );
+
+  return playlists
+    .filter(playlist => playlist.videoRefs.length > 0)
+    .map(playlist => {
+      const analytics = analyticsByPlaylist.get(playlist.id) || null;
+      const dayScore = getDayOfWeekScore(analytics, day);
+      const usageScore = (analytics?.totalSessions || 0) / maxSessions;
+      const playlistTags = new Set(getUniqueVideos(playlist.videoRefs, videosById).flatMap(video => video.tags));
+      const targetedGoals = taggedGoals.filter(goal => goal.tags?.some(tag => playlistTags.has(tag)));
+      const goalScore = taggedGoals.length > 0 ? targetedGoals.length / taggedGoals.length : 0;
+
+      const contributions = {
+        time: dayScore * weights.time,
+        usage: usageScore * weights.usage,
+        tags: goalScore * weights.goals,
+      };
+      const score = contributions.time + contributions.usage + contributions.tags;
+
+      const reasons: string[] = [];
+      if (targetedGoals.length > 0) {
+        reasons.push(`Works on goals: ${targetedGoals.slice(0, 2).map(goal => goal.description).join(', ')}`);
+      }
+      if (dayScore > 0) {
+        reasons.push(`Often used on ${DAY_NAMES[day]}s`);
+      }
+      if (analytics && analytics.totalSessions > 0) {
+        reasons.push(`Used in ${analytics.totalSessions} ${analytics.totalSessions === 1 ? 'session' : 'sessions'}`);
+      }
+
+      const recommendation: RecommendationData = {
+        userId,
+        type: 'playlist',
+        itemId: playlist.id,
+        score: roundScore(score),
+        reasons,
+        basedOn: (Object.keys(contributions) as (keyof typeof contributions)[])
+          .reduce<keyof typeof contributions>((best, key) => (contributions[key] > contributions[best] ? key : best), 'time'),
+        createdAt: now.toISOString(),
+      };
+      return recommendation;
+    })
+    .filter(recommendation => recommendation.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+};
+
+// Suggest templates the user didn't create that match their tags
+export const scoreTemplateRecommendations = (
+  userId: string,
+  templates: TemplatePlaylist[],
+  seedVideos: Video[],
+  now: Date
+): RecommendationData[] => {
+  const tagProfile = buildTagProfile(seedVideos);
+
+  return templates
+    .filter(template => template.createdBy !== userId)
+    .map(template => {
+      const { score: tagScore, sharedTags } = getTagOverlap(template.tags, tagProfile);
+      const ratingScore = template.ratingCount > 0 ? template.rating / 5 : 0;
+      const score = (tagScore * 0.7) + (ratingScore * 0.3);
+
+      const reasons: string[] = [];
+      if (sharedTags.length > 0) {
+        reasons.push(`Matches tags you use: ${sharedTags.slice(0, 3).join(', ')}`);
+      }
+      if (template.ratingCount > 0) {
+        reasons.push(`Rated ${template.rating.toFixed(1)} by ${template.ratingCount} ${template.ratingCount === 1 ? 'person' : 'people'}`);
+      }
+
+      const recommendation: RecommendationData = {
+        userId,
+        type: 'template',
+        itemId: template.id,
+        score: roundScore(score),
+        reasons,
+        basedOn: tagScore * 0.7 >= ratingScore * 0.3 ? 'tags' : 'usage',
+        createdAt: now.toISOString(),
+      };
+      return recommendation;
+    })
+    .filter(recommendation => recommendation.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+};
+
+const getUniqueVideos = (videoIds: string[], videosById: Map<string, Video>): Video[] => {
+  return Array.from(new Set(videoIds))
+    .map(videoId => videosById.get(videoId))
+    .filter((video): video is Video => !!video);
+};
+
+// Recompute and store all recommendations for a user
+export const generateRecommendations = async (userId: string, now: Date = new Date()): Promise<RecommendationData[]> => {
+  try {
+    const [userPlaylists, videos, allPlaylists, videoAnalytics, templates, participants] = await Promise.all([
+      getUserPlaylists(userId),
+      getAllVideos(),
+      getAllPlaylists(),
+      getAllVideoAnalytics(),
+      getTemplates(userId),
+      getUserParticipants(userId),
+    ]);
+
+    const playlistAnalytics = await Promise.all(
+      userPlaylists.map(playlist => getPlaylistAnalytics(playlist.id))
+    );
+    const analyticsByPlaylist = new Map(
+      userPlaylists.map((playlist, index) => [playlist.id, playlistAnalytics[index]])
+    );
+
+    const videosById = new Map(videos.map(video => [video.videoId, video]));
+    const seedVideos = getUniqueVideos(userPlaylists.flatMap(playlist => playlist.videoRefs), videosById);
+
+    const recommendations = [
+      ...scoreVideoRecommendations({
+        userId,
+        candidates: videos,
+        seedVideos,
+        playlists: allPlaylists,
+        videoAnalytics,
+        now,
+      })
+        .slice(0, MAX_VIDEO_RECOMMENDATIONS)
+        .map(result => result.recommendation),
+      ...scorePlaylistRecommendations(
+        userId,
+        userPlaylists,
+        analyticsByPlaylist,
+        now,
+        participants.flatMap(participant => participant.goals),
+        videosById
+      ),
+      ...scoreTemplateRecommendations(userId, templates, seedVideos, now),
+    ].sort((a, b) => b.score - a.score);
+
+    await saveRecommendations(userId, recommendations);
+    return recommendations;
+  } catch (error) {
+    console.error('Error generating recommendations:', error);
+    return [];
+  }
+};
+
+// Replace the user's stored recommendations with a fresh set
+const saveRecommendations = async (userId: string, recommendations: RecommendationData[]): Promise<void> => {
+  const existing = await getDocs(query(collection(db, RECOMMENDATIONS), where('userId', '==', userId)));
+  const batch = writeBatch(db);
+
+  existing.docs.forEach(recommendationDoc => batch.delete(recommendationDoc.ref));
+  recommendations.forEach(recommendation => {
+    const recommendationRef = doc(db, RECOMMENDATIONS, `${userId}_${recommendation.type}_${recommendation.itemId}`);
+    batch.set(recommendationRef, {
+      ...recommendation,
+      createdAt: serverTimestamp(),
+    });
+  });
+
+  await batch.commit();
+};
+
+export const getRecommendations = async (
+  userId: string,
+  type?: RecommendationData['type']
+): Promise<RecommendationData[]> => {
+  try {
+    const q = query(
+      collection(db, RECOMMENDATIONS),
+      where('userId', '==', userId),
+      orderBy('score', 'desc')
+    );
+    const querySnapshot = await getDocs(q);
+
+    const recommendations = querySnapshot.docs.map(doc => ({
+      ...doc.data(),
+      createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+    })) as RecommendationData[];
+
+    return type ? recommendations.filter(recommendation => recommendation.type === type) : recommendations;
+  } catch (error) {
+    console.error('Error getting recommendations:', error);
+    return [];
+  }
+};
+
+// Videos to suggest while editing a playlist, scored against that playlist's contents
+export const getVideoRecommendationsForPlaylist = async (
+  userId: string,
+  playlist: Playlist,
+  limitCount: number = 6
+): Promise<RecommendedVideo[]> => {
+  try {
+    const [videos, allPlaylists, videoAnalytics] = await Promise.all([
+      getAllVideos(),
+      getAllPlaylists(),
+      getAllVideoAnalytics(),
+    ]);
+
+    const videosById = new Map(videos.map(video => [video.videoId, video]));
+    let seedVideos = getUniqueVideos(playlist.videoRefs, videosById);
+
+    // An empty playlist has nothing to compare against, so fall back to the user's other playlists
+    if (seedVideos.length === 0) {
+      const ownVideoIds = allPlaylists
+        .filter(p => p.userId === userId)
+        .flatMap(p => p.videoRefs);
+      seedVideos = getUniqueVideos(ownVideoIds, videosById);
+    }
+
+    return scoreVideoRecommendations({
+      userId,
+      candidates: videos.filter(video => !playlist.videoRefs.includes(video.videoId)),
+      seedVideos,
+      playlists: allPlaylists,
+      videoAnalytics,
+      now: new Date(),
+    }).slice(0, limitCount);
+  } catch (error) {
+    console.error('Error getting playlist video recommendations:', error);
+    return [];
+  }
+};
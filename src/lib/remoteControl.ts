@@ -0,0 +1,214 @@
+import {
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  onSnapshot,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+
+const REMOTE_SESSIONS = 'remoteSessions';
+
+export type RemoteCommandType = 'toggle' | 'next' | 'previous' | 'volume' | 'sync';
+
+export interface RemoteCommand {
+  id: string;
+  type: RemoteCommandType;
+  value?: number; // volume, 0-100
+  sentAt: number;
+}
+
+export interface RemoteSessionState {
+  playlistTitle: string;
+  itemTitle: string;
+  index: number;
+  total: number;
+  isPlaying: boolean;
+  volume: number; // 0-100
+  updatedAt: number;
+}
+
+// The presenter publishes state and listens for commands; the remote does the reverse.
+// `onState` reports null once the presenter has ended the session (or it never existed).
+export interface RemoteTransport {
+  publishState: (state: RemoteSessionState) => Promise<void>;
+  onCommand: (handler: (command: RemoteCommand) => void) => () => void;
+  sendCommand: (type: RemoteCommandType, value?: number) => Promise<void>;
+  onState: (handler: (state: RemoteSessionState | null) => void) => () => void;
+  end: () => Promise<void>;
+  close: () => void;
+}
+
+export type RemoteTransportKind = 'firestore' | 'broadcast';
+
+export const REMOTE_TRANSPORT_OPTIONS: { value: RemoteTransportKind; label: string }[] = [
+  { value: 'firestore', label: 'Phone or tablet (over the internet)' },
+  { value: 'broadcast', label: 'Another window on this computer' },
+];
+
+// Leaves out 0/O and 1/I so codes are easy to read across a room
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PAIRING_CODE_LENGTH = 6;
+
+export const createPairingCode = (): string => {
+  let code = '';
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    code += PAIRING_CODE_ALPHABET[Math.floor(Math.random() * PAIRING_CODE_ALPHABET.length)];
+  }
+  return code;
+};
+
+export const normalizePairingCode = (code: string): string => {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, PAIRING_CODE_LENGTH);
+};
+
+export const isValidPairingCode = (code: string): boolean => {
+  return code.length === PAIRING_CODE_LENGTH && [...code].every(char => PAIRING_CODE_ALPHABET.includes(char));
+};
+
+export const parseRemoteTransportKind = (value: string | null): RemoteTransportKind => {
+  return value === 'broadcast' ? 'broadcast' : 'firestore';
+};
+
+export const getRemoteControlUrl = (code: string, kind: RemoteTransportKind = 'firestore'): string => {
+  const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
+  const transport = kind === 'broadcast' ? '&transport=broadcast' : '';
+  return `${baseUrl}/session/remote?code=${code}${transport}`;
+};
+
+const createCommand = (type: RemoteCommandType, value?: number): RemoteCommand => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+  type,
+  ...(value !== undefined ? { value } : {}),
+  sentAt: Date.now(),
+});
+
+// Default transport: one Firestore document per pairing code, so the remote can be on any device
+export const createFirestoreRemoteTransport = (code: string, ownerId: string): RemoteTransport => {
+  const sessionRef = doc(db, REMOTE_SESSIONS, code);
+  const unsubscribers: (() => void)[] = [];
+
+  return {
+    publishState: async (state) => {
+      try {
+        await setDoc(sessionRef, { ownerId, state, updatedAt: serverTimestamp() }, { merge: true });
+      } catch (error) {
+        console.error('Error publishing remote session state:', error);
+      }
+    },
+
+    onCommand: (handler) => {
+      // The first snapshot holds whatever command was already there; only react to newer ones
+      let lastCommandId: string | null | undefined;
+      const unsubscribe = onSnapshot(sessionRef, (snapshot) => {
+        const command = snapshot.data()?.command as RemoteCommand | undefined;
+        if (lastCommandId === undefined) {
+          lastCommandId = command?.id ?? null;
+          return;
+        }
+        if (command && command.id !== lastCommandId) {
+          lastCommandId = command.id;
+          handler(command);
+        }
+      }, (error) => {
+        console.error('Error listening for remote commands:', error);
+      });
+      unsubscribers.push(unsubscribe);
+      return unsubscribe;
+    },
+
+    sendCommand: async (type, value) => {
+      try {
+        await updateDoc(sessionRef, { command: createCommand(type, value) });
+      } catch (error) {
+        console.error('Error sending remote command:', error);
+        throw error;
+      }
+    },
+
+    onState: (handler) => {
+      const unsubscribe = onSnapshot(sessionRef, (snapshot) => {
+        const state = snapshot.data()?.state as RemoteSessionState | undefined;
+        handler(snapshot.exists() && state ? state : null);
+      }, (error) => {
+        console.error('Error listening for remote session state:', error);
+        handler(null);
+      });
+      unsubscribers.push(unsubscribe);
+      return unsubscribe;
+    },
+
+    end: async () => {
+      try {
+        await deleteDoc(sessionRef);
+      } catch (error) {
+        console.error('Error ending remote session:', error);
+      }
+    },
+
+    close: () => {
+      unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+    },
+  };
+};
+
+type BroadcastMessage =
+  | { kind: 'state'; state: RemoteSessionState }
+  | { kind: 'command'; command: RemoteCommand }
+  | { kind: 'ended' };
+
+// Same-machine option (e.g. a second browser window) that needs no network round trip
+export const createBroadcastChannelTransport = (code: string): RemoteTransport => {
+  const channel = new BroadcastChannel(`musicnme-remote-${code}`);
+  const listeners = new Set<(message: BroadcastMessage) => void>();
+
+  channel.onmessage = (event: MessageEvent<BroadcastMessage>) => {
+    listeners.forEach(listener => listener(event.data));
+  };
+
+  const subscribe = (listener: (message: BroadcastMessage) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    publishState: async (state) => {
+      channel.postMessage({ kind: 'state', state } satisfies BroadcastMessage);
+    },
+
+    onCommand: (handler) => subscribe((message) => {
+      if (message.kind === 'command') handler(message.command);
+    }),
+
+    sendCommand: async (type, value) => {
+      channel.postMessage({ kind: 'command', command: createCommand(type, value) } satisfies BroadcastMessage);
+    },
+
+    onState: (handler) => subscribe((message) => {
+      if (message.kind === 'state') handler(message.state);
+      if (message.kind === 'ended') handler(null);
+    }),
+
+    end: async () => {
+      channel.postMessage({ kind: 'ended' } satisfies BroadcastMessage);
+    },
+
+    close: () => {
+      listeners.clear();
+      channel.close();
+    },
+  };
+};
+
+export const createRemoteTransport = (
+  kind: RemoteTransportKind,
+  code: string,
+  ownerId: string
+): RemoteTransport => {
+  return kind === 'broadcast'
+    ? createBroadcastChannelTransport(code)
+    : createFirestoreRemoteTransport(code, ownerId);
+};
@@ -0,0 +1,185 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { toDateInputValue } from './progressReports';
+import { SessionLaunchSettings, getSessionLaunchParams } from './preferences';
+import { PlannedSession, RecurrenceFrequency, SessionAnalytics } from '@/types';
+
+const PLANNED_SESSIONS = 'plannedSessions';
+
+export type PlannedSessionDetails = Pick<
+  PlannedSession,
+  'playlistId' | 'participantIds' | 'venueId' | 'startDate' | 'time' | 'durationMinutes' | 'recurrence' | 'endDate' | 'notes'
+>;
+
+// One dated occurrence of a planned session
+export interface ScheduledOccurrence {
+  plannedSession: PlannedSession;
+  date: string; // YYYY-MM-DD
+}
+
+export type OccurrenceStatus = 'planned' | 'delivered' | 'missed';
+
+export const RECURRENCE_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'fortnightly', label: 'Every fortnight' },
+];
+
+const RECURRENCE_INTERVAL_DAYS: Record<RecurrenceFrequency, number> = {
+  none: 0,
+  weekly: 7,
+  fortnightly: 14,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00`);
+  result.setDate(result.getDate() + days);
+  return toDateInputValue(result);
+};
+
+// Rounded so a daylight saving change inside the range doesn't lose a day
+const getDaysBetween = (from: string, to: string): number => {
+  return Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / DAY_MS);
+};
+
+// Monday of the week containing the date
+export const getWeekStartDate = (date: string): string => {
+  return addDays(date, -((new Date(`${date}T00:00:00`).getDay() + 6) % 7));
+};
+
+export const getRecurrenceLabel = (plannedSession: PlannedSession): string => {
+  if (plannedSession.recurrence === 'none') return 'One-off';
+
+  const weekday = new Date(`${plannedSession.startDate}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long' });
+  const label = plannedSession.recurrence === 'weekly' ? `Every ${weekday}` : `Every other ${weekday}`;
+  return `${label} at ${plannedSession.time}`;
+};
+
+// Every occurrence falling between two dates (inclusive), earliest first
+export const getOccurrences = (plannedSessions: PlannedSession[], from: string, to: string): ScheduledOccurrence[] => {
+  return plannedSessions
+    .flatMap(plannedSession => {
+      const interval = RECURRENCE_INTERVAL_DAYS[plannedSession.recurrence];
+      if (!interval) {
+        return plannedSession.startDate >= from && plannedSession.startDate <= to
+          ? [{ plannedSession, date: plannedSession.startDate }]
+          : [];
+      }
+
+      const last = plannedSession.endDate && plannedSession.endDate < to ? plannedSession.endDate : to;
+      let date = plannedSession.startDate;
+      if (date < from) {
+        date = addDays(date, Math.ceil(getDaysBetween(date, from) / interval) * interval);
+      }
+
+      const occurrences: ScheduledOccurrence[] = [];
+      while (date <= last) {
+        occurrences.push({ plannedSession, date });
+        date = addDays(date, interval);
+      }
+      return occurrences;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.plannedSession.time.localeCompare(b.plannedSession.time));
+};
+
+// Delivered when a recorded session was launched from the occurrence; missed once its day has passed
+export const getOccurrenceStatus = (
+  occurrence: ScheduledOccurrence,
+  sessions: SessionAnalytics[],
+  today: string = toDateInputValue(new Date())
+): OccurrenceStatus => {
+  const delivered = sessions.some(session =>
+    session.plannedSessionId === occurrence.plannedSession.id && session.plannedDate === occurrence.date
+  );
+  if (delivered) return 'delivered';
+  return occurrence.date < today ? 'missed' : 'planned';
+};
+
+// Straight into the session player with the planned participants and the worker's current defaults
+export const getOccurrenceLaunchUrl = (occurrence: ScheduledOccurrence, settings: SessionLaunchSettings): string => {
+  const { plannedSession } = occurrence;
+  const params = getSessionLaunchParams(plannedSession.playlistId, settings, plannedSession.participantIds);
+  params.set('plannedSessionId', plannedSession.id);
+  params.set('plannedDate', occurrence.date);
+  return `/session?${params.toString()}`;
+};
+
+const toPlannedSession = (id: string, data: DocumentData): PlannedSession => ({
+  id,
+  userId: data.userId,
+  playlistId: data.playlistId,
+  participantIds: data.participantIds || [],
+  venueId: data.venueId,
+  startDate: data.startDate,
+  time: data.time,
+  durationMinutes: data.durationMinutes,
+  recurrence: data.recurrence,
+  endDate: data.endDate,
+  notes: data.notes,
+  createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+});
+
+// Planned session operations
+export const createPlannedSession = async (userId: string, details: PlannedSessionDetails): Promise<string> => {
+  try {
+    const plannedSessionRef = await addDoc(collection(db, PLANNED_SESSIONS), {
+      ...details,
+      userId,
+      createdAt: serverTimestamp(),
+    });
+    return plannedSessionRef.id;
+  } catch (error) {
+    console.error('Error creating planned session:', error);
+    throw error;
+  }
+};
+
+export const getUserPlannedSessions = async (userId: string): Promise<PlannedSession[]> => {
+  try {
+    const q = query(collection(db, PLANNED_SESSIONS), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => toPlannedSession(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error getting planned sessions:', error);
+    return [];
+  }
+};
+
+// Optional fields missing from the details are cleared on the stored entry
+export const updatePlannedSession = async (plannedSessionId: string, details: PlannedSessionDetails): Promise<void> => {
+  try {
+    await updateDoc(doc(db, PLANNED_SESSIONS, plannedSessionId), {
+      venueId: deleteField(),
+      endDate: deleteField(),
+      notes: deleteField(),
+      ...details,
+    });
+  } catch (error) {
+    console.error('Error updating planned session:', error);
+    throw error;
+  }
+};
+
+// Delivered sessions keep the id, so planned vs delivered history survives deleting the entry
+export const deletePlannedSession = async (plannedSessionId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, PLANNED_SESSIONS, plannedSessionId));
+  } catch (error) {
+    console.error('Error deleting planned session:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,36 @@
+import { createEntryId } from './firestore';
+import { PlaylistEntry, SessionStep, SessionStepType } from '@/types';
+
+export type StepEntry = PlaylistEntry & { step: SessionStep };
+
+export const SESSION_STEP_TYPES: { value: SessionStepType; label: string; description: string }[] = [
+  { value: 'instruction', label: 'Instruction', description: 'A text card, e.g. "Hand out the boomwhackers"' },
+  { value: 'timer', label: 'Timer', description: 'A countdown for free play or an activity' },
+  { value: 'picture', label: 'Picture', description: 'A full-screen image with an optional caption' },
+  { value: 'pause', label: 'Pause', description: 'A calm, silent break before the next step' },
+];
+
+// Used when a timer or pause is added without picking a length
+export const DEFAULT_STEP_DURATION_SECONDS = 120;
+
+export const getStepTypeLabel = (type: SessionStepType): string => {
+  return SESSION_STEP_TYPES.find(option => option.value === type)?.label || type;
+};
+
+export const isStepEntry = (entry: PlaylistEntry): entry is StepEntry => {
+  return !!entry.step;
+};
+
+export const createStepEntry = (step: SessionStep): PlaylistEntry => ({
+  id: createEntryId(),
+  step,
+});
+
+// Timers and pauses always count down; instruction and picture cards only when given a length
+export const isTimedStep = (step: SessionStep): boolean => {
+  return step.durationSeconds !== undefined && step.durationSeconds > 0;
+};
+
+export const getStepDurationSeconds = (step: SessionStep): number => {
+  return isTimedStep(step) ? step.durationSeconds as number : 0;
+};
@@ -9,6 +9,7 @@ import {
   serverTimestamp 
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { normalizePlaylistEntries, getVideoRefs } from './firestore';
 import { Playlist, Video } from '@/types';
 
 export interface SharedPlaylist {
@@ -104,9 +105,12 @@ export const getSharedPlaylist = async (shareId: string): Promise<SharedPlaylist
       return null;
     }
     
+    const entries = normalizePlaylistEntries(playlistDoc.data());
     const playlist = {
       id: playlistDoc.id,
       ...playlistDoc.data(),
+      entries,
+      videoRefs: getVideoRefs(entries),
       createdAt: playlistDoc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
     } as Playlist;
     
@@ -179,6 +183,22 @@ export const getUserSharedPlaylists = async (userId: string): Promise<SharedPlay
   }
 };
 
+// Get every shared playlist (admin function)
+export const getAllSharedPlaylists = async (): Promise<SharedPlaylist[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'sharedPlaylists'));
+    
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+      createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+    })) as SharedPlaylist[];
+  } catch (error) {
+    console.error('Error getting all shared playlists:', error);
+    return [];
+  }
+};
+
 // Revoke shared playlist access
 export const revokeSharedPlaylist = async (shareId: string): Promise<void> => {
   try {
@@ -0,0 +1,34 @@
+import { SwitchScanMode } from '@/types';
+
+export type SwitchScanChoice = 'play' | 'next' | 'again' | 'stop';
+
+// Scanning order; play comes first so a single press after each selection resumes the music
+export const SWITCH_SCAN_CHOICES: SwitchScanChoice[] = ['play', 'next', 'again', 'stop'];
+
+export const SWITCH_SCAN_MODES: { value: SwitchScanMode; label: string; description: string }[] = [
+  { value: 'single', label: 'Single switch', description: 'Choices light up in turn; press to pick the lit one' },
+  { value: 'two-switch', label: 'Two switches', description: 'One switch moves to the next choice, the other picks it' },
+];
+
+export const SCAN_INTERVAL_OPTIONS = [1, 1.5, 2, 3, 4, 5];
+
+// Keys the session player keeps for itself in every mode
+const RESERVED_KEYS = ['Escape'];
+
+export const isReservedKey = (code: string): boolean => {
+  return RESERVED_KEYS.includes(code);
+};
+
+// Friendly name for a KeyboardEvent.code, e.g. "KeyA" -> "A"
+export const getKeyLabel = (code: string): string => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Numpad ${code.slice(6)}`;
+  if (code.startsWith('Arrow')) return `${code.slice(5)} arrow`;
+  return code;
+};
+
+// Keys the scanning panel listens for; the player's own shortcuts skip these
+export const getSwitchKeys = (mode: SwitchScanMode, selectKey: string, stepKey: string): string[] => {
+  return mode === 'two-switch' ? [selectKey, stepKey] : [selectKey];
+};
@@ -46,23 +46,30 @@ export const getTag = async (tagId: string): Promise<Tag | null> => {
   }
 };
 
-export const getAllTags = async (): Promise<Tag[]> => {
+// Hidden tags are only returned to admins
+export interface TagQueryOptions {
+  includeHidden?: boolean;
+}
+
+export const getAllTags = async (options: TagQueryOptions = {}): Promise<Tag[]> => {
   try {
     const tagsRef = collection(db, 'tags');
     const q = query(tagsRef, orderBy('name'));
     const querySnapshot = await getDocs(q);
     
-    return querySnapshot.docs.map(doc => ({
+    const tags = querySnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data(),
     })) as Tag[];
+
+    return options.includeHidden ? tags : tags.filter(tag => !tag.hidden);
   } catch (error) {
     console.error('Error getting all tags:', error);
     return [];
   }
 };
 
-export const getTagsByCategory = async (category: Tag['category']): Promise<Tag[]> => {
+export const getTagsByCategory = async (category: Tag['category'], options: TagQueryOptions = {}): Promise<Tag[]> => {
   try {
     const tagsRef = collection(db, 'tags');
     const q = query(
@@ -72,10 +79,12 @@ export const getTagsByCategory = async (category: Tag['category']): Promise<Tag[
     );
     const querySnapshot = await getDocs(q);
     
-    return querySnapshot.docs.map(doc => ({
+    const tags = querySnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data(),
     })) as Tag[];
+
+    return options.includeHidden ? tags : tags.filter(tag => !tag.hidden);
   } catch (error) {
     console.error('Error getting tags by category:', error);
     return [];
@@ -0,0 +1,224 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  increment,
+  serverTimestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { createPlaylist, createPlaylistEntry, getEntryDurationSeconds, getVideo } from './firestore';
+import { Playlist, TemplatePlaylist, TemplateCategory, TemplateDifficulty } from '@/types';
+
+const TEMPLATES = 'templates';
+
+export interface TemplateFilters {
+  category?: TemplateCategory;
+  difficulty?: TemplateDifficulty;
+}
+
+export type TemplateDetails = Pick<TemplatePlaylist, 'title' | 'description' | 'category' | 'difficulty' | 'isPublic'>;
+
+const toTemplate = (id: string, data: DocumentData): TemplatePlaylist => ({
+  id,
+  title: data.title,
+  description: data.description,
+  category: data.category,
+  videoRefs: data.videoRefs || [],
+  tags: data.tags || [],
+  difficulty: data.difficulty,
+  duration: data.duration,
+  createdBy: data.createdBy,
+  isPublic: !!data.isPublic,
+  usageCount: data.usageCount || 0,
+  rating: data.rating || 0,
+  ratingCount: data.ratingCount || 0,
+  ratingsByUser: data.ratingsByUser || {},
+  createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+});
+
+// Template operations
+export const createTemplate = async (
+  template: Omit<TemplatePlaylist, 'id' | 'createdAt' | 'usageCount' | 'rating' | 'ratingCount' | 'ratingsByUser'>
+): Promise<string> => {
+  try {
+    const templateRef = await addDoc(collection(db, TEMPLATES), {
+      ...template,
+      usageCount: 0,
+      rating: 0,
+      ratingCount: 0,
+      ratingsByUser: {},
+      createdAt: serverTimestamp(),
+    });
+    return templateRef.id;
+  } catch (error) {
+    console.error('Error creating template:', error);
+    throw error;
+  }
+};
+
+// Snapshot an existing playlist's videos, tags and running time into a new template
+export const createTemplateFromPlaylist = async (
+  playlist: Playlist,
+  details: TemplateDetails,
+  createdBy: string
+): Promise<string> => {
+  try {
+    const tags = new Set<string>();
+    let duration = 0;
+
+    for (const entry of playlist.entries) {
+      if (!entry.videoId) continue;
+      const video = await getVideo(entry.videoId);
+      if (!video) continue;
+
+      video.tags.forEach(tag => tags.add(tag));
+      duration += getEntryDurationSeconds(entry, video);
+    }
+
+    return await createTemplate({
+      ...details,
+      videoRefs: [...playlist.videoRefs],
+      tags: Array.from(tags),
+      duration,
+      createdBy,
+    });
+  } catch (error) {
+    console.error('Error creating template from playlist:', error);
+    throw error;
+  }
+};
+
+export const getTemplate = async (templateId: string): Promise<TemplatePlaylist | null> => {
+  try {
+    const templateRef = doc(db, TEMPLATES, templateId);
+    const templateDoc = await getDoc(templateRef);
+
+    if (templateDoc.exists()) {
+      return toTemplate(templateDoc.id, templateDoc.data());
+    }
+    return null;
+  } catch (error) {
+    console.error('Error getting template:', error);
+    return null;
+  }
+};
+
+// Public templates plus the user's own private ones, most used first
+export const getTemplates = async (userId: string, filters: TemplateFilters = {}): Promise<TemplatePlaylist[]> => {
+  try {
+    const templatesRef = collection(db, TEMPLATES);
+    const [publicSnapshot, ownSnapshot] = await Promise.all([
+      getDocs(query(templatesRef, where('isPublic', '==', true))),
+      getDocs(query(templatesRef, where('createdBy', '==', userId))),
+    ]);
+
+    const templates = new Map<string, TemplatePlaylist>();
+    [...publicSnapshot.docs, ...ownSnapshot.docs].forEach(templateDoc => {
+      templates.set(templateDoc.id, toTemplate(templateDoc.id, templateDoc.data()));
+    });
+
+    // Filter client-side so the two queries above don't need extra composite indexes
+    return Array.from(templates.values())
+      .filter(template => !filters.category || template.category === filters.category)
+      .filter(template => !filters.difficulty || template.difficulty === filters.difficulty)
+      .sort((a, b) => b.usageCount - a.usageCount);
+  } catch (error) {
+    console.error('Error getting templates:', error);
+    return [];
+  }
+};
+
+export const updateTemplate = async (templateId: string, updates: Partial<TemplateDetails>): Promise<void> => {
+  try {
+    const templateRef = doc(db, TEMPLATES, templateId);
+    await updateDoc(templateRef, updates);
+  } catch (error) {
+    console.error('Error updating template:', error);
+    throw error;
+  }
+};
+
+export const deleteTemplate = async (templateId: string): Promise<void> => {
+  try {
+    const templateRef = doc(db, TEMPLATES, templateId);
+    await deleteDoc(templateRef);
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    throw error;
+  }
+};
+
+// Copy a template's videos into a new playlist owned by the user
+export const createPlaylistFromTemplate = async (
+  template: TemplatePlaylist,
+  userId: string,
+  title?: string
+): Promise<string> => {
+  try {
+    const playlistId = await createPlaylist({
+      userId,
+      title: title || template.title,
+      notes: template.description,
+      entries: template.videoRefs.map(videoId => createPlaylistEntry(videoId)),
+    });
+
+    await updateDoc(doc(db, TEMPLATES, template.id), {
+      usageCount: increment(1),
+    });
+
+    return playlistId;
+  } catch (error) {
+    console.error('Error creating playlist from template:', error);
+    throw error;
+  }
+};
+
+// Record a user's 1-5 rating; rating again replaces their previous score
+export const rateTemplate = async (templateId: string, userId: string, rating: number): Promise<TemplatePlaylist | null> => {
+  try {
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new Error('Rating must be a whole number from 1 to 5');
+    }
+
+    const template = await getTemplate(templateId);
+    if (!template) return null;
+
+    const ratingsByUser = { ...template.ratingsByUser, [userId]: rating };
+    const scores = Object.values(ratingsByUser);
+    const average = scores.reduce((total, score) => total + score, 0) / scores.length;
+
+    const updates = {
+      ratingsByUser,
+      ratingCount: scores.length,
+      rating: Math.round(average * 10) / 10,
+    };
+
+    await updateDoc(doc(db, TEMPLATES, templateId), updates);
+    return { ...template, ...updates };
+  } catch (error) {
+    console.error('Error rating template:', error);
+    throw error;
+  }
+};
+
+// Display helpers
+export const TEMPLATE_CATEGORIES: { value: TemplateCategory; label: string }[] = [
+  { value: 'warmup', label: 'Warm-up' },
+  { value: 'activity', label: 'Activity' },
+  { value: 'cooldown', label: 'Cool-down' },
+  { value: 'seasonal', label: 'Seasonal' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export const TEMPLATE_DIFFICULTIES: { value: TemplateDifficulty; label: string }[] = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+];
@@ -0,0 +1,44 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { User, UserRole } from '@/types';
+
+// User administration (admin panel)
+export const getAllUsers = async (): Promise<User[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'users'));
+    
+    return querySnapshot.docs.map(doc => ({
+      ...doc.data(),
+      uid: doc.id,
+      role: doc.data().role || 'worker',
+      disabled: !!doc.data().disabled,
+      createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+    })) as User[];
+  } catch (error) {
+    console.error('Error getting all users:', error);
+    return [];
+  }
+};
+
+export const updateUserRole = async (uid: string, role: UserRole): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'users', uid), { role });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    throw error;
+  }
+};
+
+export const setUserDisabled = async (uid: string, disabled: boolean): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'users', uid), { disabled });
+  } catch (error) {
+    console.error('Error updating user status:', error);
+    throw error;
+  }
+};
@@ -13,6 +13,146 @@ export const playlistSchema = z.object({
   videoRefs: z.array(z.string()).optional(),
 });
 
+// Playlist entry clip validation schema
+export const playlistEntryClipSchema = z.object({
+  startSeconds: z.number()
+    .int()
+    .min(0, 'Start time cannot be negative')
+    .optional(),
+  endSeconds: z.number()
+    .int()
+    .min(1, 'End time must be after 0:00')
+    .optional(),
+}).refine(
+  (clip) => clip.startSeconds === undefined || clip.endSeconds === undefined || clip.endSeconds > clip.startSeconds,
+  { message: 'End time must be after start time', path: ['endSeconds'] }
+);
+
+// Non-video session step validation schema
+export const sessionStepSchema = z.object({
+  type: z.enum(['instruction', 'timer', 'picture', 'pause']),
+  title: z.string()
+    .min(1, 'Step title is required')
+    .max(100, 'Step title must be less than 100 characters')
+    .trim(),
+  text: z.string()
+    .max(500, 'Text must be less than 500 characters')
+    .optional(),
+  imageUrl: z.string()
+    .url('Invalid image URL')
+    .optional(),
+  durationSeconds: z.number()
+    .int()
+    .min(1, 'Duration must be at least 1 second')
+    .max(3600, 'Duration must be an hour or less')
+    .optional(),
+}).refine(
+  (step) => step.type !== 'picture' || !!step.imageUrl,
+  { message: 'Picture steps need an image URL', path: ['imageUrl'] }
+).refine(
+  (step) => (step.type !== 'timer' && step.type !== 'pause') || step.durationSeconds !== undefined,
+  { message: 'Timers and pauses need a duration', path: ['durationSeconds'] }
+);
+
+// Template validation schema
+export const templateSchema = z.object({
+  title: z.string()
+    .min(1, 'Template title is required')
+    .max(100, 'Template title must be less than 100 characters')
+    .trim(),
+  description: z.string()
+    .max(500, 'Description must be less than 500 characters'),
+  category: z.enum(['warmup', 'activity', 'cooldown', 'seasonal', 'custom']),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  isPublic: z.boolean(),
+});
+
+// Participant profile validation schema
+export const participantSchema = z.object({
+  displayName: z.string()
+    .min(1, 'Name or pseudonym is required')
+    .max(50, 'Name must be less than 50 characters')
+    .trim(),
+  ageBand: z.enum(['under-7', '7-12', '13-17', '18-25', '26-plus']),
+  sensoryNotes: z.string()
+    .max(1000, 'Sensory notes must be less than 1000 characters'),
+  favouriteVideoIds: z.array(z.string())
+    .max(20, 'Maximum 20 favourite videos'),
+  goals: z.array(z.object({
+    id: z.string().min(1),
+    description: z.string()
+      .min(1, 'Goal description is required')
+      .max(200, 'Goals must be less than 200 characters'),
+    target: z.number()
+      .int('Targets must be whole numbers')
+      .min(1, 'Targets must be at least 1')
+      .max(1000, 'Targets must be 1000 or less')
+      .optional(),
+    tags: z.array(z.string())
+      .max(5, 'Maximum 5 tags per goal')
+      .optional(),
+  })).max(10, 'Maximum 10 goals'),
+});
+
+// Planned session validation schema. Optional fields are '' when unset in the form.
+export const plannedSessionSchema = z.object({
+  playlistId: z.string().min(1, 'Choose a playlist'),
+  participantIds: z.array(z.string())
+    .max(20, 'Maximum 20 participants'),
+  venueId: z.string(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Choose a date'),
+  time: z.string().regex(/^\d{2}:\d{2}$/, 'Choose a time'),
+  durationMinutes: z.number()
+    .int()
+    .min(5, 'Sessions must be at least 5 minutes')
+    .max(480, 'Sessions must be 8 hours or less'),
+  recurrence: z.enum(['none', 'weekly', 'fortnightly']),
+  endDate: z.string(),
+  notes: z.string()
+    .max(500, 'Notes must be less than 500 characters'),
+}).refine(
+  (session) => session.recurrence === 'none' || !session.endDate || session.endDate >= session.startDate,
+  { message: 'End date must be after the first session', path: ['endDate'] }
+);
+
+export type PlannedSessionFormData = z.infer<typeof plannedSessionSchema>;
+
+// User preferences validation schema
+export const userPreferencesSchema = z.object({
+  session: z.object({
+    autoplay: z.boolean(),
+    shuffle: z.boolean(),
+    loop: z.boolean(),
+    fullscreen: z.boolean(),
+    volume: z.number()
+      .min(0, 'Volume cannot be below 0%')
+      .max(1, 'Volume cannot be above 100%'),
+    colourNotes: z.boolean(),
+    colourScheme: z.string().min(1, 'Choose a colour chart'),
+  }),
+  accessibility: z.object({
+    highContrast: z.boolean(),
+    largeText: z.boolean(),
+    lowSensory: z.boolean(),
+    reducedMotion: z.boolean(),
+  }),
+  switchAccess: z.object({
+    enabled: z.boolean(),
+    mode: z.enum(['single', 'two-switch']),
+    scanIntervalSeconds: z.number()
+      .min(0.5, 'Scan interval must be at least half a second')
+      .max(10, 'Scan interval must be 10 seconds or less'),
+    selectKey: z.string().min(1, 'Choose a select key'),
+    stepKey: z.string().min(1, 'Choose a step key'),
+  }).refine(
+    (switchAccess) => switchAccess.mode !== 'two-switch' || switchAccess.selectKey !== switchAccess.stepKey,
+    { message: 'Step and select need different keys', path: ['stepKey'] }
+  ),
+  landingPage: z.enum(['/dashboard', '/playlists', '/videos', '/templates']),
+  defaultTagFilters: z.array(z.string())
+    .max(5, 'Maximum 5 default tags'),
+});
+
 // Video validation schema
 export const videoSchema = z.object({
   videoId: z.string()
@@ -34,6 +174,45 @@ export const videoSchema = z.object({
     .min(1, 'Creator ID is required'),
 });
 
+// Playlist export file schema (version 1). Bump the version and keep the old
+// schema around if the file layout ever changes, so older backups still import.
+export const playlistExportSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string(),
+  playlist: z.object({
+    title: z.string().min(1, 'Playlist title is required').max(100),
+    notes: z.string().max(500).optional(),
+    entries: z.array(z.object({
+      videoId: z.string().length(11, 'Invalid video ID').optional(),
+      step: sessionStepSchema.optional(),
+      startSeconds: z.number().int().min(0).optional(),
+      endSeconds: z.number().int().min(1).optional(),
+      sectionId: z.string().optional(),
+    }).refine(
+      (entry) => !!entry.videoId !== !!entry.step,
+      { message: 'Each entry needs either a video ID or a step' }
+    ).refine(
+      (entry) => playlistEntryClipSchema.safeParse(entry).success,
+      { message: 'End time must be after start time', path: ['endSeconds'] }
+    )),
+    sections: z.array(z.object({
+      id: z.string().min(1),
+      name: z.string().min(1).max(50),
+      targetSeconds: z.number().int().min(0).optional(),
+    })).optional(),
+  }),
+  videos: z.array(z.object({
+    videoId: z.string().length(11, 'Invalid video ID'),
+    title: z.string().min(1),
+    duration: z.string(),
+    thumbnail: z.string(),
+    tags: z.array(z.string()),
+    channelName: z.string(),
+  })),
+});
+
+export type PlaylistExport = z.infer<typeof playlistExportSchema>;
+
 // YouTube URL validation
 export const youtubeUrlSchema = z.string()
   .refine(isValidYouTubeUrl, {
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAllVideos, setVideoAvailability } from './firestore';
+import { checkVideoAvailability, createFakeMetadataProvider, runVideoHealthCheck } from './videoHealth';
+import { MAX_IDS_PER_REQUEST } from './youtube';
+import { Video } from '@/types';
+
+vi.mock('./firestore', () => ({
+  getAllVideos: vi.fn(),
+  setVideoAvailability: vi.fn(),
+}));
+
+const makeVideo = (videoId: string, overrides: Partial<Video> = {}): Video => ({
+  videoId,
+  title: `Video ${videoId}`,
+  duration: '3:00',
+  thumbnail: '',
+  tags: [],
+  channelName: 'Channel',
+  createdBy: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const provider = createFakeMetadataProvider(
+  {
+    playable: {},
+    noEmbed: { embeddable: false },
+  },
+  ['flaky']
+);
+
+describe('checkVideoAvailability', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('reports embeddable videos as available', async () => {
+    expect(await checkVideoAvailability('playable', provider)).toBe('available');
+  });
+
+  it('reports removed and non-embeddable videos as unavailable', async () => {
+    expect(await checkVideoAvailability('removed', provider)).toBe('unavailable');
+    expect(await checkVideoAvailability('noEmbed', provider)).toBe('unavailable');
+  });
+
+  it('reports a failed lookup as unknown', async () => {
+    expect(await checkVideoAvailability('flaky', provider)).toBe('unknown');
+  });
+});
+
+describe('runVideoHealthCheck', () => {
+  beforeEach(() => {
+    vi.mocked(getAllVideos).mockReset();
+    vi.mocked(setVideoAvailability).mockReset().mockResolvedValue(undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('stores each result and summarises the library', async () => {
+    vi.mocked(getAllVideos).mockResolvedValue([
+      makeVideo('playable'),
+      makeVideo('removed'),
+      makeVideo('noEmbed'),
+    ]);
+    const onProgress = vi.fn();
+
+    const summary = await runVideoHealthCheck(provider, onProgress);
+
+    expect(summary).toMatchObject({ checked: 3, available: 1, unavailable: 2, unknown: 0 });
+    expect(summary.unavailableVideos.map(video => video.videoId)).toEqual(['removed', 'noEmbed']);
+    expect(setVideoAvailability).toHaveBeenCalledWith('playable', 'available');
+    expect(setVideoAvailability).toHaveBeenCalledWith('removed', 'unavailable');
+    expect(setVideoAvailability).toHaveBeenCalledWith('noEmbed', 'unavailable');
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it('looks videos up in chunks and only loses the chunk whose lookup failed', async () => {
+    const ids = Array.from({ length: MAX_IDS_PER_REQUEST }, (_, i) => `video${i}`);
+    const chunkedProvider = createFakeMetadataProvider(Object.fromEntries(ids.map(id => [id, {}])), ['flaky']);
+    const getMetadata = vi.spyOn(chunkedProvider, 'getMetadata');
+    vi.mocked(getAllVideos).mockResolvedValue([...ids, 'flaky'].map(id => makeVideo(id)));
+
+    const summary = await runVideoHealthCheck(chunkedProvider);
+
+    expect(getMetadata).toHaveBeenCalledTimes(2);
+    expect(getMetadata.mock.calls[1][0]).toEqual(['flaky']);
+    expect(summary).toMatchObject({ checked: MAX_IDS_PER_REQUEST + 1, available: MAX_IDS_PER_REQUEST, unknown: 1 });
+    expect(setVideoAvailability).toHaveBeenCalledWith('flaky', 'unknown');
+  });
+
+  it('keeps an earlier result when the provider fails', async () => {
+    vi.mocked(getAllVideos).mockResolvedValue([makeVideo('flaky', { availability: 'available' })]);
+
+    const summary = await runVideoHealthCheck(provider);
+
+    expect(summary.unknown).toBe(1);
+    expect(setVideoAvailability).not.toHaveBeenCalled();
+  });
+});
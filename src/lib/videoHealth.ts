@@ -0,0 +1,135 @@
+import { fetchVideoMetadataBatch, MAX_IDS_PER_REQUEST, ProcessedVideoData } from './youtube';
+import { getAllVideos, setVideoAvailability } from './firestore';
+import { Video, VideoAvailability } from '@/types';
+
+// Source of video metadata for the health checker. `getMetadata` resolves the
+// videos that still exist, keyed by id, and throws when the lookup itself failed.
+export interface VideoMetadataProvider {
+  getMetadata: (videoIds: string[]) => Promise<Map<string, ProcessedVideoData>>;
+}
+
+// One Data API request per 50 videos, through the shared rate limiter
+export const youtubeMetadataProvider: VideoMetadataProvider = {
+  getMetadata: (videoIds) => fetchVideoMetadataBatch(videoIds),
+};
+
+// In-memory provider for tests and local runs without a YouTube API key.
+// Ids missing from `videos` are reported as removed; a lookup including any of `failingIds` throws.
+export const createFakeMetadataProvider = (
+  videos: Record<string, Partial<ProcessedVideoData>>,
+  failingIds: string[] = []
+): VideoMetadataProvider => ({
+  getMetadata: async (videoIds: string[]) => {
+    const failingId = videoIds.find(videoId => failingIds.includes(videoId));
+    if (failingId) {
+      throw new Error(`Metadata lookup failed for ${failingId}`);
+    }
+
+    const results = new Map<string, ProcessedVideoData>();
+    videoIds.forEach(videoId => {
+      const video = videos[videoId];
+      if (!video) return;
+
+      results.set(videoId, {
+        id: videoId,
+        title: 'Untitled Video',
+        channelTitle: 'Unknown Channel',
+        thumbnails: {
+          high: { url: '' },
+          medium: { url: '' },
+          default: { url: '' },
+        },
+        duration: '0:00',
+        description: '',
+        embeddable: true,
+        ...video,
+      });
+    });
+    return results;
+  },
+});
+
+export interface HealthCheckSummary {
+  checked: number;
+  available: number;
+  unavailable: number;
+  unknown: number;
+  unavailableVideos: Video[];
+}
+
+// Check a batch of videos in one lookup. If the lookup fails every video in it is unknown.
+export const checkVideosAvailability = async (
+  videoIds: string[],
+  provider: VideoMetadataProvider = youtubeMetadataProvider
+): Promise<Map<string, VideoAvailability>> => {
+  try {
+    const metadata = await provider.getMetadata(videoIds);
+    // Videos that can't be embedded fail in the session player just like removed ones
+    return new Map(videoIds.map(videoId => [
+      videoId,
+      metadata.get(videoId)?.embeddable ? 'available' : 'unavailable',
+    ]));
+  } catch (error) {
+    console.error(`Error checking availability of ${videoIds.length} video(s):`, error);
+    return new Map(videoIds.map(videoId => [videoId, 'unknown']));
+  }
+};
+
+export const checkVideoAvailability = async (
+  videoId: string,
+  provider: VideoMetadataProvider = youtubeMetadataProvider
+): Promise<VideoAvailability> => {
+  const results = await checkVideosAvailability([videoId], provider);
+  return results.get(videoId) || 'unknown';
+};
+
+// Re-validate every video in the library, one provider lookup per chunk of videos,
+// and store the result on each video
+export const runVideoHealthCheck = async (
+  provider: VideoMetadataProvider = youtubeMetadataProvider,
+  onProgress?: (checked: number, total: number) => void
+): Promise<HealthCheckSummary> => {
+  const videos = await getAllVideos({ includeHidden: true });
+  const summary: HealthCheckSummary = {
+    checked: 0,
+    available: 0,
+    unavailable: 0,
+    unknown: 0,
+    unavailableVideos: [],
+  };
+
+  for (let i = 0; i < videos.length; i += MAX_IDS_PER_REQUEST) {
+    const chunk = videos.slice(i, i + MAX_IDS_PER_REQUEST);
+    const results = await checkVideosAvailability(chunk.map(video => video.videoId), provider);
+
+    for (const video of chunk) {
+      const availability = results.get(video.videoId) || 'unknown';
+
+      // A failed lookup says nothing about the video, so keep any earlier result
+      if (availability !== 'unknown' || !video.availability) {
+        try {
+          await setVideoAvailability(video.videoId, availability);
+        } catch (error) {
+          console.error(`Error saving availability of video ${video.videoId}:`, error);
+        }
+      }
+
+      summary.checked++;
+      summary[availability]++;
+      if (availability === 'unavailable') {
+        summary.unavailableVideos.push({ ...video, availability });
+      }
+    }
+    onProgress?.(summary.checked, videos.length);
+  }
+
+  return summary;
+};
+
+export const isVideoUnavailable = (video: Pick<Video, 'availability'>): boolean => {
+  return video.availability === 'unavailable';
+};
+
+// YouTube player error codes meaning the video will never play here:
+// 100 = removed or private, 101/150 = embedding disabled by the owner
+export const UNPLAYABLE_PLAYER_ERRORS = [100, 101, 150];
@@ -13,13 +13,50 @@ interface YouTubeVideoDetails {
   contentDetails?: {
     duration?: string;
   };
+  status?: {
+    embeddable?: boolean;
+  };
 }
 
 interface YouTubeApiResponse {
   items: YouTubeVideoDetails[];
 }
 
-interface ProcessedVideoData {
+interface YouTubePlaylistItemsResponse {
+  items: {
+    snippet?: { title?: string };
+    contentDetails?: { videoId?: string };
+  }[];
+  nextPageToken?: string;
+}
+
+interface YouTubePlaylistsResponse {
+  items: {
+    id: string;
+    snippet?: { title?: string; description?: string };
+  }[];
+}
+
+// How requests reach the YouTube Data API. Swap the transport or base URL to
+// run the import flow against a local stub server instead of Google.
+export type YouTubeTransport = (url: string) => Promise<Response>;
+
+export interface YouTubeClientOptions {
+  transport?: YouTubeTransport; // defaults to rateLimitedFetch
+  baseUrl?: string;
+  apiKey?: string; // defaults to NEXT_PUBLIC_YOUTUBE_API_KEY
+}
+
+const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+
+export interface YouTubePlaylistDetails {
+  playlistId: string;
+  title: string;
+  description: string;
+  videoIds: string[]; // in playlist order, may repeat
+}
+
+export interface ProcessedVideoData {
   id: string;
   title: string;
   channelTitle: string;
@@ -30,13 +67,14 @@ interface ProcessedVideoData {
   };
   duration: string;
   description: string;
+  embeddable: boolean; // false when the owner has disabled playback in embedded players
 }
 
 // Extract video ID from various YouTube URL formats
 export const extractVideoId = (url: string): string | null => {
   const patterns = [
     /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/,
-    /^[a-zA-Z0-9_-]{11}$/
+    /^([a-zA-Z0-9_-]{11})$/
   ];
   
   for (const pattern of patterns) {
@@ -47,6 +85,14 @@ export const extractVideoId = (url: string): string | null => {
   return null;
 };
 
+// Extract playlist ID from a URL with a `list=` parameter, or a bare playlist ID
+export const extractPlaylistId = (url: string): string | null => {
+  const match = url.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+  if (match) return match[1];
+  
+  return /^(PL|UU|LL|FL|OL)[a-zA-Z0-9_-]{10,}$/.test(url.trim()) ? url.trim() : null;
+};
+
 // Validate YouTube URL
 export const isValidYouTubeUrl = (url: string): boolean => {
   return extractVideoId(url) !== null;
@@ -68,56 +114,95 @@ export const formatDuration = (duration: string): string => {
   }
 };
 
-// Fetch video metadata from YouTube API
+// Convert a stored duration ("3:45", "1:02:03" or ISO 8601) to seconds
+export const durationToSeconds = (duration: string): number => {
+  const isoMatch = duration.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (isoMatch) {
+    return (parseInt(isoMatch[1] || '0') * 3600) + (parseInt(isoMatch[2] || '0') * 60) + parseInt(isoMatch[3] || '0');
+  }
+  
+  return parseTimeOffset(duration) ?? 0;
+};
+
+// Parse a clip offset like "1:30", "1:02:03" or "90" into seconds
+export const parseTimeOffset = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+(:\d{1,2}){0,2}$/.test(trimmed)) return null;
+  
+  return trimmed
+    .split(':')
+    .reduce((total, part) => (total * 60) + parseInt(part, 10), 0);
+};
+
+// Format seconds as a clip offset like "1:30"
+export const formatTimeOffset = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const processVideoDetails = (video: YouTubeVideoDetails): ProcessedVideoData => {
+  const snippet = video.snippet || {};
+  const contentDetails = video.contentDetails || {};
+  
+  return {
+    id: video.id,
+    title: snippet?.title || 'Untitled Video',
+    channelTitle: snippet?.channelTitle || 'Unknown Channel',
+    thumbnails: {
+      high: snippet?.thumbnails?.high || { url: '' },
+      medium: snippet?.thumbnails?.medium || { url: '' },
+      default: snippet?.thumbnails?.default || { url: '' }
+    },
+    duration: formatDuration(contentDetails?.duration || 'PT0S'),
+    description: snippet?.description || '',
+    embeddable: video.status?.embeddable !== false,
+  };
+};
+
+const getApiKey = (): string => {
+  const apiKey = process.env.NEXT_PUBLIC_YOUTUBE_API_KEY;
+  if (!apiKey || apiKey === 'your_youtube_data_api_key') {
+    throw new YouTubeApiError('YouTube API key not found or not configured properly');
+  }
+  return apiKey;
+};
+
+// Fetch video metadata from YouTube API. Resolves null when the video does not
+// exist (removed or private) and throws when YouTube could not be asked at all.
+export const requestVideoMetadata = async (videoId: string): Promise<ProcessedVideoData | null> => {
+  const apiKey = getApiKey();
+  
+  const response = await fetch(
+    `https://www.googleapis.com/youtube/v3/videos?` +
+    `id=${videoId}&` +
+    `part=snippet,contentDetails,status&` +
+    `key=${apiKey}`
+  );
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    console.error('YouTube API error:', response.status, errorData);
+    throw new YouTubeApiError(`YouTube API error: ${response.status}`, response.status);
+  }
+  
+  const data: YouTubeApiResponse = await response.json();
+  
+  if (data.items.length === 0) {
+    return null; // Video not found
+  }
+  
+  return processVideoDetails(data.items[0]);
+};
+
 export const fetchVideoMetadata = async (videoId: string): Promise<ProcessedVideoData | null> => {
   try {
-    const apiKey = process.env.NEXT_PUBLIC_YOUTUBE_API_KEY;
-    if (!apiKey || apiKey === 'your_youtube_data_api_key') {
-      console.error('YouTube API key not found or not configured properly');
-      return null;
-    }
-    
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/videos?` +
-      `id=${videoId}&` +
-      `part=snippet,contentDetails&` +
-      `key=${apiKey}`
-    );
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => null);
-      console.error('YouTube API error:', response.status, errorData);
-      throw new Error(`YouTube API error: ${response.status}`);
-    }
-    
-    const data: YouTubeApiResponse = await response.json();
-    
-    if (data.items.length === 0) {
-      return null; // Video not found
-    }
-    
-    const video = data.items[0];
-    const snippet = video.snippet || {};
-    const contentDetails = video.contentDetails || {};
-    
-    const defaultThumbnails = {
-      high: { url: '' },
-      medium: { url: '' },
-      default: { url: '' }
-    };
-
-    return {
-      id: video.id,
-      title: snippet?.title || 'Untitled Video',
-      channelTitle: snippet?.channelTitle || 'Unknown Channel',
-      thumbnails: {
-        high: snippet?.thumbnails?.high || { url: '' },
-        medium: snippet?.thumbnails?.medium || { url: '' },
-        default: snippet?.thumbnails?.default || { url: '' }
-      },
-      duration: formatDuration(contentDetails?.duration || 'PT0S'),
-      description: snippet?.description || ''
-    };
+    return await requestVideoMetadata(videoId);
   } catch (error) {
     console.error('Error fetching video metadata:', error);
     return null;
@@ -132,17 +217,102 @@ export const fetchVideoMetadataByUrl = async (url: string): Promise<ProcessedVid
   return fetchVideoMetadata(videoId);
 };
 
+// The videos endpoint accepts at most 50 ids per request
+export const MAX_IDS_PER_REQUEST = 50;
+
+// GET a Data API endpoint through the configured transport, throwing on HTTP errors
+const requestYouTubeApi = async <T>(
+  endpoint: string,
+  params: Record<string, string>,
+  options: YouTubeClientOptions = {}
+): Promise<T> => {
+  const transport = options.transport || rateLimitedFetch;
+  const query = new URLSearchParams({ ...params, key: options.apiKey || getApiKey() });
+  const response = await transport(`${options.baseUrl || YOUTUBE_API_BASE_URL}/${endpoint}?${query.toString()}`);
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    console.error('YouTube API error:', response.status, errorData);
+    throw new YouTubeApiError(`YouTube API error: ${response.status}`, response.status);
+  }
+  
+  return response.json();
+};
+
+// Fetch metadata for many videos, 50 ids per request. Ids missing from the
+// result were not found (removed or private). Throws if any request fails.
+export const fetchVideoMetadataBatch = async (
+  videoIds: string[],
+  options: YouTubeClientOptions = {}
+): Promise<Map<string, ProcessedVideoData>> => {
+  const results = new Map<string, ProcessedVideoData>();
+  
+  for (let i = 0; i < videoIds.length; i += MAX_IDS_PER_REQUEST) {
+    const batch = videoIds.slice(i, i + MAX_IDS_PER_REQUEST);
+    const data = await requestYouTubeApi<YouTubeApiResponse>('videos', {
+      id: batch.join(','),
+      part: 'snippet,contentDetails,status',
+      maxResults: String(MAX_IDS_PER_REQUEST),
+    }, options);
+    
+    data.items.forEach(item => results.set(item.id, processVideoDetails(item)));
+  }
+  
+  return results;
+};
+
+// Fetch a playlist's title and every video ID in it, paging through playlistItems
+export const fetchPlaylistDetails = async (
+  playlistId: string,
+  options: YouTubeClientOptions = {}
+): Promise<YouTubePlaylistDetails | null> => {
+  const playlists = await requestYouTubeApi<YouTubePlaylistsResponse>('playlists', {
+    id: playlistId,
+    part: 'snippet',
+  }, options);
+  
+  if (playlists.items.length === 0) {
+    return null; // Playlist not found or private
+  }
+  
+  const snippet = playlists.items[0].snippet || {};
+  const videoIds: string[] = [];
+  let pageToken: string | undefined;
+  
+  do {
+    const page = await requestYouTubeApi<YouTubePlaylistItemsResponse>('playlistItems', {
+      playlistId,
+      part: 'contentDetails',
+      maxResults: String(MAX_IDS_PER_REQUEST),
+      ...(pageToken ? { pageToken } : {}),
+    }, options);
+    
+    page.items.forEach(item => {
+      if (item.contentDetails?.videoId) {
+        videoIds.push(item.contentDetails.videoId);
+      }
+    });
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  
+  return {
+    playlistId,
+    title: snippet.title || 'Imported Playlist',
+    description: snippet.description || '',
+    videoIds,
+  };
+};
+
 // Generate auto-tags based on video metadata
 export const generateAutoTags = (video: ProcessedVideoData): string[] => {
   const tags: string[] = [];
   const title = video.title.toLowerCase();
   const description = video.description.toLowerCase();
   
-  // Duration-based tags
-  const duration = video.duration;
-  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (match) {
-    const totalMinutes = (parseInt(match[1] || '0') * 60) + parseInt(match[2] || '0');
+  // Duration-based tags (processed metadata holds "3:45" style durations, not ISO 8601)
+  const totalSeconds = durationToSeconds(video.duration);
+  if (totalSeconds > 0) {
+    const totalMinutes = Math.floor(totalSeconds / 60);
     if (totalMinutes <= 3) tags.push('short');
     else if (totalMinutes <= 10) tags.push('medium');
     else tags.push('long');
@@ -1,7 +1,12 @@
+export type UserRole = 'worker' | 'admin';
+
 export interface User {
   uid: string;
   name: string;
   email: string;
+  role: UserRole;
+  disabled?: boolean;
+  activeInventoryId?: string; // tube inventory used for "playable with our set" checks
   createdAt: string;
 }
 
@@ -14,6 +19,98 @@ export interface Video {
   channelName: string;
   createdBy: string;
   createdAt: string;
+  hidden?: boolean; // hidden by an admin via the moderation queue
+  availability?: VideoAvailability; // set by the video health checker
+  availabilityCheckedAt?: string;
+  boomwhackerNotes?: BoomwhackerNote[]; // notes played in the video, lowest first
+  needsOctavators?: boolean; // low-octave parts that need octavator caps
+}
+
+export type VideoAvailability = 'available' | 'unavailable' | 'unknown';
+
+// One tube per note; C' is the high C tube of a diatonic set
+export type BoomwhackerNote = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B' | "C'";
+
+// The tubes owned at one venue
+export interface TubeInventory {
+  id: string;
+  userId: string;
+  name: string; // venue name, e.g. "Community hall"
+  notes: BoomwhackerNote[];
+  hasOctavators: boolean;
+  createdAt: string;
+}
+
+export type AgeBand = 'under-7' | '7-12' | '13-17' | '18-25' | '26-plus';
+
+export interface ParticipantGoal {
+  id: string;
+  description: string; // e.g. "Plays on cue 3 times"
+  target?: number; // e.g. 3; progress values are recorded in the same units
+  tags?: string[]; // activity or difficulty tag names, so recommendations can target the goal
+}
+
+// How far a participant got towards one goal in one session
+export interface GoalProgress {
+  participantId: string;
+  goalId: string;
+  value: number;
+}
+
+// Someone a worker runs sessions for. Workers may use a pseudonym instead of a real name.
+export interface Participant {
+  id: string;
+  userId: string; // the worker who owns this profile
+  displayName: string;
+  ageBand: AgeBand;
+  sensoryNotes: string;
+  favouriteVideoIds: string[];
+  goals: ParticipantGoal[];
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = 'none' | 'weekly' | 'fortnightly';
+
+// A session planned ahead of time. Recurring sessions repeat on the start date's weekday.
+export interface PlannedSession {
+  id: string;
+  userId: string;
+  playlistId: string;
+  participantIds: string[];
+  venueId?: string; // tube inventory for the venue
+  startDate: string; // YYYY-MM-DD, the first (or only) occurrence
+  time: string; // HH:mm, local
+  durationMinutes: number;
+  recurrence: RecurrenceFrequency;
+  endDate?: string; // YYYY-MM-DD, last day a recurring session can fall on
+  notes?: string;
+  createdAt: string;
+}
+
+export type SessionStepType = 'instruction' | 'timer' | 'picture' | 'pause';
+
+// A non-video step shown full-screen in the session player
+export interface SessionStep {
+  type: SessionStepType;
+  title: string;
+  text?: string; // instruction text or picture caption
+  imageUrl?: string; // picture cards only
+  durationSeconds?: number; // countdown length; steps without one wait for Next
+}
+
+export interface PlaylistEntry {
+  id: string;
+  videoId?: string; // set for video entries
+  step?: SessionStep; // set instead of videoId for non-video steps
+  startSeconds?: number; // clip start offset
+  endSeconds?: number; // clip end offset
+  sectionId?: string; // section this entry belongs to, if the playlist uses sections
+}
+
+export interface PlaylistSection {
+  id: string;
+  name: string;
+  targetSeconds?: number; // how long the section should run
 }
 
 export interface Playlist {
@@ -21,7 +118,9 @@ export interface Playlist {
   userId: string;
   title: string;
   createdAt: string;
-  videoRefs: string[];
+  videoRefs: string[]; // video IDs in play order, derived from entries for querying
+  entries: PlaylistEntry[];
+  sections?: PlaylistSection[]; // in play order; entries are kept grouped by section
   notes?: string;
 }
 
@@ -33,6 +132,58 @@ export interface SessionSettings {
   autoplay: boolean;
   fullscreen: boolean;
   volume: number;
+  lowSensory?: boolean; // volume fades, no controls overlay and masked YouTube end screens
+  switchScanning?: boolean; // driven by the participant through switch scanning
+}
+
+export type LandingPage = '/dashboard' | '/playlists' | '/videos' | '/templates';
+
+// Launcher defaults; each session can still override them before starting
+export interface SessionDefaults {
+  autoplay: boolean;
+  shuffle: boolean;
+  loop: boolean;
+  fullscreen: boolean;
+  volume: number; // 0-1
+  colourNotes: boolean;
+  colourScheme: string; // colour chart id; unknown ids fall back to the default chart
+}
+
+export interface AccessibilityPreferences {
+  highContrast: boolean;
+  largeText: boolean;
+  lowSensory: boolean;
+  reducedMotion: boolean;
+}
+
+// single: choices are highlighted in turn on a timer and one switch selects;
+// two-switch: one switch steps through the choices and the other selects
+export type SwitchScanMode = 'single' | 'two-switch';
+
+export interface SwitchAccessPreferences {
+  enabled: boolean; // start sessions in scanning mode
+  mode: SwitchScanMode;
+  scanIntervalSeconds: number; // single-switch mode only
+  selectKey: string; // KeyboardEvent.code; most switch interfaces send Space or Enter
+  stepKey: string; // two-switch mode only
+}
+
+// One document per user, keyed by uid
+export interface UserPreferences {
+  session: SessionDefaults;
+  accessibility: AccessibilityPreferences;
+  switchAccess: SwitchAccessPreferences;
+  landingPage: LandingPage;
+  defaultTagFilters: string[]; // tag names the video library opens filtered by
+}
+
+// Video library search filters
+export interface VideoFilters {
+  tags: string[];
+  duration: 'all' | 'short' | 'medium' | 'long';
+  sortBy: 'recent' | 'title' | 'duration' | 'channel';
+  sortOrder: 'asc' | 'desc';
+  playableOnly: boolean; // only videos the active venue's tubes can play
 }
 
 export interface Tag {
@@ -40,6 +191,27 @@ export interface Tag {
   name: string;
   category: 'key' | 'tempo' | 'activity' | 'difficulty' | 'custom';
   createdBy: string;
+  hidden?: boolean;
+}
+
+// Moderation Types
+export type FlagReason = 'inappropriate' | 'broken' | 'wrong-content' | 'duplicate' | 'other';
+
+export type FlagStatus = 'open' | 'approved' | 'hidden' | 'deleted';
+
+export interface ContentFlag {
+  id: string;
+  itemType: 'video' | 'tag';
+  itemId: string;
+  itemLabel: string; // title/name at the time of flagging, kept for deleted items
+  reason: FlagReason;
+  details?: string;
+  flaggedBy: string;
+  flaggedByName: string;
+  status: FlagStatus;
+  createdAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
 }
 
 // Analytics Types
@@ -51,10 +223,40 @@ export interface SessionAnalytics {
   endTime?: string;
   duration?: number; // in seconds
   videosPlayed: VideoPlaybackData[];
+  stepsCompleted?: StepPlaybackData[];
   settings: SessionSettings;
   deviceInfo: DeviceInfo;
   completionRate: number; // 0-100%
   exitReason?: 'completed' | 'manual' | 'error';
+  participantIds?: string[]; // participants who attended
+  notes?: string; // the worker's progress notes for the session
+  engagementRatings?: Record<string, number>; // video ID -> 1-5, rated after the session
+  goalProgress?: GoalProgress[];
+  plannedSessionId?: string; // the schedule entry this session delivered
+  plannedDate?: string; // YYYY-MM-DD occurrence of a recurring entry
+}
+
+// Where a session was when it was last saved, so it can pick up again after a crash
+export interface SessionResumeState {
+  entryOrder: string[]; // entry ids in play order, keeping a shuffled order intact
+  index: number;
+  positionSeconds: number;
+}
+
+// Written periodically while a session runs and removed once it ends normally
+export interface PartialSessionAnalytics extends Omit<SessionAnalytics, 'endTime' | 'exitReason'> {
+  lastUpdated: string;
+  resume?: SessionResumeState;
+}
+
+export interface StepPlaybackData {
+  entryId: string;
+  type: SessionStepType;
+  title: string;
+  startTime: string;
+  endTime: string;
+  duration: number; // in seconds
+  skipped: boolean; // moved on before a timed step finished
 }
 
 export interface VideoPlaybackData {
@@ -66,6 +268,20 @@ export interface VideoPlaybackData {
   skipped: boolean;
   rewound: boolean;
   pauseCount: number;
+  rateChanges?: PlaybackRateChange[]; // practice speed changes, in order
+  loops?: PracticeLoop[]; // A-B loops set while this video played
+}
+
+export interface PlaybackRateChange {
+  rate: number; // 0.5-1.5
+  positionSeconds: number;
+  changedAt: string;
+}
+
+export interface PracticeLoop {
+  startSeconds: number;
+  endSeconds: number;
+  repeats: number; // times playback jumped back to the start
 }
 
 export interface UsageMetrics {
@@ -92,6 +308,9 @@ export interface VideoAnalytics {
   lastPlayed: string;
   popularTags: string[];
   usageByHour: Record<number, number>; // hour -> play count
+  engagementRatingCount?: number;
+  engagementRatingTotal?: number;
+  averageEngagement?: number; // 1-5, from post-session ratings
 }
 
 export interface PlaylistAnalytics {
@@ -140,6 +359,11 @@ export interface TemplatePlaylist {
   createdBy: string;
   isPublic: boolean;
   usageCount: number;
-  rating: number; // 1-5
+  rating: number; // 1-5 average, 0 until first rated
+  ratingCount: number;
+  ratingsByUser: Record<string, number>; // userId -> rating, so each user rates once
   createdAt: string;
-}
\ No newline at end of file
+}
+
+export type TemplateCategory = TemplatePlaylist['category'];
+export type TemplateDifficulty = TemplatePlaylist['difficulty'];
\ No newline at end of file